@@ -6,4 +6,5 @@ module.exports = {
     "^web-worker:.*$": '<rootDir>/src/test/worker.ts'
   },
   testEnvironment: 'node',
+  setupFiles: ['<rootDir>/src/test/setupCrypto.ts'],
 };
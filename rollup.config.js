@@ -9,6 +9,7 @@ import replace from 'rollup-plugin-re';
 import filesize from 'rollup-plugin-filesize';
 import webWorkerLoader from 'rollup-plugin-web-worker-loader';
 import del from 'rollup-plugin-delete';
+import path from 'path';
 
 import packageJson from './package.json';
 
@@ -18,49 +19,83 @@ function kebabCaseToPascalCase(string = '') {
   );
 }
 
-export default {
-  input: 'src/index.ts',
-  output: [
-    {
-      file: `dist/${packageJson.name}.esm.mjs`,
-      format: 'esm',
-      strict: true,
-      sourcemap: true,
+/**
+ * resolves imports of the package's public entry to the package itself, so a bundle built
+ * next to the main one shares its classes, e.g. for `instanceof` checks, instead of copying them
+ * @returns {import('rollup').Plugin}
+ */
+function externalPackageEntry() {
+  const entry = path.resolve('src/index');
+  return {
+    name: 'external-package-entry',
+    resolveId(source, importer) {
+      if (importer && path.resolve(path.dirname(importer), source) === entry) {
+        return { id: packageJson.name, external: true };
+      }
+      return null;
     },
-    {
-      file: `dist/${packageJson.name}.umd.js`,
-      format: 'umd',
-      strict: true,
-      sourcemap: true,
-      name: kebabCaseToPascalCase(packageJson.name),
-      plugins: [terser()],
-    },
-  ],
-  plugins: [
-    del({ targets: 'dist/*' }),
-    nodeResolve({ browser: true, preferBuiltins: false }),
-    typescript({ tsconfig: './tsconfig.json' }),
-    commonjs(),
-    json(),
-    webWorkerLoader({ extensions: ['.js', '.ts'] }),
-    babel({
-      babelHelpers: 'bundled',
-      plugins: ['@babel/plugin-proposal-object-rest-spread'],
-      presets: ['@babel/preset-env'],
-      extensions: ['.js', '.ts', '.mjs'],
-    }),
-    replace({
-      patterns: [
-        {
-          // protobuf.js uses `eval` to determine whether a module is present or not
-          // in most modern browsers this will fail anyways due to CSP, and it's safer to just replace it with `undefined`
-          // until this PR is merged: https://github.com/protobufjs/protobuf.js/pull/1548
-          // related discussion: https://github.com/protobufjs/protobuf.js/issues/593
-          test: /eval.*\(moduleName\);/g,
-          replace: 'undefined;',
-        },
-      ],
-    }),
-    filesize(),
-  ],
-};
+  };
+}
+
+/**
+ * @param {string} input
+ * @param {string} fileName
+ * @param {import('rollup').Plugin[]} setup plugins running before the build
+ * @returns {import('rollup').RollupOptions}
+ */
+function bundle(input, fileName, setup = []) {
+  return {
+    input,
+    output: [
+      {
+        file: `dist/${fileName}.esm.mjs`,
+        format: 'esm',
+        strict: true,
+        sourcemap: true,
+      },
+      {
+        file: `dist/${fileName}.umd.js`,
+        format: 'umd',
+        strict: true,
+        sourcemap: true,
+        name: kebabCaseToPascalCase(fileName),
+        globals: { [packageJson.name]: kebabCaseToPascalCase(packageJson.name) },
+        plugins: [terser()],
+      },
+    ],
+    plugins: [
+      ...setup,
+      nodeResolve({ browser: true, preferBuiltins: false }),
+      typescript({ tsconfig: './tsconfig.json' }),
+      commonjs(),
+      json(),
+      webWorkerLoader({ extensions: ['.js', '.ts'] }),
+      babel({
+        babelHelpers: 'bundled',
+        plugins: ['@babel/plugin-proposal-object-rest-spread'],
+        presets: ['@babel/preset-env'],
+        extensions: ['.js', '.ts', '.mjs'],
+      }),
+      replace({
+        patterns: [
+          {
+            // protobuf.js uses `eval` to determine whether a module is present or not
+            // in most modern browsers this will fail anyways due to CSP, and it's safer to just replace it with `undefined`
+            // until this PR is merged: https://github.com/protobufjs/protobuf.js/pull/1548
+            // related discussion: https://github.com/protobufjs/protobuf.js/issues/593
+            test: /eval.*\(moduleName\);/g,
+            replace: 'undefined;',
+          },
+        ],
+      }),
+      filesize(),
+    ],
+  };
+}
+
+export default [
+  // bundles are built in order, only the first one starts from an empty dist directory
+  bundle('src/index.ts', packageJson.name, [del({ targets: 'dist/*' })]),
+  // mock server and WebRTC globals for testing apps against the SDK
+  bundle('src/test/index.ts', `${packageJson.name}-test`, [externalPackageEntry()]),
+];
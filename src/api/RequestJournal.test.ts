@@ -0,0 +1,141 @@
+import { VideoQuality } from '../proto/livekit_models';
+import { UpdateTrackSettings } from '../proto/livekit_rtc';
+import RequestJournal from './RequestJournal';
+
+const settings = (trackSids: string[], quality: VideoQuality) =>
+  UpdateTrackSettings.fromPartial({ trackSids, quality });
+
+describe('RequestJournal', () => {
+  let journal: RequestJournal;
+
+  beforeEach(() => {
+    journal = new RequestJournal();
+  });
+
+  it('keeps the latest mute state per track', () => {
+    journal.record({ $case: 'mute', mute: { sid: 'TR_a', muted: true } });
+    journal.record({ $case: 'mute', mute: { sid: 'TR_b', muted: true } });
+    journal.record({ $case: 'mute', mute: { sid: 'TR_a', muted: false } });
+
+    expect(journal.replay()).toEqual([
+      { $case: 'mute', mute: { sid: 'TR_a', muted: false } },
+      { $case: 'mute', mute: { sid: 'TR_b', muted: true } },
+    ]);
+  });
+
+  it('keeps the latest settings per track', () => {
+    journal.record({ $case: 'trackSetting', trackSetting: settings(['TR_a', 'TR_b'], 0) });
+    journal.record({
+      $case: 'trackSetting',
+      trackSetting: settings(['TR_b'], VideoQuality.LOW),
+    });
+
+    expect(journal.replay()).toEqual([
+      { $case: 'trackSetting', trackSetting: settings(['TR_a'], VideoQuality.LOW) },
+      { $case: 'trackSetting', trackSetting: settings(['TR_b'], VideoQuality.LOW) },
+    ]);
+  });
+
+  it('keeps the latest subscription per track', () => {
+    journal.record({
+      $case: 'subscription',
+      subscription: {
+        trackSids: ['TR_a'],
+        subscribe: false,
+        participantTracks: [{ participantSid: 'PA_bob', trackSids: ['TR_a', 'TR_b'] }],
+      },
+    });
+    journal.record({
+      $case: 'subscription',
+      subscription: { trackSids: ['TR_b'], subscribe: true, participantTracks: [] },
+    });
+
+    expect(journal.replay()).toEqual([
+      {
+        $case: 'subscription',
+        subscription: {
+          trackSids: ['TR_a'],
+          subscribe: false,
+          participantTracks: [{ participantSid: 'PA_bob', trackSids: ['TR_a'] }],
+        },
+      },
+      {
+        $case: 'subscription',
+        subscription: {
+          trackSids: ['TR_b'],
+          subscribe: true,
+          participantTracks: [{ participantSid: '', trackSids: ['TR_b'] }],
+        },
+      },
+    ]);
+  });
+
+  it('keeps the latest subscription permission first', () => {
+    journal.record({ $case: 'mute', mute: { sid: 'TR_a', muted: true } });
+    journal.record({
+      $case: 'subscriptionPermission',
+      subscriptionPermission: { allParticipants: true, trackPermissions: [] },
+    });
+    journal.record({
+      $case: 'subscriptionPermission',
+      subscriptionPermission: { allParticipants: false, trackPermissions: [] },
+    });
+
+    expect(journal.replay()).toEqual([
+      {
+        $case: 'subscriptionPermission',
+        subscriptionPermission: { allParticipants: false, trackPermissions: [] },
+      },
+      { $case: 'mute', mute: { sid: 'TR_a', muted: true } },
+    ]);
+  });
+
+  it('ignores requests that do not describe a desired state', () => {
+    expect(journal.record({ $case: 'ping', ping: 1 })).toBe(false);
+    expect(journal.record({ $case: 'mute', mute: { sid: 'TR_a', muted: true } })).toBe(true);
+    expect(journal.replay()).toHaveLength(1);
+  });
+
+  it('forgets tracks that are no longer published', () => {
+    journal.record({ $case: 'mute', mute: { sid: 'TR_a', muted: true } });
+    journal.record({ $case: 'trackSetting', trackSetting: settings(['TR_a', 'TR_b'], 0) });
+    journal.record({
+      $case: 'subscription',
+      subscription: { trackSids: ['TR_a', 'TR_b'], subscribe: false, participantTracks: [] },
+    });
+
+    journal.reconcile(new Set(['TR_b']));
+
+    expect(journal.replay().map((message) => message.$case)).toEqual([
+      'subscription',
+      'trackSetting',
+    ]);
+  });
+
+  it('forgets unpublished tracks', () => {
+    journal.record({ $case: 'mute', mute: { sid: 'TR_a', muted: true } });
+    journal.record({ $case: 'trackSetting', trackSetting: settings(['TR_a', 'TR_b'], 0) });
+    journal.record({
+      $case: 'subscription',
+      subscription: { trackSids: ['TR_a'], subscribe: false, participantTracks: [] },
+    });
+
+    journal.forget('TR_a');
+
+    expect(journal.replay()).toEqual([
+      { $case: 'trackSetting', trackSetting: settings(['TR_b'], 0) },
+    ]);
+  });
+
+  it('forgets everything when cleared', () => {
+    journal.record({ $case: 'mute', mute: { sid: 'TR_a', muted: true } });
+    journal.record({
+      $case: 'subscriptionPermission',
+      subscriptionPermission: { allParticipants: true, trackPermissions: [] },
+    });
+
+    journal.clear();
+
+    expect(journal.replay()).toEqual([]);
+  });
+});
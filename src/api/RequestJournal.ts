@@ -0,0 +1,110 @@
+import type {
+  SignalRequest,
+  SubscriptionPermission,
+  UpdateSubscription,
+  UpdateTrackSettings,
+} from '../proto/livekit_rtc';
+
+type SignalMessage = NonNullable<SignalRequest['message']>;
+
+/**
+ * Keeps the latest state the client asked the server for, per kind of request and track, so
+ * it can be restored when a full reconnect starts a new session on the server. Requests sent
+ * while the connection is being restarted can't be delivered, and the server forgets the
+ * state of the previous session, so both would be lost otherwise.
+ * @internal
+ */
+export default class RequestJournal {
+  private mutes = new Map<string, boolean>();
+
+  private trackSettings = new Map<string, UpdateTrackSettings>();
+
+  private subscriptions = new Map<string, { participantSid: string; subscribe: boolean }>();
+
+  private subscriptionPermission?: SubscriptionPermission;
+
+  /**
+   * records the state requested by `message`
+   * @returns false if the kind of request isn't kept in the journal
+   */
+  record(message: SignalMessage): boolean {
+    switch (message.$case) {
+      case 'mute':
+        this.mutes.set(message.mute.sid, message.mute.muted);
+        return true;
+      case 'trackSetting':
+        message.trackSetting.trackSids.forEach((sid) => {
+          this.trackSettings.set(sid, { ...message.trackSetting, trackSids: [sid] });
+        });
+        return true;
+      case 'subscription': {
+        const { subscribe, trackSids, participantTracks } = message.subscription;
+        trackSids.forEach((sid) => {
+          this.subscriptions.set(sid, { participantSid: '', subscribe });
+        });
+        participantTracks.forEach(({ participantSid, trackSids: sids }) => {
+          sids.forEach((sid) => this.subscriptions.set(sid, { participantSid, subscribe }));
+        });
+        return true;
+      }
+      case 'subscriptionPermission':
+        this.subscriptionPermission = message.subscriptionPermission;
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /** forgets the state requested for a track that was unpublished */
+  forget(trackSid: string) {
+    this.mutes.delete(trackSid);
+    this.trackSettings.delete(trackSid);
+    this.subscriptions.delete(trackSid);
+  }
+
+  /** forgets the state of tracks that are no longer published */
+  reconcile(publishedTrackSids: Set<string>) {
+    [this.mutes, this.trackSettings, this.subscriptions].forEach(
+      (entries: Map<string, unknown>) => {
+        entries.forEach((_, sid) => {
+          if (!publishedTrackSids.has(sid)) {
+            entries.delete(sid);
+          }
+        });
+      },
+    );
+  }
+
+  /** the requests that restore the recorded state, at most one per kind and track */
+  replay(): SignalMessage[] {
+    const messages: SignalMessage[] = [];
+    if (this.subscriptionPermission) {
+      messages.push({
+        $case: 'subscriptionPermission',
+        subscriptionPermission: this.subscriptionPermission,
+      });
+    }
+    this.subscriptions.forEach(({ participantSid, subscribe }, sid) => {
+      const subscription: UpdateSubscription = {
+        trackSids: [sid],
+        subscribe,
+        participantTracks: [{ participantSid, trackSids: [sid] }],
+      };
+      messages.push({ $case: 'subscription', subscription });
+    });
+    this.trackSettings.forEach((trackSetting) => {
+      messages.push({ $case: 'trackSetting', trackSetting });
+    });
+    this.mutes.forEach((muted, sid) => {
+      messages.push({ $case: 'mute', mute: { sid, muted } });
+    });
+    return messages;
+  }
+
+  clear() {
+    this.mutes.clear();
+    this.trackSettings.clear();
+    this.subscriptions.clear();
+    this.subscriptionPermission = undefined;
+  }
+}
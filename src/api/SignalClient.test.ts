@@ -0,0 +1,222 @@
+import { setLogLevel } from '../logger';
+import { JoinResponse, SignalRequest, SignalResponse } from '../proto/livekit_rtc';
+import { SignalClient } from './SignalClient';
+import type { SignalTransport } from './SignalTransport';
+
+setLogLevel('silent');
+
+// connection parameters include the network type, the test environment has no navigator
+if (typeof navigator === 'undefined') {
+  Object.defineProperty(globalThis, 'navigator', { value: {}, configurable: true });
+}
+
+/** a transport whose server side is driven by the test */
+class MemoryTransport implements SignalTransport {
+  isOpen = false;
+
+  onmessage?: (response: SignalResponse) => void;
+
+  onclose?: (reason: string) => void;
+
+  url?: string;
+
+  sent: SignalRequest[] = [];
+
+  async open(url: string) {
+    this.url = url;
+    this.isOpen = true;
+  }
+
+  send(request: SignalRequest) {
+    this.sent.push(request);
+  }
+
+  async close() {
+    this.isOpen = false;
+  }
+}
+
+const joinResponse = JoinResponse.fromPartial({ serverVersion: '1.0.0' });
+
+async function join(response = joinResponse) {
+  const transports: MemoryTransport[] = [];
+  const client = new SignalClient(false, () => {
+    const transport = new MemoryTransport();
+    transports.push(transport);
+    return transport;
+  });
+  const joined = client.join('wss://example.livekit.io', 'token', {
+    autoSubscribe: true,
+    maxRetries: 0,
+  });
+  await Promise.resolve();
+  transports[0].onmessage?.({ message: { $case: 'join', join: response } });
+  return { client, transport: transports[0], transports, response: await joined };
+}
+
+describe('SignalClient', () => {
+  it('joins through the transport', async () => {
+    const { transport, response } = await join();
+    expect(response).toEqual(joinResponse);
+    expect(transport.url).toMatch(/^wss:\/\/example\.livekit\.io\/rtc\?access_token=token&/);
+  });
+
+  it('sends requests through the transport', async () => {
+    const { client, transport } = await join();
+    client.sendMuteTrack('TR_audio', true);
+    await client.requestQueue.flush();
+    await Promise.resolve();
+    expect(transport.sent).toEqual([
+      { message: { $case: 'mute', mute: { sid: 'TR_audio', muted: true } } },
+    ]);
+  });
+
+  it('journals requests that can not be sent while disconnected', async () => {
+    const { client, transport } = await join();
+    await client.close();
+
+    client.sendMuteTrack('TR_audio', true);
+    await client.requestQueue.flush();
+
+    expect(transport.sent).toEqual([]);
+    expect(client.journal.replay()).toEqual([
+      { $case: 'mute', mute: { sid: 'TR_audio', muted: true } },
+    ]);
+  });
+
+  it('hands responses to their callbacks', async () => {
+    const { client, transport } = await join();
+    client.onTokenRefresh = jest.fn();
+    transport.onmessage?.({ message: { $case: 'refreshToken', refreshToken: 'new-token' } });
+    expect(client.onTokenRefresh).toHaveBeenCalledWith('new-token');
+  });
+
+  it('reports connections closed by the server', async () => {
+    const { client, transport } = await join();
+    client.onClose = jest.fn();
+    transport.onclose?.('server shutting down');
+    expect(client.onClose).toHaveBeenCalledWith('server shutting down');
+    expect(client.isConnected).toBe(false);
+  });
+
+  it('creates a new transport for reconnecting', async () => {
+    const { client, transports } = await join();
+    const reconnected = client.reconnect('wss://example.livekit.io', 'token', 'PA_sid');
+    await Promise.resolve();
+    await reconnected;
+    expect(transports).toHaveLength(2);
+    expect(transports[0].isOpen).toBe(false);
+    expect(transports[1].url).toContain('reconnect=1');
+    await client.close();
+  });
+
+  describe('pings', () => {
+    const pingResponse = JoinResponse.fromPartial({
+      serverVersion: '1.0.0',
+      pingInterval: 1,
+      pingTimeout: 10,
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    /** answers a ping like the server, by echoing the time it was sent */
+    const pong = (transport: MemoryTransport, ping = transport.sent.length - 1) => {
+      const request = transport.sent[ping]?.message;
+      if (request?.$case !== 'ping') {
+        throw new Error(`request ${ping} is not a ping`);
+      }
+      transport.onmessage?.({ message: { $case: 'pong', pong: request.ping } });
+    };
+
+    it('measures the round trip time of pings', async () => {
+      const { client, transport } = await join(pingResponse);
+      jest.advanceTimersByTime(1000);
+      await client.requestQueue.flush();
+      await Promise.resolve();
+      expect(transport.sent.map((req) => req.message?.$case)).toEqual(['ping']);
+
+      jest.advanceTimersByTime(40);
+      pong(transport);
+
+      expect(client.stats).toEqual({ rtt: 40, missedPongs: 0, lastMessageAge: 0 });
+      await client.close();
+    });
+
+    it('measures the round trip time of pongs that arrive after the next ping', async () => {
+      const { client, transport } = await join(pingResponse);
+      jest.advanceTimersByTime(2000);
+      await client.requestQueue.flush();
+      await Promise.resolve();
+      expect(transport.sent.map((req) => req.message?.$case)).toEqual(['ping', 'ping']);
+
+      jest.advanceTimersByTime(40);
+      pong(transport, 0);
+
+      expect(client.stats).toEqual({ rtt: 1040, missedPongs: 0, lastMessageAge: 0 });
+      await client.close();
+    });
+
+    it('tracks the age of the last message', async () => {
+      const { client } = await join(pingResponse);
+
+      jest.advanceTimersByTime(500);
+
+      expect(client.stats.lastMessageAge).toBe(500);
+      await client.close();
+    });
+
+    it('reports a degraded connection when pongs are missed', async () => {
+      const { client, transport } = await join(pingResponse);
+      client.onConnectionDegraded = jest.fn();
+
+      jest.advanceTimersByTime(1000);
+      expect(client.onConnectionDegraded).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1000);
+      expect(client.onConnectionDegraded).toHaveBeenCalledTimes(1);
+      expect(client.onConnectionDegraded).toHaveBeenCalledWith(
+        expect.objectContaining({ missedPongs: 1 }),
+      );
+
+      await client.requestQueue.flush();
+      await Promise.resolve();
+      pong(transport);
+      expect(client.stats.missedPongs).toBe(0);
+      await client.close();
+    });
+
+    it('closes the connection when pongs keep missing', async () => {
+      const { client, transport } = await join(pingResponse);
+      client.onClose = jest.fn();
+
+      jest.advanceTimersByTime(2000);
+      expect(client.onClose).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1000);
+
+      expect(client.onClose).toHaveBeenCalledWith('missed pongs');
+      expect(client.isConnected).toBe(false);
+      expect(transport.isOpen).toBe(false);
+    });
+
+    it('closes the connection when no message arrives before the ping timeout', async () => {
+      const { client, transport } = await join(
+        JoinResponse.fromPartial({ serverVersion: '1.0.0', pingInterval: 5, pingTimeout: 2 }),
+      );
+      client.onClose = jest.fn();
+
+      jest.advanceTimersByTime(1500);
+      transport.onmessage?.({ message: { $case: 'refreshToken', refreshToken: 'new-token' } });
+      jest.advanceTimersByTime(1500);
+      expect(client.onClose).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(500);
+
+      expect(client.onClose).toHaveBeenCalledWith('ping timeout');
+      expect(transport.isOpen).toBe(false);
+    });
+  });
+});
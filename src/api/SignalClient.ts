@@ -30,7 +30,11 @@ import {
   UpdateTrackSettings,
 } from '../proto/livekit_rtc';
 import { ConnectionError, ConnectionErrorReason } from '../room/errors';
+import type { SignalStats } from '../room/types';
 import { getClientInfo, sleep } from '../room/utils';
+import RequestJournal from './RequestJournal';
+import type { SignalTransport, SignalTransportFactory } from './SignalTransport';
+import WebSocketTransport from './WebSocketTransport';
 
 // internal options
 interface ConnectOpts {
@@ -60,6 +64,12 @@ type SignalMessage = SignalRequest['message'];
 
 type SignalKind = NonNullable<SignalMessage>['$case'];
 
+/**
+ * pings in a row that may go unanswered before the connection is considered dead, e.g. a
+ * half-open connection after a network change that would take minutes to be closed
+ */
+const maxMissedPongs = 2;
+
 const passThroughQueueSignals: Array<SignalKind> = [
   'syncState',
   'trickle',
@@ -125,9 +135,17 @@ export class SignalClient {
 
   onLeave?: (leave: LeaveRequest) => void;
 
+  /** called when a ping wasn't answered before the next one was due */
+  onConnectionDegraded?: (stats: SignalStats) => void;
+
   connectOptions?: ConnectOpts;
 
-  ws?: WebSocket;
+  transport?: SignalTransport;
+
+  /** the state requested from the server, restored after a full reconnect */
+  journal: RequestJournal;
+
+  private createTransport: SignalTransportFactory;
 
   private options?: SignalOptions;
 
@@ -139,12 +157,27 @@ export class SignalClient {
 
   private pingInterval: ReturnType<typeof setInterval> | undefined;
 
-  constructor(useJSON: boolean = false) {
+  /** whether the last ping hasn't been answered yet */
+  private pingPending = false;
+
+  private rtt?: number;
+
+  private missedPongs = 0;
+
+  private lastMessageAt?: number;
+
+  /**
+   * @param createTransport creates the transport of every connection attempt, defaults to
+   * a [[WebSocketTransport]]
+   */
+  constructor(useJSON: boolean = false, createTransport?: SignalTransportFactory) {
     this.isConnected = false;
     this.isReconnecting = false;
     this.useJSON = useJSON;
+    this.createTransport = createTransport ?? (() => new WebSocketTransport(useJSON));
     this.requestQueue = new Queue();
     this.queuedRequests = [];
+    this.journal = new RequestJournal();
   }
 
   async join(
@@ -201,65 +234,40 @@ export class SignalClient {
       }
       abortSignal?.addEventListener('abort', abortHandler);
       log.debug(`connecting to ${url + params}`);
-      if (this.ws) {
+      if (this.transport) {
         this.close();
       }
-      this.ws = new WebSocket(url + params);
-      this.ws.binaryType = 'arraybuffer';
-
-      this.ws.onerror = async (ev: Event) => {
-        if (!this.isConnected) {
-          try {
-            const resp = await fetch(`http${url.substring(2)}/validate${params}`);
-            if (!resp.ok) {
-              const msg = await resp.text();
-              reject(new ConnectionError(msg, ConnectionErrorReason.NotAllowed, resp.status));
-            } else {
-              reject(
-                new ConnectionError(
-                  'Internal error',
-                  ConnectionErrorReason.InternalError,
-                  resp.status,
-                ),
-              );
-            }
-          } catch (e) {
+      const transport = this.createTransport();
+      this.transport = transport;
+
+      const rejectWithReason = async () => {
+        try {
+          const resp = await fetch(`http${url.substring(2)}/validate${params}`);
+          if (!resp.ok) {
+            const msg = await resp.text();
+            reject(new ConnectionError(msg, ConnectionErrorReason.NotAllowed, resp.status));
+          } else {
             reject(
               new ConnectionError(
-                'server was not reachable',
-                ConnectionErrorReason.ServerUnreachable,
+                'Internal error',
+                ConnectionErrorReason.InternalError,
+                resp.status,
               ),
             );
           }
-          return;
+        } catch (e) {
+          reject(
+            new ConnectionError(
+              'server was not reachable',
+              ConnectionErrorReason.ServerUnreachable,
+            ),
+          );
         }
-        // other errors, handle
-        this.handleWSError(ev);
       };
 
-      this.ws.onopen = () => {
-        if (opts.reconnect) {
-          // upon reconnection, there will not be additional handshake
-          this.isConnected = true;
-          // restart ping interval as it's cleared for reconnection
-          this.startPingInterval();
-          resolve();
-        }
-      };
-
-      this.ws.onmessage = async (ev: MessageEvent) => {
+      transport.onmessage = async (resp: SignalResponse) => {
+        this.lastMessageAt = Date.now();
         // not considered connected until JoinResponse is received
-        let resp: SignalResponse;
-        if (typeof ev.data === 'string') {
-          const json = JSON.parse(ev.data);
-          resp = SignalResponse.fromJSON(json);
-        } else if (ev.data instanceof ArrayBuffer) {
-          resp = SignalResponse.decode(new Uint8Array(ev.data));
-        } else {
-          log.error(`could not decode websocket message: ${typeof ev.data}`);
-          return;
-        }
-
         if (!this.isConnected) {
           // handle join message only
           if (resp.message?.$case === 'join') {
@@ -292,55 +300,64 @@ export class SignalClient {
           return;
         }
 
+        // any message shows that the connection is alive
+        if (this.pingTimeoutDuration) {
+          this.resetPingTimeout();
+        }
         if (this.signalLatency) {
           await sleep(this.signalLatency);
         }
         this.handleSignalResponse(resp);
       };
 
-      this.ws.onclose = (ev: CloseEvent) => {
-        if (!this.isConnected) return;
+      transport.onclose = (reason: string) => {
+        if (!this.isConnected) {
+          // closed before the join response was received
+          rejectWithReason();
+          return;
+        }
 
-        log.debug(`websocket connection closed: ${ev.reason}`);
+        log.debug(`signal connection closed: ${reason}`);
         this.isConnected = false;
         if (this.onClose) {
-          this.onClose(ev.reason);
+          this.onClose(reason);
         }
-        this.ws = undefined;
+        this.transport = undefined;
       };
+
+      transport.open(url + params).then(
+        () => {
+          if (opts.reconnect) {
+            // upon reconnection, there will not be additional handshake
+            this.isConnected = true;
+            // restart ping interval as it's cleared for reconnection
+            this.startPingInterval();
+            resolve();
+          }
+        },
+        (error) => {
+          log.debug('could not open signal connection', { error });
+          if (!this.isConnected) {
+            rejectWithReason();
+          }
+        },
+      );
     });
   }
 
   async close() {
     this.isConnected = false;
-    if (this.ws) {
-      this.ws.onclose = null;
-      this.ws.onmessage = null;
-      this.ws.onopen = null;
-
-      const emptyBufferPromise = new Promise(async (resolve) => {
-        while (this.ws && this.ws.bufferedAmount > 0) {
-          await sleep(50);
-        }
-        resolve(true);
-      });
-      // 250ms grace period for buffer to be cleared
-      await Promise.race([emptyBufferPromise, sleep(250)]);
-
-      let closeResolver: (args: any) => void;
-      const closePromise = new Promise((resolve) => {
-        closeResolver = resolve;
-      });
-
-      // calling `ws.close()` only starts the closing handshake (CLOSING state), prefer to wait until state is actually CLOSED
-      this.ws.onclose = () => closeResolver(true);
-
-      this.ws.close();
-      // 250ms grace period for ws to close gracefully
-      await Promise.race([closePromise, sleep(250)]);
-    }
-    this.ws = undefined;
     this.clearPingInterval();
+    const { transport } = this;
+    if (transport) {
+      transport.onclose = undefined;
+      transport.onmessage = undefined;
+      await transport.close();
+    }
+    // a new connection might have been started in the meantime
+    if (this.transport === transport) {
+      this.transport = undefined;
+    }
   }
 
   // initial offer after joining
@@ -438,12 +455,35 @@ export class SignalClient {
   }
 
   sendPing() {
+    if (this.pingPending) {
+      this.missedPongs += 1;
+      if (this.missedPongs >= maxMissedPongs) {
+        this.handleDeadConnection('missed pongs');
+        return;
+      }
+      if (this.missedPongs === 1) {
+        log.warn('signal connection degraded, ping was not answered in time');
+        this.onConnectionDegraded?.(this.stats);
+      }
+    }
+    this.pingPending = true;
     this.sendRequest({
       $case: 'ping',
       ping: Date.now(),
     });
   }
 
+  get stats(): SignalStats {
+    const stats: SignalStats = { missedPongs: this.missedPongs };
+    if (this.rtt !== undefined) {
+      stats.rtt = this.rtt;
+    }
+    if (this.lastMessageAt !== undefined) {
+      stats.lastMessageAge = Date.now() - this.lastMessageAt;
+    }
+    return stats;
+  }
+
   async sendLeave() {
     await this.sendRequest({
       $case: 'leave',
@@ -455,6 +495,7 @@ export class SignalClient {
   }
 
   async sendRequest(message: SignalMessage, fromQueue: boolean = false) {
+    const journaled = !fromQueue && !!message && this.journal.record(message);
     // capture all requests while reconnecting and put them in a queue
     // unless the request originates from the queue, then don't enqueue again
     const canQueue = !fromQueue && !canPassThroughQueue(message);
@@ -471,20 +512,17 @@ export class SignalClient {
     if (this.signalLatency) {
       await sleep(this.signalLatency);
     }
-    if (!this.ws || this.ws.readyState < this.ws.OPEN) {
-      log.error(`cannot send signal request before connected, type: ${message?.$case}`);
+    if (!this.transport?.isOpen) {
+      if (journaled) {
+        log.debug(`not connected, keeping ${message?.$case} request in the journal`);
+      } else {
+        log.error(`cannot send signal request before connected, type: ${message?.$case}`);
+      }
       return;
     }
 
-    const req = {
-      message,
-    };
     try {
-      if (this.useJSON) {
-        this.ws.send(JSON.stringify(SignalRequest.toJSON(req)));
-      } else {
-        this.ws.send(SignalRequest.encode(req).finish());
-      }
+      this.transport.send({ message });
     } catch (e) {
       log.error('error sending signal message', { error: e });
     }
@@ -556,7 +594,10 @@ export class SignalClient {
         this.onLocalTrackUnpublished(msg.trackUnpublished);
       }
     } else if (msg.$case === 'pong') {
-      this.resetPingTimeout();
+      // pongs echo the time their ping was sent, a late pong may answer an earlier ping
+      this.rtt = Date.now() - msg.pong;
+      this.pingPending = false;
+      this.missedPongs = 0;
     } else {
       log.debug('unsupported message', msg);
     }
@@ -572,10 +613,6 @@ export class SignalClient {
     this.isReconnecting = false;
   }
 
-  private handleWSError(ev: Event) {
-    log.error('websocket error', ev);
-  }
-
   private resetPingTimeout() {
     this.clearPingTimeout();
     if (!this.pingTimeoutDuration) {
@@ -583,17 +620,25 @@ export class SignalClient {
       return;
     }
     this.pingTimeout = setTimeout(() => {
-      log.warn(
-        `ping timeout triggered. last pong received at: ${new Date(
-          Date.now() - this.pingTimeoutDuration! * 1000,
-        ).toUTCString()}`,
-      );
-      if (this.onClose) {
-        this.onClose('ping timeout');
-      }
+      this.handleDeadConnection('ping timeout');
     }, this.pingTimeoutDuration * 1000);
   }
 
+  /**
+   * closes a connection that stopped responding without being closed, and reports it as
+   * closed so that it's resumed right away
+   */
+  private handleDeadConnection(reason: string) {
+    if (!this.isConnected) {
+      return;
+    }
+    log.warn(`signal connection is not responding: ${reason}`, this.stats);
+    this.close();
+    if (this.onClose) {
+      this.onClose(reason);
+    }
+  }
+
   private clearPingTimeout() {
     if (this.pingTimeout) {
       clearTimeout(this.pingTimeout);
@@ -602,6 +647,8 @@ export class SignalClient {
 
   private startPingInterval() {
     this.clearPingInterval();
+    this.pingPending = false;
+    this.missedPongs = 0;
     this.resetPingTimeout();
     if (!this.pingIntervalDuration) {
       log.warn('ping interval duration not set');
@@ -0,0 +1,35 @@
+import type { SignalRequest, SignalResponse } from '../proto/livekit_rtc';
+
+/**
+ * Carries the messages of the signal connection between [[SignalClient]] and the server.
+ * [[WebSocketTransport]] is used by default, other transports can be plugged in with the
+ * `signalTransport` room option, e.g. an in-memory transport for tests or a bridge to a
+ * native shell. A transport is created for every connection attempt.
+ */
+export interface SignalTransport {
+  /** true while messages can be sent */
+  readonly isOpen: boolean;
+
+  /** called with every message received from the server */
+  onmessage?: (response: SignalResponse) => void;
+
+  /**
+   * called when the server or the network closed the connection, but not when it's closed
+   * with [[close]] or when [[open]] failed
+   */
+  onclose?: (reason: string) => void;
+
+  /**
+   * connects to `url`, the signal URL of the server including the connection parameters
+   * @returns a promise that resolves once the connection is open, or rejects if it couldn't
+   * be opened
+   */
+  open(url: string): Promise<void>;
+
+  send(request: SignalRequest): void;
+
+  /** closes the connection, giving messages that are still being sent a chance to go out */
+  close(): Promise<void>;
+}
+
+export type SignalTransportFactory = () => SignalTransport;
@@ -0,0 +1,115 @@
+import log from '../logger';
+import { SignalRequest, SignalResponse } from '../proto/livekit_rtc';
+import { ConnectionError } from '../room/errors';
+import { sleep } from '../room/utils';
+import type { SignalTransport } from './SignalTransport';
+
+/**
+ * the default [[SignalTransport]], exchanging protobuf encoded messages, or JSON when
+ * `useJSON` is set, over a WebSocket
+ */
+export default class WebSocketTransport implements SignalTransport {
+  onmessage?: (response: SignalResponse) => void;
+
+  onclose?: (reason: string) => void;
+
+  private ws?: WebSocket;
+
+  private useJSON: boolean;
+
+  constructor(useJSON: boolean = false) {
+    this.useJSON = useJSON;
+  }
+
+  get isOpen() {
+    return !!this.ws && this.ws.readyState === this.ws.OPEN;
+  }
+
+  open(url: string) {
+    return new Promise<void>((resolve, reject) => {
+      const ws = new WebSocket(url);
+      ws.binaryType = 'arraybuffer';
+      this.ws = ws;
+      let opened = false;
+
+      ws.onopen = () => {
+        opened = true;
+        resolve();
+      };
+
+      ws.onerror = (ev: Event) => {
+        // errors while connecting are followed by a close event
+        log.error('websocket error', ev);
+      };
+
+      ws.onmessage = (ev: MessageEvent) => {
+        let resp: SignalResponse;
+        if (typeof ev.data === 'string') {
+          const json = JSON.parse(ev.data);
+          resp = SignalResponse.fromJSON(json);
+        } else if (ev.data instanceof ArrayBuffer) {
+          resp = SignalResponse.decode(new Uint8Array(ev.data));
+        } else {
+          log.error(`could not decode websocket message: ${typeof ev.data}`);
+          return;
+        }
+        this.onmessage?.(resp);
+      };
+
+      ws.onclose = (ev: CloseEvent) => {
+        this.ws = undefined;
+        if (!opened) {
+          reject(new ConnectionError(`could not open websocket: ${ev.reason}`));
+          return;
+        }
+        log.debug(`websocket connection closed: ${ev.reason}`);
+        this.onclose?.(ev.reason);
+      };
+    });
+  }
+
+  send(request: SignalRequest) {
+    if (!this.ws) {
+      throw new ConnectionError('websocket is not open');
+    }
+    if (this.useJSON) {
+      this.ws.send(JSON.stringify(SignalRequest.toJSON(request)));
+    } else {
+      this.ws.send(SignalRequest.encode(request).finish());
+    }
+  }
+
+  async close() {
+    const { ws } = this;
+    if (!ws) {
+      return;
+    }
+    ws.onclose = null;
+    ws.onmessage = null;
+    ws.onopen = null;
+
+    const emptyBufferPromise = new Promise(async (resolve) => {
+      while (ws.bufferedAmount > 0) {
+        await sleep(50);
+      }
+      resolve(true);
+    });
+    // 250ms grace period for buffer to be cleared
+    await Promise.race([emptyBufferPromise, sleep(250)]);
+
+    let closeResolver: (args: any) => void;
+    const closePromise = new Promise((resolve) => {
+      closeResolver = resolve;
+    });
+
+    // calling `ws.close()` only starts the closing handshake (CLOSING state), prefer to wait until state is actually CLOSED
+    ws.onclose = () => closeResolver(true);
+
+    ws.close();
+    // 250ms grace period for ws to close gracefully
+    await Promise.race([closePromise, sleep(250)]);
+    if (this.ws === ws) {
+      this.ws = undefined;
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import _m0 from 'protobufjs/minimal';
+import {
+  AddTrackRequestExtension,
+  Encryption_Type,
+  TrackInfoExtension,
+} from '../proto/livekit_client';
+import { TrackInfo } from '../proto/livekit_models';
+import { AddTrackRequest } from '../proto/livekit_rtc';
+
+/**
+ * fields livekit-client reads from and writes to livekit-protocol messages that the protocol
+ * revision the SDK is generated from doesn't have yet. They're declared in livekit_client.proto
+ * with the numbers they have in the messages they extend
+ */
+declare module '../proto/livekit_models' {
+  interface TrackInfo {
+    /** how the publisher encrypts the frames of the track, decoded messages always have it */
+    encryption?: Encryption_Type;
+  }
+}
+
+declare module '../proto/livekit_rtc' {
+  interface AddTrackRequest {
+    /** how the track's frames are encrypted */
+    encryption?: Encryption_Type;
+  }
+}
+
+interface MessageCodec<T> {
+  encode(message: T, writer?: _m0.Writer): _m0.Writer;
+  decode(input: _m0.Reader | Uint8Array, length?: number): T;
+  fromJSON(object: any): T;
+  toJSON(message: T): unknown;
+  fromPartial(object: any): T;
+}
+
+/**
+ * makes the codec of a generated message read and write the fields of its extension as well.
+ * Messages containing it use the same codec object, so the fields are kept when they're nested
+ */
+function extendCodec<T extends Partial<E>, E extends object>(
+  codec: MessageCodec<T>,
+  extension: MessageCodec<E>,
+) {
+  const { encode, decode, fromJSON, toJSON, fromPartial } = codec;
+  Object.assign(codec, {
+    encode(message: T, writer: _m0.Writer = _m0.Writer.create()) {
+      encode(message, writer);
+      return extension.encode(extension.fromPartial(message), writer);
+    },
+    decode(input: _m0.Reader | Uint8Array, length?: number): T {
+      const reader = input instanceof _m0.Reader ? input : new _m0.Reader(input);
+      const start = reader.pos;
+      const message = decode(reader, length);
+      return Object.assign(message, extension.decode(reader.buf.subarray(start, reader.pos)));
+    },
+    fromJSON(object: any): T {
+      return Object.assign(fromJSON(object), extension.fromJSON(object));
+    },
+    toJSON(message: T) {
+      return Object.assign(
+        toJSON(message) as object,
+        extension.toJSON(extension.fromPartial(message)),
+      );
+    },
+    fromPartial(object: any): T {
+      return Object.assign(fromPartial(object), extension.fromPartial(object));
+    },
+  });
+}
+
+extendCodec<TrackInfo, TrackInfoExtension>(TrackInfo, TrackInfoExtension);
+extendCodec<AddTrackRequest, AddTrackRequestExtension>(AddTrackRequest, AddTrackRequestExtension);
+
+export { Encryption_Type };
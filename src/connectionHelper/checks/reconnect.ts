@@ -27,7 +27,7 @@ export class ReconnectCheck extends Checker {
         reconnectResolver(true);
       });
 
-    room.engine.client.ws?.close();
+    room.engine.client.transport?.close();
     const onClose = room.engine.client.onClose;
     if (onClose) {
       onClose('');
@@ -0,0 +1,163 @@
+import { EncryptionErrorReason } from '../room/errors';
+import { KEY_GRACE_PERIOD } from './constants';
+import DataCryptor from './DataCryptor';
+import { stretchPassword } from './keyDerivation';
+import type { DataKeyMaterial } from './DataCryptor';
+
+const payload = new Uint8Array([1, 2, 3, 4, 5]);
+
+function createCryptor(keys: Record<string, DataKeyMaterial>) {
+  return new DataCryptor(
+    (identity, keyIndex) => keys[`${identity}:${keyIndex}`],
+    () => ({ salt: 'RM_test', iterations: 1000 }),
+    () => true,
+  );
+}
+
+describe('DataCryptor', () => {
+  it('leaves data unencrypted without key material', async () => {
+    const cryptor = createCryptor({});
+    expect(await cryptor.encrypt('alice', 0, payload)).toBeUndefined();
+  });
+
+  it.each([
+    ['a password', 'alice-password'],
+    ['a raw key', new Uint8Array(32).fill(3)],
+  ])('encrypts and decrypts with %s', async (_, material) => {
+    const encrypted = await createCryptor({ 'alice:2': material }).encrypt('alice', 2, payload);
+    expect(encrypted).toBeDefined();
+    expect(encrypted![0]).toBe(2);
+
+    const decrypted = await createCryptor({ 'alice:2': material }).decrypt('alice', encrypted!);
+    expect(Array.from(decrypted)).toEqual(Array.from(payload));
+  });
+
+  it('uses a fresh IV for every packet', async () => {
+    const cryptor = createCryptor({ 'alice:0': 'alice-password' });
+    const first = await cryptor.encrypt('alice', 0, payload);
+    const second = await cryptor.encrypt('alice', 0, payload);
+    expect(Array.from(first!)).not.toEqual(Array.from(second!));
+  });
+
+  it('reports missing keys and failed decryption', async () => {
+    const encrypted = await createCryptor({ 'alice:0': 'alice-password' }).encrypt(
+      'alice',
+      0,
+      payload,
+    );
+
+    await expect(createCryptor({}).decrypt('alice', encrypted!)).rejects.toMatchObject({
+      reason: EncryptionErrorReason.MissingKey,
+      participantIdentity: 'alice',
+      keyIndex: 0,
+    });
+    await expect(
+      createCryptor({ 'alice:0': 'wrong-password' }).decrypt('alice', encrypted!),
+    ).rejects.toMatchObject({ reason: EncryptionErrorReason.DecryptionFailed });
+  });
+
+  it('encrypts with a key derived from AES-GCM CryptoKeys', async () => {
+    const aesKey = await crypto.subtle.importKey('raw', new Uint8Array(16), 'AES-GCM', true, [
+      'encrypt',
+      'decrypt',
+    ]);
+    const cryptor = createCryptor({ 'alice:0': aesKey });
+    const encrypted = await cryptor.encrypt('alice', 0, payload);
+
+    expect(Array.from(await cryptor.decrypt('alice', encrypted!))).toEqual(Array.from(payload));
+    // the frame key itself can't decrypt the packet
+    await expect(
+      crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: encrypted!.subarray(2, 14),
+          additionalData: encrypted!.subarray(0, 2),
+        },
+        aesKey,
+        encrypted!.subarray(14),
+      ),
+    ).rejects.toThrow();
+  });
+
+  it('refuses AES-GCM CryptoKeys that cannot be exported', async () => {
+    const aesKey = await crypto.subtle.importKey('raw', new Uint8Array(16), 'AES-GCM', false, [
+      'encrypt',
+      'decrypt',
+    ]);
+    await expect(
+      createCryptor({ 'alice:0': aesKey }).encrypt('alice', 0, payload),
+    ).rejects.toMatchObject({ reason: EncryptionErrorReason.EncryptionFailed });
+  });
+
+  it('refuses keys that data keys cannot be derived from', async () => {
+    const hmacKey = await crypto.subtle.importKey(
+      'raw',
+      new Uint8Array(16),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+    await expect(
+      createCryptor({ 'alice:0': hmacKey }).encrypt('alice', 0, payload),
+    ).rejects.toMatchObject({ reason: EncryptionErrorReason.EncryptionFailed });
+  });
+
+  it('tags packets with the generation of the password', async () => {
+    const first = await createCryptor({ 'alice:0': 'alice-password' }).encrypt('alice', 0, payload);
+    const second = await createCryptor({ 'alice:0': 'alice-password' }).encrypt(
+      'alice',
+      0,
+      payload,
+    );
+    const raw = await createCryptor({ 'alice:0': new Uint8Array(16) }).encrypt('alice', 0, payload);
+
+    expect(first![1]).toBe(second![1]);
+    expect(raw![1]).toBe(0);
+  });
+
+  it('stretches passwords with the stretcher it is given', async () => {
+    const options = { salt: 'RM_test', iterations: 1000 };
+    const stretch = jest.fn(stretchPassword);
+    const cryptor = new DataCryptor(
+      () => 'alice-password',
+      () => options,
+      () => true,
+      stretch,
+    );
+
+    const encrypted = await cryptor.encrypt('alice', 0, payload);
+
+    expect(stretch).toHaveBeenCalledWith('alice-password', options);
+    const decrypted = await createCryptor({ 'alice:0': 'alice-password' }).decrypt(
+      'alice',
+      encrypted!,
+    );
+    expect(Array.from(decrypted)).toEqual(Array.from(payload));
+  });
+
+  describe('password switches', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['queueMicrotask', 'nextTick'] });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('decrypts packets of the previous password during the grace period', async () => {
+      const sent = await createCryptor({ 'alice:0': 'old-password' }).encrypt('alice', 0, payload);
+      const keys: Record<string, DataKeyMaterial> = { 'alice:0': 'old-password' };
+      const receiver = createCryptor(keys);
+      await receiver.decrypt('alice', sent!);
+
+      keys['alice:0'] = 'new-password';
+      const decrypted = await receiver.decrypt('alice', sent!);
+      expect(Array.from(decrypted)).toEqual(Array.from(payload));
+
+      jest.advanceTimersByTime(KEY_GRACE_PERIOD);
+      await expect(receiver.decrypt('alice', sent!)).rejects.toMatchObject({
+        reason: EncryptionErrorReason.DecryptionFailed,
+      });
+    });
+  });
+});
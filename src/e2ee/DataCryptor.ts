@@ -0,0 +1,279 @@
+import { EncryptionError, EncryptionErrorReason } from '../room/errors';
+import { KEY_GRACE_PERIOD } from './constants';
+import { deriveKeyGeneration, deriveRingKeyBitsAt, stretchPassword } from './keyDerivation';
+import type { KeyInfo } from './KeyProvider';
+import type { KeyDerivationOptions } from './types';
+
+/** a participant's e2ee password, or a key supplied by a [[KeyProvider]] */
+export type DataKeyMaterial = string | KeyInfo['key'];
+
+/** stretches a password into the HKDF key its key ring is ratcheted from */
+export type PasswordStretcher = (
+  password: string,
+  options: KeyDerivationOptions,
+) => Promise<CryptoKey>;
+
+const IV_LENGTH = 12;
+
+// encrypted payload: key index (1 byte) | key generation (1 byte) | IV | ciphertext and tag
+const HEADER_LENGTH = 2 + IV_LENGTH;
+
+const DATA_KEY_INFO = new TextEncoder().encode('LiveKit data channel');
+
+interface DataKey {
+  key: CryptoKey;
+  /**
+   * generation of the password's key ring the key belongs to, like frames packets are tagged
+   * with it so receivers can tell the keys of consecutive passwords apart. 0 for keys that
+   * aren't derived from a password
+   */
+  generation: number;
+}
+
+interface DataKeyEntry {
+  material: DataKeyMaterial;
+  options: KeyDerivationOptions;
+  key: Promise<DataKey>;
+}
+
+/**
+ * Encrypts and decrypts data packets with the same key material as the participant's tracks.
+ *
+ * The AES-GCM key for data is derived from that key material with HKDF, so packets don't share
+ * keys and IVs with the frames of a track and can use random IVs. AES-GCM CryptoKeys are
+ * exported to be derived from, non-extractable ones can't be used for data. Passwords are
+ * stretched by `stretch`, which the room hands to its e2ee worker so a password is only
+ * stretched once for frames and data.
+ * @internal
+ */
+export default class DataCryptor {
+  private getKeyMaterial: (identity: string, keyIndex: number) => DataKeyMaterial | undefined;
+
+  private getKeyDerivationOptions: () => KeyDerivationOptions;
+
+  private stretchPassword: PasswordStretcher;
+
+  private isRoomEncrypted: () => boolean;
+
+  /**
+   * derived keys by identity and key index, along with the material and options they were
+   * derived from
+   */
+  private keys: Map<string, DataKeyEntry>;
+
+  /**
+   * keys replaced by new key material, kept for KEY_GRACE_PERIOD so packets the sender
+   * encrypted before switching can still be decrypted
+   */
+  private previousKeys: Map<string, { entry: DataKeyEntry; expiresAt: number }>;
+
+  constructor(
+    getKeyMaterial: (identity: string, keyIndex: number) => DataKeyMaterial | undefined,
+    getKeyDerivationOptions: () => KeyDerivationOptions,
+    isRoomEncrypted: () => boolean,
+    stretch: PasswordStretcher = stretchPassword,
+  ) {
+    this.getKeyMaterial = getKeyMaterial;
+    this.getKeyDerivationOptions = getKeyDerivationOptions;
+    this.isRoomEncrypted = isRoomEncrypted;
+    this.stretchPassword = stretch;
+    this.keys = new Map();
+    this.previousKeys = new Map();
+  }
+
+  /**
+   * whether data of the room is e2e encrypted. It's neither sent nor accepted in plain text
+   * then, participants without key material of their own can't send any
+   */
+  get isEnabled() {
+    return this.isRoomEncrypted();
+  }
+
+  /**
+   * encrypts a payload with the key of `identity` at `keyIndex`,
+   * returns undefined when e2e encryption isn't enabled for the participant
+   */
+  async encrypt(identity: string, keyIndex: number, payload: Uint8Array) {
+    const entry = this.getKey(identity, keyIndex);
+    if (!entry) {
+      return undefined;
+    }
+    const { key, generation } = await entry.key;
+    const header = new Uint8Array(HEADER_LENGTH);
+    header[0] = keyIndex;
+    header[1] = generation;
+    const iv = header.subarray(2);
+    crypto.getRandomValues(iv);
+    const cipherText = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: header.subarray(0, 2) },
+      key,
+      payload,
+    );
+    const encrypted = new Uint8Array(HEADER_LENGTH + cipherText.byteLength);
+    encrypted.set(header);
+    encrypted.set(new Uint8Array(cipherText), HEADER_LENGTH);
+    return encrypted;
+  }
+
+  /**
+   * decrypts a payload sent by `identity`, throws an [[EncryptionError]] if there's no key
+   * for it or the payload can't be authenticated. Keys of the generation the payload is tagged
+   * with are tried first, keys replaced within KEY_GRACE_PERIOD are tried as well
+   */
+  async decrypt(identity: string, payload: Uint8Array): Promise<Uint8Array> {
+    const keyIndex = payload[0];
+    if (payload.byteLength < HEADER_LENGTH) {
+      throw new EncryptionError(
+        EncryptionErrorReason.DecryptionFailed,
+        identity,
+        undefined,
+        keyIndex,
+        'encrypted data packet is too short',
+      );
+    }
+    const entries = [this.getKey(identity, keyIndex), this.getPreviousKey(identity, keyIndex)];
+    if (!entries[0] && !entries[1]) {
+      throw new EncryptionError(
+        EncryptionErrorReason.MissingKey,
+        identity,
+        undefined,
+        keyIndex,
+        `no key to decrypt data of ${identity} with key index ${keyIndex}`,
+      );
+    }
+    const generation = payload[1];
+    const keys: DataKey[] = [];
+    let lastError: unknown;
+    for (const entry of entries) {
+      try {
+        if (entry) {
+          keys.push(await entry.key);
+        }
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    keys.sort((a, b) => Number(b.generation === generation) - Number(a.generation === generation));
+    for (const { key } of keys) {
+      try {
+        const plainText = await crypto.subtle.decrypt(
+          {
+            name: 'AES-GCM',
+            iv: payload.subarray(2, HEADER_LENGTH),
+            additionalData: payload.subarray(0, 2),
+          },
+          key,
+          payload.subarray(HEADER_LENGTH),
+        );
+        return new Uint8Array(plainText);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    if (lastError instanceof EncryptionError) {
+      throw lastError;
+    }
+    throw new EncryptionError(
+      EncryptionErrorReason.DecryptionFailed,
+      identity,
+      undefined,
+      keyIndex,
+      `could not decrypt data of ${identity}: ${lastError}`,
+    );
+  }
+
+  private getKey(identity: string, keyIndex: number) {
+    const material = this.getKeyMaterial(identity, keyIndex);
+    if (material === undefined || material === '') {
+      return undefined;
+    }
+    const options = this.getKeyDerivationOptions();
+    const id = `${identity}:${keyIndex}`;
+    let entry = this.keys.get(id);
+    if (
+      entry?.material !== material ||
+      entry.options.salt !== options.salt ||
+      entry.options.iterations !== options.iterations
+    ) {
+      if (entry) {
+        this.previousKeys.set(id, { entry, expiresAt: Date.now() + KEY_GRACE_PERIOD });
+      }
+      const replacement: DataKeyEntry = {
+        material,
+        options,
+        key: deriveDataKey(identity, keyIndex, material, options, this.stretchPassword),
+      };
+      // failed derivations are not cached so they are reported for every packet
+      replacement.key.catch(() => {
+        if (this.keys.get(id) === replacement) {
+          this.keys.delete(id);
+        }
+      });
+      this.keys.set(id, replacement);
+      entry = replacement;
+    }
+    return entry;
+  }
+
+  private getPreviousKey(identity: string, keyIndex: number) {
+    const id = `${identity}:${keyIndex}`;
+    const previous = this.previousKeys.get(id);
+    if (previous && previous.expiresAt <= Date.now()) {
+      this.previousKeys.delete(id);
+      return undefined;
+    }
+    return previous?.entry;
+  }
+}
+
+async function deriveDataKey(
+  identity: string,
+  keyIndex: number,
+  material: DataKeyMaterial,
+  options: KeyDerivationOptions,
+  stretch: PasswordStretcher,
+): Promise<DataKey> {
+  let baseKey: CryptoKey;
+  let generation = 0;
+  if (typeof material === 'string') {
+    // the same bits the track key ring derives its key at this index from
+    const stretchedPassword = await stretch(material, options);
+    generation = await deriveKeyGeneration(stretchedPassword);
+    const bits = await deriveRingKeyBitsAt(stretchedPassword, keyIndex);
+    baseKey = await crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveBits']);
+  } else if (material instanceof ArrayBuffer || ArrayBuffer.isView(material)) {
+    baseKey = await crypto.subtle.importKey('raw', material, 'HKDF', false, ['deriveBits']);
+  } else if (material.algorithm.name === 'HKDF') {
+    baseKey = material;
+  } else if (material.algorithm.name === 'AES-GCM') {
+    if (!material.extractable) {
+      throw new EncryptionError(
+        EncryptionErrorReason.EncryptionFailed,
+        identity,
+        undefined,
+        keyIndex,
+        'data can only be encrypted with extractable AES-GCM CryptoKeys',
+      );
+    }
+    const bits = await crypto.subtle.exportKey('raw', material);
+    baseKey = await crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveBits']);
+  } else {
+    throw new EncryptionError(
+      EncryptionErrorReason.EncryptionFailed,
+      identity,
+      undefined,
+      keyIndex,
+      'data can only be encrypted with raw keys, HKDF or AES-GCM CryptoKeys',
+    );
+  }
+  const keyBytes = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: DATA_KEY_INFO },
+    baseKey,
+    256,
+  );
+  const key = await crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ]);
+  return { key, generation };
+}
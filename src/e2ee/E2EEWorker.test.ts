@@ -0,0 +1,197 @@
+import log, { LogLevel, setLogLevel } from '../logger';
+import { E2EEWorkerError } from '../room/errors';
+import type { EncodedFrame } from '../room/track/types';
+import { installMockWebRTC } from '../test/MockRTCPeerConnection';
+import E2EEWorker from './E2EEWorker';
+import { E2EE_PROTOCOL_VERSION } from './protocol';
+
+setLogLevel('silent');
+
+function createWorker() {
+  const e2eeWorker = new E2EEWorker();
+  const worker = (e2eeWorker as any).worker;
+  worker.postMessage = jest.fn();
+  const reply = (data: any) => worker.onmessage({ data });
+  const lastRequest = () => worker.postMessage.mock.lastCall[0];
+  return { e2eeWorker, reply, lastRequest };
+}
+
+/** a sender whose encoded streams can only be created once, like in browsers */
+function createSender() {
+  const input = new TransformStream<EncodedFrame, EncodedFrame>();
+  const sent: string[] = [];
+  const writable = new WritableStream<EncodedFrame>({
+    write: (frame) => {
+      sent.push(new TextDecoder().decode(frame.data));
+    },
+  });
+  const createEncodedStreams = jest.fn(() => {
+    if (createEncodedStreams.mock.calls.length > 1) {
+      throw new DOMException('encoded streams already created', 'InvalidStateError');
+    }
+    return { readable: input.readable, writable };
+  });
+  const sender = { track: { kind: 'video' }, createEncodedStreams } as unknown as RTCRtpSender;
+  const writer = input.writable.getWriter();
+  const send = async (text: string) => {
+    await writer.write({ data: new TextEncoder().encode(text).buffer } as EncodedFrame);
+    // let the frame propagate through the pipeline
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  };
+  return { sender, createEncodedStreams, send, sent };
+}
+
+/** the worker's part of a transform, encrypting frames by upper-casing them */
+function runTransform({
+  readable,
+  writable,
+}: {
+  readable: ReadableStream;
+  writable: WritableStream;
+}) {
+  readable
+    .pipeThrough(
+      new TransformStream<EncodedFrame, EncodedFrame>({
+        transform: (frame, controller) => {
+          const text = new TextDecoder().decode(frame.data).toUpperCase();
+          controller.enqueue({ ...frame, data: new TextEncoder().encode(text).buffer });
+        },
+      }),
+    )
+    .pipeTo(writable)
+    .catch(() => {});
+}
+
+describe('E2EEWorker', () => {
+  it('posts versioned requests with a request id', () => {
+    const { e2eeWorker, lastRequest } = createWorker();
+    e2eeWorker.setPassword('alice', 'password');
+    const first = lastRequest();
+    e2eeWorker.setKeyIndex('alice', 1);
+    const second = lastRequest();
+
+    expect(first).toEqual({
+      operation: 'setPassword',
+      participantId: 'alice',
+      password: 'password',
+      version: E2EE_PROTOCOL_VERSION,
+      requestId: expect.any(Number),
+    });
+    expect(second.requestId).not.toBe(first.requestId);
+  });
+
+  it('resolves requests once the worker acknowledges them', async () => {
+    const { e2eeWorker, reply, lastRequest } = createWorker();
+    const keySet = e2eeWorker.setKey('alice', {
+      participantIdentity: 'alice',
+      keyIndex: 0,
+      key: new Uint8Array(16),
+    });
+    const { requestId } = lastRequest();
+    const removed = e2eeWorker.removeKeys('bob');
+
+    const settled = jest.fn();
+    removed.then(settled);
+    reply({ kind: 'ack', requestId });
+    await expect(keySet).resolves.toBeUndefined();
+    expect(settled).not.toHaveBeenCalled();
+  });
+
+  it('resolves requests with the result the worker acknowledges them with', async () => {
+    const { e2eeWorker, reply, lastRequest } = createWorker();
+    const options = { salt: 'RM_test', iterations: 1000 };
+    const stretched = e2eeWorker.stretchPassword('password', options);
+    const request = lastRequest();
+    const key = {} as CryptoKey;
+
+    expect(request).toMatchObject({
+      operation: 'stretchPassword',
+      password: 'password',
+      keyDerivationOptions: options,
+    });
+    reply({ kind: 'ack', requestId: request.requestId, result: key });
+    await expect(stretched).resolves.toBe(key);
+  });
+
+  it('rejects requests the worker failed to handle', async () => {
+    const { e2eeWorker, reply, lastRequest } = createWorker();
+    const passwordSet = e2eeWorker.setPassword('alice', 'password');
+    reply({ kind: 'requestError', requestId: lastRequest().requestId, message: 'failed' });
+
+    await expect(passwordSet).rejects.toBeInstanceOf(E2EEWorkerError);
+    await expect(passwordSet).rejects.toMatchObject({
+      operation: 'setPassword',
+      message: 'failed',
+    });
+  });
+
+  it('rejects pending requests when terminated', async () => {
+    const { e2eeWorker } = createWorker();
+    const passwordSet = e2eeWorker.setPassword('alice', 'password');
+    e2eeWorker.terminate();
+    await expect(passwordSet).rejects.toBeInstanceOf(E2EEWorkerError);
+  });
+
+  it('keeps the log level of the worker in line with the page', () => {
+    const { e2eeWorker, lastRequest } = createWorker();
+    setLogLevel('warn');
+    expect(lastRequest()).toMatchObject({ operation: 'setLogLevel', level: LogLevel.warn });
+
+    e2eeWorker.terminate();
+    const posted = (e2eeWorker as any).worker.postMessage.mock.calls.length;
+    setLogLevel('silent');
+    expect((e2eeWorker as any).worker.postMessage).toHaveBeenCalledTimes(posted);
+  });
+
+  it('logs records of the worker through the page logger', () => {
+    const warn = jest.spyOn(log, 'warn').mockImplementation(() => {});
+    const { reply } = createWorker();
+    reply({ kind: 'log', level: LogLevel.warn, message: 'key missing', context: { keyId: 1 } });
+    expect(warn).toHaveBeenCalledWith('e2ee worker: key missing', { keyId: 1 });
+    warn.mockRestore();
+  });
+
+  describe('transforms', () => {
+    const options = { participantId: 'alice', trackId: 'TR_video' };
+    let uninstall: () => void;
+
+    beforeAll(() => {
+      uninstall = installMockWebRTC();
+    });
+
+    afterAll(() => {
+      uninstall();
+    });
+
+    it('reuses the encoded streams of a sender when attaching to it again', async () => {
+      const { e2eeWorker, lastRequest } = createWorker();
+      const { sender, createEncodedStreams, send, sent } = createSender();
+
+      e2eeWorker.addTransform('encode', sender, options, jest.fn());
+      runTransform(lastRequest());
+      await send('first');
+      e2eeWorker.removeTransform('TR_video');
+      e2eeWorker.addTransform('encode', sender, options, jest.fn());
+      const request = lastRequest();
+      runTransform(request);
+      await send('second');
+
+      expect(createEncodedStreams).toHaveBeenCalledTimes(1);
+      expect(request).toMatchObject({ operation: 'encode', trackId: 'TR_video' });
+      expect(sent).toEqual(['FIRST', 'SECOND']);
+    });
+
+    it('passes frames on unchanged once the transform is removed', async () => {
+      const { e2eeWorker, lastRequest } = createWorker();
+      const { sender, send, sent } = createSender();
+
+      e2eeWorker.addTransform('encode', sender, options, jest.fn());
+      runTransform(lastRequest());
+      e2eeWorker.removeTransform('TR_video');
+      await send('frame');
+
+      expect(lastRequest()).toMatchObject({ operation: 'removeTrack', trackId: 'TR_video' });
+      expect(sent).toEqual(['frame']);
+    });
+  });
+});
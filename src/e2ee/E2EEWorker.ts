@@ -0,0 +1,253 @@
+import log, { getLogLevel, LogLevel, onLogLevelChanged } from '../logger';
+import { E2EEWorkerError } from '../room/errors';
+import FramePipeline from '../room/track/FramePipeline';
+import { Track } from '../room/track/Track';
+// @ts-ignore
+import Worker from 'web-worker:../worker/worker';
+import type { KeyInfo } from './KeyProvider';
+import { E2EE_PROTOCOL_VERSION } from './protocol';
+import type {
+  E2EEWorkerEnvelope,
+  E2EEWorkerOutput,
+  E2EEWorkerRequest,
+  TransformRequest,
+} from './protocol';
+import type { DecryptionFailureOptions, E2EEWorkerMessage, KeyDerivationOptions } from './types';
+
+export type TransformOptions = Omit<TransformRequest, 'operation' | 'readable' | 'writable'>;
+
+/**
+ * Room scoped worker encrypting and decrypting the frames of all tracks. Keys are kept per
+ * participant identity, so each key ring is only derived once no matter how many tracks
+ * use it, and messages of the worker are passed on to the track they are about.
+ *
+ * Every request is acknowledged by the worker, the returned promises resolve once it has been
+ * handled and reject with an [[E2EEWorkerError]] if it failed.
+ * @internal
+ */
+export default class E2EEWorker {
+  private worker: any;
+
+  private trackHandlers: Map<string, (message: E2EEWorkerMessage) => void>;
+
+  /** requests waiting for a response, by request id */
+  private pendingRequests: Map<
+    number,
+    {
+      operation: string;
+      resolve: (result?: CryptoKey) => void;
+      reject: (error: E2EEWorkerError) => void;
+    }
+  >;
+
+  private nextRequestId = 1;
+
+  /** senders and receivers whose frames are routed through the worker, by track id */
+  private attachments: Map<string, RTCRtpSender | RTCRtpReceiver>;
+
+  /** called when a participant's frames are decrypted with the keys of its new password */
+  onKeyChanged?: (participantId: string) => void;
+
+  private removeLogLevelListener: () => void;
+
+  constructor() {
+    this.trackHandlers = new Map();
+    this.pendingRequests = new Map();
+    this.attachments = new Map();
+    this.worker = new Worker();
+    this.worker.onmessage = this.handleMessage;
+    this.setLogLevel(getLogLevel());
+    this.removeLogLevelListener = onLogLevelChanged(this.setLogLevel);
+  }
+
+  private handleMessage = (event: MessageEvent<E2EEWorkerOutput>) => {
+    const { data } = event;
+    if (data.kind === 'ack' || data.kind === 'requestError') {
+      const request = this.pendingRequests.get(data.requestId);
+      if (!request) {
+        log.debug('e2ee response to unknown request', { data });
+        return;
+      }
+      this.pendingRequests.delete(data.requestId);
+      if (data.kind === 'ack') {
+        request.resolve(data.result);
+      } else {
+        request.reject(new E2EEWorkerError(request.operation, data.message));
+      }
+      return;
+    }
+    if (data.kind === 'log') {
+      const method = LogLevel[data.level] as Exclude<keyof typeof LogLevel, 'silent'>;
+      log[method](`e2ee worker: ${data.message}`, data.context);
+      return;
+    }
+    if (data.kind === 'keyChanged') {
+      this.onKeyChanged?.(data.participantId);
+      return;
+    }
+    const handler = this.trackHandlers.get(data.trackId);
+    if (!handler) {
+      log.debug('e2ee message for unknown track', { data });
+      return;
+    }
+    handler(data);
+  };
+
+  /**
+   * wraps a request into the versioned envelope the worker expects, the request id is used
+   * to match the worker's response. The response resolves with the result the worker
+   * acknowledges the request with, if the request has one
+   */
+  private createEnvelope<T = void>(
+    request: E2EEWorkerRequest,
+  ): {
+    envelope: E2EEWorkerEnvelope;
+    response: Promise<T>;
+  } {
+    const requestId = this.nextRequestId;
+    this.nextRequestId += 1;
+    const response = new Promise<T>((resolve, reject) => {
+      this.pendingRequests.set(requestId, {
+        operation: request.operation,
+        resolve: resolve as (result?: CryptoKey) => void,
+        reject,
+      });
+    });
+    // callers that don't wait for the response still get failures logged
+    response.catch((error) => log.warn('e2ee worker request failed', { error }));
+    return { envelope: { ...request, version: E2EE_PROTOCOL_VERSION, requestId }, response };
+  }
+
+  private request<T = void>(request: E2EEWorkerRequest) {
+    const { envelope, response } = this.createEnvelope<T>(request);
+    this.worker.postMessage(envelope);
+    return response;
+  }
+
+  private setLogLevel = (level: LogLevel) => this.request({ operation: 'setLogLevel', level });
+
+  configure(options: DecryptionFailureOptions & { keyDerivationOptions: KeyDerivationOptions }) {
+    return this.request({ operation: 'configure', ...options });
+  }
+
+  /**
+   * resolves once the first key of the password's key ring has been derived
+   */
+  setPassword(participantId: string, password: string) {
+    return this.request({ operation: 'setPassword', participantId, password });
+  }
+
+  /**
+   * stretches a password like the key rings of participants using it do, the worker only
+   * stretches it once for all of them
+   * @returns the HKDF key the password's key ring is ratcheted from
+   */
+  stretchPassword(password: string, keyDerivationOptions: KeyDerivationOptions) {
+    return this.request<CryptoKey>({
+      operation: 'stretchPassword',
+      password,
+      keyDerivationOptions,
+    });
+  }
+
+  /**
+   * resolves once the key has been imported into the participant's key ring
+   */
+  setKey(participantId: string, { keyIndex, key }: KeyInfo) {
+    return this.request({ operation: 'setKey', participantId, keyIndex, key });
+  }
+
+  /**
+   * switches encryption to the key at `keyIndex` of the participant's key ring
+   */
+  setKeyIndex(participantId: string, keyIndex: number) {
+    return this.request({ operation: 'setKeyIndex', participantId, keyIndex });
+  }
+
+  removeKeys(participantId: string) {
+    return this.request({ operation: 'removeKeys', participantId });
+  }
+
+  /**
+   * pipes the frames of a sender (`encode`) or receiver (`decode`) through the worker,
+   * messages about the track are passed to `onMessage`. Without RTCRtpScriptTransform the
+   * frames take a detour through the worker from the sender's or receiver's [[FramePipeline]],
+   * its encoded streams can only be created once and are reused when the transform is attached
+   * again
+   * @returns a promise resolving once the transform is attached in the worker
+   */
+  addTransform(
+    operation: 'encode' | 'decode',
+    senderOrReceiver: RTCRtpSender | RTCRtpReceiver,
+    options: TransformOptions,
+    onMessage: (message: E2EEWorkerMessage) => void,
+  ): Promise<void> {
+    this.trackHandlers.set(options.trackId, onMessage);
+    const { envelope, response } = this.createEnvelope({ operation, ...options });
+    let pipeline = FramePipeline.get(senderOrReceiver);
+    try {
+      if (!pipeline && 'RTCRtpScriptTransform' in window) {
+        // the envelope arrives as the options of the worker's rtctransform event
+        // @ts-expect-error
+        senderOrReceiver.transform = new RTCRtpScriptTransform(this.worker, envelope);
+      } else {
+        pipeline ??= FramePipeline.create(senderOrReceiver, [], {
+          direction: operation === 'encode' ? 'send' : 'receive',
+          participantIdentity: options.participantId,
+          trackSid: options.trackId,
+          kind: (senderOrReceiver.track?.kind as Track.Kind) ?? Track.Kind.Unknown,
+        });
+        if (!pipeline) {
+          throw new TypeError('encoded streams are not supported');
+        }
+        const { readable, writable } = pipeline.attachDetour();
+        this.worker.postMessage({ ...envelope, readable, writable }, [readable, writable]);
+      }
+      this.attachments.set(options.trackId, senderOrReceiver);
+    } catch (error) {
+      log.error('error creating encoded streams or posting message to worker', { error });
+      pipeline?.detachDetour();
+      this.pendingRequests
+        .get(envelope.requestId)
+        ?.reject(new E2EEWorkerError(operation, `could not attach transform: ${error}`));
+      this.pendingRequests.delete(envelope.requestId);
+    }
+    return response;
+  }
+
+  /**
+   * stops piping the frames of a track through the worker, they're passed on unchanged
+   * afterwards
+   */
+  removeTransform(trackId: string) {
+    this.trackHandlers.delete(trackId);
+    const senderOrReceiver = this.attachments.get(trackId);
+    if (senderOrReceiver) {
+      this.detach(senderOrReceiver);
+      this.attachments.delete(trackId);
+    }
+    return this.request({ operation: 'removeTrack', trackId });
+  }
+
+  private detach(senderOrReceiver: RTCRtpSender | RTCRtpReceiver) {
+    const pipeline = FramePipeline.get(senderOrReceiver);
+    if (pipeline) {
+      pipeline.detachDetour();
+    } else {
+      // @ts-expect-error
+      senderOrReceiver.transform = null;
+    }
+  }
+
+  terminate() {
+    this.removeLogLevelListener();
+    this.trackHandlers.clear();
+    this.attachments.forEach((senderOrReceiver) => this.detach(senderOrReceiver));
+    this.attachments.clear();
+    this.worker.terminate();
+    this.pendingRequests.forEach(({ operation, reject }) =>
+      reject(new E2EEWorkerError(operation, 'e2ee worker terminated')),
+    );
+    this.pendingRequests.clear();
+  }
+}
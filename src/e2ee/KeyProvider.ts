@@ -0,0 +1,93 @@
+import { EventEmitter } from 'events';
+import type TypedEmitter from 'typed-emitter';
+import { KeyProviderEvent } from '../room/events';
+import { KEY_RING_SIZE } from './constants';
+
+export interface KeyInfo {
+  /** identity of the participant encrypting with this key */
+  participantIdentity: string;
+
+  /**
+   * index of the key in the participant's key ring, between 0 and 255.
+   * It's sent along with each encrypted frame so receivers know which key to use
+   */
+  keyIndex: number;
+
+  /**
+   * an AES-GCM CryptoKey, or the raw bytes of a 128 or 256 bit AES key.
+   * [[E2EEFrameFormat.SFrame]] derives its keys from raw bytes or an HKDF CryptoKey.
+   * Data packets are encrypted with a key derived from it, which needs AES-GCM CryptoKeys to be
+   * extractable
+   */
+  key: CryptoKey | ArrayBuffer | Uint8Array;
+}
+
+export type KeyProviderCallbacks = {
+  keySet: (info: KeyInfo) => void;
+  keysRemoved: (participantIdentity: string) => void;
+};
+
+/**
+ * A KeyProvider supplies the keys used for end-to-end encryption, per participant and
+ * key index. Pass it in [[RoomOptions.e2eeKeyProvider]] when keys are distributed by
+ * the application instead of being derived from a shared password.
+ *
+ * Local tracks are encrypted with the most recently set key of the local participant,
+ * remote tracks are decrypted with whichever key index the sender used.
+ */
+export interface KeyProvider extends TypedEmitter<KeyProviderCallbacks> {
+  /**
+   * returns all keys currently known for a participant, used to set up encryption of newly
+   * published or subscribed tracks
+   */
+  getKeys(participantIdentity: string): Array<KeyInfo>;
+}
+
+/**
+ * Default [[KeyProvider]] holding keys in memory. Call [[setKey]] whenever the
+ * application receives a new key for a participant.
+ */
+export class BaseKeyProvider
+  extends (EventEmitter as new () => TypedEmitter<KeyProviderCallbacks>)
+  implements KeyProvider
+{
+  private keys: Map<string, Map<number, KeyInfo>>;
+
+  constructor() {
+    super();
+    this.keys = new Map();
+  }
+
+  /**
+   * installs a key for a participant, for the local participant it also becomes the key
+   * new frames are encrypted with
+   */
+  setKey(participantIdentity: string, key: KeyInfo['key'], keyIndex: number = 0) {
+    if (!Number.isInteger(keyIndex) || keyIndex < 0 || keyIndex >= KEY_RING_SIZE) {
+      throw new Error(`keyIndex must be between 0 and ${KEY_RING_SIZE - 1}`);
+    }
+    let participantKeys = this.keys.get(participantIdentity);
+    if (!participantKeys) {
+      participantKeys = new Map();
+      this.keys.set(participantIdentity, participantKeys);
+    }
+    const info: KeyInfo = { participantIdentity, keyIndex, key };
+    // re-insert so that the most recent key is returned last by getKeys
+    participantKeys.delete(keyIndex);
+    participantKeys.set(keyIndex, info);
+    this.emit(KeyProviderEvent.KeySet, info);
+  }
+
+  /**
+   * removes all keys of a participant, their tracks won't be decrypted anymore
+   */
+  removeKeys(participantIdentity: string) {
+    if (this.keys.delete(participantIdentity)) {
+      this.emit(KeyProviderEvent.KeysRemoved, participantIdentity);
+    }
+  }
+
+  getKeys(participantIdentity: string): Array<KeyInfo> {
+    return Array.from(this.keys.get(participantIdentity)?.values() ?? []);
+  }
+}
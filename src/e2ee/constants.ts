@@ -0,0 +1,33 @@
+// We use a single byte for the key identifier in the frame trailer so we can have a
+// circular array of one byte's worth of keys
+export const KEY_RING_SIZE = 256;
+
+// keys of a password's key ring following the current one that are derived ahead of time,
+// the rest is derived when the sender switches to them
+export const KEY_RING_LOOKAHEAD = 2;
+
+// consecutive frames that have to fail decryption before a track is considered undecryptable,
+// roughly half a second of audio or a second of video
+export const UNDECRYPTABLE_THRESHOLD = 30;
+
+// a 20ms Opus frame decoding to silence, a CELT fullband TOC byte followed by two bytes of payload
+export const OPUS_SILENCE_FRAME = new Uint8Array([0xf8, 0xff, 0xfe]);
+
+// number of frames a receiver keeps track of per sender stream to detect replayed frames,
+// frames arriving further out of order than that are dropped
+export const REPLAY_WINDOW_SIZE = 128;
+
+// interval in ms in which the e2ee worker reports how many frames of each track it processed
+export const FRAME_STATS_INTERVAL = 1000;
+
+// PBKDF2 iterations used to stretch e2ee passwords. Password storage calls for more, but every
+// participant has to derive the key when joining, low end devices included
+export const PBKDF2_ITERATIONS = 100000;
+
+// frames carry the generation of the key ring they were encrypted with in 4 bits, receivers
+// tell the rings of consecutive passwords apart by it
+export const KEY_GENERATIONS = 16;
+
+// time in ms the key ring of a participant's previous password is kept after the password
+// changed, frames in flight and senders that switch later can still be decrypted meanwhile
+export const KEY_GRACE_PERIOD = 10000;
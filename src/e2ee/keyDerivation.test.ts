@@ -0,0 +1,56 @@
+import {
+  deriveRingKeyBits,
+  deriveRingKeyBitsAt,
+  ratchetSecret,
+  stretchPassword,
+} from './keyDerivation';
+
+const options = { salt: 'RM_test', iterations: 1000 };
+
+/** the key material the worker derives for the first key of a password's key ring */
+async function deriveFirstKeyBits(password: string, keyDerivationOptions = options) {
+  return deriveRingKeyBits(await stretchPassword(password, keyDerivationOptions));
+}
+
+describe('key derivation', () => {
+  it('derives the same keys for the same password and salt', async () => {
+    const bits = await deriveFirstKeyBits('password');
+    expect(await deriveFirstKeyBits('password')).toEqual(bits);
+    expect(bits.byteLength).toBe(32);
+  });
+
+  it('derives different keys in rooms with a different salt', async () => {
+    const bits = await deriveFirstKeyBits('password');
+    expect(
+      new Uint8Array(await deriveFirstKeyBits('password', { ...options, salt: 'RM_other' })),
+    ).not.toEqual(new Uint8Array(bits));
+  });
+
+  it('derives the keys of data packets like the worker ratchets its key ring', async () => {
+    const secret = await stretchPassword('password', options);
+    const first = new Uint8Array(await deriveRingKeyBits(secret));
+    const second = new Uint8Array(await deriveRingKeyBits(await ratchetSecret(secret)));
+    expect(second).not.toEqual(first);
+    expect(new Uint8Array(await deriveRingKeyBitsAt(secret, 0))).toEqual(first);
+    expect(new Uint8Array(await deriveRingKeyBitsAt(secret, 1))).toEqual(second);
+  });
+
+  it('stretches a password only once per salt and iterations', async () => {
+    const deriveBits = jest.spyOn(crypto.subtle, 'deriveBits');
+    const cachedOptions = { salt: 'RM_cached', iterations: 1000 };
+    const secret = await stretchPassword('cached-password', cachedOptions);
+
+    expect(await stretchPassword('cached-password', { ...cachedOptions })).toBe(secret);
+    expect(
+      await stretchPassword('cached-password', { ...cachedOptions, salt: 'RM_other' }),
+    ).not.toBe(secret);
+    expect(
+      await stretchPassword('cached-password', { ...cachedOptions, iterations: 2000 }),
+    ).not.toBe(secret);
+    const pbkdf2Calls = deriveBits.mock.calls.filter(
+      ([algorithm]) => (algorithm as Algorithm).name === 'PBKDF2',
+    );
+    expect(pbkdf2Calls).toHaveLength(3);
+    deriveBits.mockRestore();
+  });
+});
@@ -0,0 +1,114 @@
+import { KEY_GENERATIONS } from './constants';
+import type { KeyDerivationOptions } from './types';
+
+const encoder = new TextEncoder();
+
+const RATCHET_INFO = encoder.encode('LiveKit ratchet');
+
+const RING_KEY_INFO = encoder.encode('LiveKit key ring');
+
+const KEY_GENERATION_INFO = encoder.encode('LiveKit key generation');
+
+/** number of stretched passwords kept, a room usually shares one or a few passwords */
+const STRETCHED_PASSWORDS_SIZE = 16;
+
+/** stretched passwords by password, salt and iterations, the most recently used last */
+const stretchedPasswords = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Stretches a password into the secret the key ring is ratcheted from. The salt makes
+ * precomputed tables useless and the iterations make guessing weak passwords expensive
+ * for anyone who recorded encrypted media.
+ *
+ * Stretching is slow by design, so the result is shared by all participants using the same
+ * password until STRETCHED_PASSWORDS_SIZE other passwords have been stretched.
+ * @returns an HKDF key
+ */
+export function stretchPassword(password: string, options: KeyDerivationOptions) {
+  const id = JSON.stringify([password, options.salt, options.iterations]);
+  let stretched = stretchedPasswords.get(id);
+  if (stretched) {
+    // moved to the end, so the passwords that aren't used anymore are dropped first
+    stretchedPasswords.delete(id);
+  } else {
+    const derivation = deriveStretchedPassword(password, options);
+    // failed attempts are not kept so the password is stretched again on the next call
+    derivation.catch(() => {
+      if (stretchedPasswords.get(id) === derivation) {
+        stretchedPasswords.delete(id);
+      }
+    });
+    stretched = derivation;
+  }
+  stretchedPasswords.set(id, stretched);
+  if (stretchedPasswords.size > STRETCHED_PASSWORDS_SIZE) {
+    stretchedPasswords.delete(stretchedPasswords.keys().next().value);
+  }
+  return stretched;
+}
+
+async function deriveStretchedPassword(
+  password: string,
+  { salt, iterations }: KeyDerivationOptions,
+) {
+  const passwordKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: encoder.encode(`livekit-e2ee:${salt}`), iterations, hash: 'SHA-256' },
+    passwordKey,
+    256,
+  );
+  return importSecret(bits);
+}
+
+/**
+ * derives the secret of the next key ring slot, earlier secrets can't be recovered from it
+ */
+export async function ratchetSecret(secret: CryptoKey) {
+  return importSecret(await hkdf(secret, RATCHET_INFO));
+}
+
+/**
+ * derives the key material of a key ring slot from its secret
+ */
+export function deriveRingKeyBits(secret: CryptoKey) {
+  return hkdf(secret, RING_KEY_INFO);
+}
+
+/**
+ * derives the key material of the key ring slot at `keyIndex` from a stretched password
+ */
+export async function deriveRingKeyBitsAt(stretchedPassword: CryptoKey, keyIndex: number) {
+  let secret = stretchedPassword;
+  for (let i = 0; i < keyIndex; i++) {
+    secret = await ratchetSecret(secret);
+  }
+  return deriveRingKeyBits(secret);
+}
+
+/**
+ * derives the generation frames encrypted with a password's key ring are tagged with. Senders
+ * and receivers arrive at the same generation without coordinating, consecutive passwords
+ * only share it by chance
+ */
+export async function deriveKeyGeneration(secret: CryptoKey) {
+  const bits = await hkdf(secret, KEY_GENERATION_INFO);
+  return new Uint8Array(bits)[0] % KEY_GENERATIONS;
+}
+
+function importSecret(bits: ArrayBuffer) {
+  return crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveBits']);
+}
+
+function hkdf(secret: CryptoKey, info: Uint8Array) {
+  return crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info },
+    secret,
+    256,
+  );
+}
@@ -0,0 +1,125 @@
+import type { LogLevel } from '../logger';
+import type {
+  DecryptionFailureOptions,
+  E2EEFrameFormat,
+  E2EEWorkerMessage,
+  KeyDerivationOptions,
+  SFrameCipherSuite,
+} from './types';
+
+/**
+ * version of the messages exchanged with the e2ee worker, bumped on incompatible changes.
+ * The worker rejects requests of other versions, e.g. from a cached copy of the library
+ */
+export const E2EE_PROTOCOL_VERSION = 2;
+
+export interface ConfigureRequest extends DecryptionFailureOptions {
+  operation: 'configure';
+  keyDerivationOptions?: KeyDerivationOptions;
+}
+
+export interface SetPasswordRequest {
+  operation: 'setPassword';
+  participantId: string;
+  password: string;
+}
+
+/**
+ * stretches a password with the worker's cache of stretched passwords, so data packets
+ * encrypted on the main thread don't stretch it again
+ */
+export interface StretchPasswordRequest {
+  operation: 'stretchPassword';
+  password: string;
+  keyDerivationOptions: KeyDerivationOptions;
+}
+
+export interface SetKeyRequest {
+  operation: 'setKey';
+  participantId: string;
+  keyIndex: number;
+  key: CryptoKey | ArrayBuffer | Uint8Array;
+}
+
+export interface SetKeyIndexRequest {
+  operation: 'setKeyIndex';
+  participantId: string;
+  keyIndex: number;
+}
+
+export interface RemoveKeysRequest {
+  operation: 'removeKeys';
+  participantId: string;
+}
+
+/**
+ * pipes the frames of a track through the worker, the streams are only part of the request
+ * when encoded streams are used instead of RTCRtpScriptTransform
+ */
+export interface TransformRequest {
+  operation: 'encode' | 'decode';
+  /** identity of the participant whose key ring is used for the track */
+  participantId: string;
+  trackId: string;
+  codec?: string;
+  /** codecs by payload type, for receivers that can get other codecs than the published one */
+  payloadTypes?: Record<number, string>;
+  frameFormat?: E2EEFrameFormat;
+  cipherSuite?: SFrameCipherSuite;
+  readable?: ReadableStream;
+  writable?: WritableStream;
+}
+
+export interface RemoveTrackRequest {
+  operation: 'removeTrack';
+  trackId: string;
+}
+
+/** keeps the worker's log level in line with the page's */
+export interface SetLogLevelRequest {
+  operation: 'setLogLevel';
+  level: LogLevel;
+}
+
+export type E2EEWorkerRequest =
+  | ConfigureRequest
+  | SetPasswordRequest
+  | StretchPasswordRequest
+  | SetKeyRequest
+  | SetKeyIndexRequest
+  | RemoveKeysRequest
+  | TransformRequest
+  | RemoveTrackRequest
+  | SetLogLevelRequest;
+
+/** a request as it's posted to the worker */
+export type E2EEWorkerEnvelope = E2EEWorkerRequest & {
+  version: number;
+  /** echoed in the response, so the main thread can tell which request it belongs to */
+  requestId: number;
+};
+
+/**
+ * posted by the worker once it handled a request, e.g. once a key has been installed
+ * or a transform is attached
+ */
+export interface AckMessage {
+  kind: 'ack';
+  requestId: number;
+  /** the result of requests that have one, the stretched password of a StretchPasswordRequest */
+  result?: CryptoKey;
+}
+
+/**
+ * posted by the worker when a request failed or was of an unsupported version
+ */
+export interface RequestErrorMessage {
+  kind: 'requestError';
+  requestId: number;
+  message: string;
+}
+
+export type E2EEWorkerResponse = AckMessage | RequestErrorMessage;
+
+/** anything the worker posts to the main thread */
+export type E2EEWorkerOutput = E2EEWorkerMessage | E2EEWorkerResponse;
@@ -0,0 +1,156 @@
+import type { LogLevel } from '../logger';
+import type { EncryptionErrorReason } from '../room/errors';
+
+/**
+ * what to do with incoming frames that can't be decrypted
+ */
+export enum DecryptionFailurePolicy {
+  /** drop the frame, the decoder keeps showing the last decrypted frame */
+  Drop = 'drop',
+  /** forward the frame as received, decoders will render corruption or play noise */
+  PassThrough = 'passThrough',
+  /** replace audio frames with silence, video frames are dropped */
+  Replace = 'replace',
+}
+
+export interface DecryptionFailureOptions {
+  decryptionFailurePolicy: DecryptionFailurePolicy;
+  undecryptableThreshold: number;
+}
+
+/**
+ * how passwords are stretched into keys, all participants of a room have to use the same
+ */
+export interface KeyDerivationOptions {
+  salt: string;
+  /** PBKDF2 iterations */
+  iterations: number;
+}
+
+/**
+ * posted by the e2ee worker when a frame couldn't be encrypted or decrypted.
+ * Only the first failure of a track is reported until one of its frames succeeds again
+ */
+export interface EncryptionErrorMessage {
+  kind: 'error';
+  reason: EncryptionErrorReason;
+  participantId: string;
+  trackId: string;
+  keyIndex?: number;
+  message: string;
+}
+
+/**
+ * posted by the e2ee worker when a track starts or stops failing decryption
+ * for more consecutive frames than the configured threshold
+ */
+export interface DecryptionStateMessage {
+  kind: 'decryptionState';
+  trackId: string;
+  undecryptable: boolean;
+}
+
+/**
+ * what happened to the last frame of a track that went through the e2ee worker
+ */
+export enum FrameResult {
+  /** encrypted or decrypted */
+  Processed = 'processed',
+  Failed = 'failed',
+  /** passed on as is as there's no key for it yet */
+  Unencrypted = 'unencrypted',
+  /** not sent as there's no key for it yet, frames of encrypted tracks are never sent in the clear */
+  Dropped = 'dropped',
+}
+
+/**
+ * posted periodically by the e2ee worker for every track that had frames go through it
+ * since the last report, frame counts are totals since the track was added to the worker
+ */
+export interface FrameStatsMessage {
+  kind: 'frameStats';
+  trackId: string;
+  processedFrames: number;
+  failedFrames: number;
+  unencryptedFrames: number;
+  droppedFrames: number;
+  lastFrameResult: FrameResult;
+}
+
+/**
+ * posted by the e2ee worker once it decrypted the first frame of a participant with the key
+ * ring of its new password, the ring of the previous password is no longer needed by then
+ */
+export interface KeyChangedMessage {
+  kind: 'keyChanged';
+  participantId: string;
+  trackId: string;
+}
+
+/**
+ * a log record of the e2ee worker, logged by the main thread so it reaches the page's
+ * log extension
+ */
+export interface LogMessage {
+  kind: 'log';
+  level: LogLevel;
+  message: string;
+  context?: object;
+}
+
+export type E2EEWorkerMessage =
+  | EncryptionErrorMessage
+  | DecryptionStateMessage
+  | FrameStatsMessage
+  | KeyChangedMessage
+  | LogMessage;
+
+/**
+ * whether the frames of a track are encrypted (local tracks) or decrypted (remote tracks)
+ */
+export enum TrackEncryptionState {
+  /** e2ee isn't set up for the track */
+  None = 'none',
+  /**
+   * the track has been handed to the e2ee worker, but it hasn't confirmed encrypting
+   * or decrypting frames yet, e.g. because there's no key yet or the track is unencrypted
+   */
+  Pending = 'pending',
+  /** the e2ee worker reported that the latest frames were encrypted or decrypted */
+  Active = 'active',
+  /** the latest frames couldn't be encrypted or decrypted */
+  Failing = 'failing',
+}
+
+/**
+ * layout of encrypted frames, all participants of a room have to use the same one
+ */
+export enum E2EEFrameFormat {
+  /** ciphertext followed by a trailer with the IV and key index, the layout of livekit's GCM encryption */
+  Trailer = 'trailer',
+  /**
+   * like [[Trailer]], with the generation of the password's key ring in the upper 4 bits of the
+   * IV length byte. Receivers know which password a frame is encrypted with while passwords are
+   * switched, clients that only know [[Trailer]] can't decrypt these frames
+   */
+  GenerationTrailer = 'generationTrailer',
+  /** SFrame header in front of the ciphertext as specified in RFC 9605 */
+  SFrame = 'sframe',
+}
+
+/**
+ * SFrame cipher suites, https://www.rfc-editor.org/rfc/rfc9605.html#section-4.5
+ */
+export enum SFrameCipherSuite {
+  AES_128_CTR_HMAC_SHA256_80 = 0x0001,
+  AES_128_CTR_HMAC_SHA256_64 = 0x0002,
+  AES_128_CTR_HMAC_SHA256_32 = 0x0003,
+  AES_128_GCM_SHA256_128 = 0x0004,
+  AES_256_GCM_SHA512_128 = 0x0005,
+}
+
+export interface FrameFormatOptions {
+  frameFormat: E2EEFrameFormat;
+  /** only used with [[E2EEFrameFormat.SFrame]] */
+  cipherSuite: SFrameCipherSuite;
+}
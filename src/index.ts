@@ -1,5 +1,8 @@
+import type { SignalTransport, SignalTransportFactory } from './api/SignalTransport';
+import WebSocketTransport from './api/WebSocketTransport';
 import { LogLevel, setLogExtension, setLogLevel } from './logger';
 import { DataPacket_Kind, DisconnectReason, VideoQuality } from './proto/livekit_models';
+import { SignalRequest, SignalResponse } from './proto/livekit_rtc';
 import DefaultReconnectPolicy from './room/DefaultReconnectPolicy';
 import LocalParticipant from './room/participant/LocalParticipant';
 import Participant, { ConnectionQuality } from './room/participant/Participant';
@@ -28,6 +31,13 @@ import {
 
 import type { AudioAnalyserOptions } from './room/utils';
 
+export * from './e2ee/KeyProvider';
+export {
+  DecryptionFailurePolicy,
+  E2EEFrameFormat,
+  SFrameCipherSuite,
+  TrackEncryptionState,
+} from './e2ee/types';
 export * from './options';
 export * from './room/errors';
 export * from './room/events';
@@ -35,6 +45,7 @@ export * from './room/track/create';
 export * from './room/track/options';
 export * from './room/track/Track';
 export * from './room/track/types';
+export * from './room/types';
 export * from './version';
 export * from './connectionHelper/ConnectionCheck';
 export {
@@ -71,4 +82,9 @@ export {
   ConnectionQuality,
   ElementInfo,
   DefaultReconnectPolicy,
+  SignalTransport,
+  SignalTransportFactory,
+  WebSocketTransport,
+  SignalRequest,
+  SignalResponse,
 };
@@ -25,8 +25,28 @@ livekitLogger.setLevel(LogLevel.info);
 
 export default livekitLogger as StructuredLogger;
 
+const logLevelListeners = new Set<(level: LogLevel) => void>();
+
 export function setLogLevel(level: LogLevel | LogLevelString) {
   livekitLogger.setLevel(level);
+  logLevelListeners.forEach((listener) => listener(getLogLevel()));
+}
+
+/** @internal */
+export function getLogLevel(): LogLevel {
+  return livekitLogger.getLevel();
+}
+
+/**
+ * calls `listener` whenever the level is changed with [[setLogLevel]]
+ * @returns a function removing the listener
+ * @internal
+ */
+export function onLogLevelChanged(listener: (level: LogLevel) => void) {
+  logLevelListeners.add(listener);
+  return () => {
+    logLevelListeners.delete(listener);
+  };
 }
 
 export type LogExtension = (level: LogLevel, msg: string, context?: object) => void;
@@ -54,3 +74,16 @@ export function setLogExtension(extension: LogExtension) {
   };
   livekitLogger.setLevel(livekitLogger.getLevel()); // Be sure to call setLevel method in order to apply plugin
 }
+
+/**
+ * sends log records to `output` instead of the console, used by the e2ee worker to hand its
+ * records to the main thread
+ * @internal
+ */
+export function setLogOutput(output: LogExtension) {
+  livekitLogger.methodFactory = (methodName) => {
+    const level = LogLevel[methodName as LogLevelString];
+    return (msg, context?: object) => output(level, msg, context);
+  };
+  livekitLogger.setLevel(livekitLogger.getLevel()); // applies the new factory
+}
@@ -1,3 +1,6 @@
+import type { SignalTransportFactory } from './api/SignalTransport';
+import type { KeyProvider } from './e2ee/KeyProvider';
+import type { DecryptionFailurePolicy, E2EEFrameFormat, SFrameCipherSuite } from './e2ee/types';
 import type { ReconnectPolicy } from './room/ReconnectPolicy';
 import type {
   AudioCaptureOptions,
@@ -64,6 +67,12 @@ export interface InternalRoomOptions {
    */
   reconnectPolicy: ReconnectPolicy;
 
+  /**
+   * creates the transport of the signal connection for every connection attempt,
+   * a WebSocket is used when not set
+   */
+  signalTransport?: SignalTransportFactory;
+
   /**
    * @internal
    * experimental flag, introduce a delay before sending signaling messages
@@ -82,6 +91,48 @@ export interface InternalRoomOptions {
    * if none set no encryption will be used
    */
   e2ePassword?: string;
+
+  /**
+   * supplies the keys for e2e encryption when they are managed by the application.
+   * Keys set on the provider are used in addition to keys derived from [[e2ePassword]]
+   */
+  e2eeKeyProvider?: KeyProvider;
+
+  /**
+   * what to do with frames of remote tracks that can't be decrypted, defaults to dropping them
+   */
+  e2eeDecryptionFailurePolicy: DecryptionFailurePolicy;
+
+  /**
+   * number of consecutive frames that have to fail decryption before a remote track is marked
+   * as undecryptable, see [[RemoteTrack.isUndecryptable]]
+   */
+  e2eeUndecryptableThreshold: number;
+
+  /**
+   * layout of encrypted frames. [[E2EEFrameFormat.SFrame]] produces frames as specified in RFC 9605
+   * for interoperability with other SFrame implementations, it has to be used by all
+   * participants of the room. Defaults to [[E2EEFrameFormat.Trailer]], which other livekit
+   * clients understand
+   */
+  e2eeFrameFormat: E2EEFrameFormat;
+
+  /**
+   * cipher suite used with [[E2EEFrameFormat.SFrame]], defaults to AES_128_GCM_SHA256_128
+   */
+  e2eeCipherSuite: SFrameCipherSuite;
+
+  /**
+   * salt used when stretching e2ee passwords into keys, all participants have to use the same.
+   * Defaults to the sid of the room, so the same password results in different keys in every room
+   */
+  e2eeKeySalt?: string;
+
+  /**
+   * PBKDF2 iterations used when stretching e2ee passwords into keys, all participants have
+   * to use the same. Defaults to 100000
+   */
+  e2eeKeyDerivationIterations: number;
 }
 
 /**
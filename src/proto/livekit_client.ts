@@ -0,0 +1,625 @@
+/* eslint-disable */
+import Long from "long";
+import _m0 from "protobufjs/minimal";
+
+export const protobufPackage = "livekit.client";
+
+/**
+ * the payload of a UserPacket that needs more than its bytes to be understood, prefixed with
+ * DATA_ENVELOPE_MAGIC so receivers can tell it from a plain payload
+ */
+export interface DataEnvelope {
+  /** user defined payload, encrypted as `encryption` says */
+  payload: Uint8Array;
+  /** how the payload has been end-to-end encrypted by the sender */
+  encryption: Encryption_Type;
+  value?: { $case: "chunk"; chunk: DataChunk } | { $case: "rpcRequest"; rpcRequest: RpcRequest } | {
+    $case: "rpcResponse";
+    rpcResponse: RpcResponse;
+  };
+}
+
+export interface Encryption {
+}
+
+export enum Encryption_Type {
+  NONE = 0,
+  GCM = 1,
+  CUSTOM = 2,
+  UNRECOGNIZED = -1,
+}
+
+export function encryption_TypeFromJSON(object: any): Encryption_Type {
+  switch (object) {
+    case 0:
+    case "NONE":
+      return Encryption_Type.NONE;
+    case 1:
+    case "GCM":
+      return Encryption_Type.GCM;
+    case 2:
+    case "CUSTOM":
+      return Encryption_Type.CUSTOM;
+    case -1:
+    case "UNRECOGNIZED":
+    default:
+      return Encryption_Type.UNRECOGNIZED;
+  }
+}
+
+export function encryption_TypeToJSON(object: Encryption_Type): string {
+  switch (object) {
+    case Encryption_Type.NONE:
+      return "NONE";
+    case Encryption_Type.GCM:
+      return "GCM";
+    case Encryption_Type.CUSTOM:
+      return "CUSTOM";
+    case Encryption_Type.UNRECOGNIZED:
+    default:
+      return "UNRECOGNIZED";
+  }
+}
+
+/**
+ * how the publisher encrypts the frames of a track, read from the bytes of livekit-protocol's
+ * TrackInfo. Servers that pass it on keep the field number, servers that don't leave it unset
+ */
+export interface TrackInfoExtension {
+  encryption: Encryption_Type;
+}
+
+/**
+ * how the track's frames are encrypted, written to the bytes of livekit-protocol's
+ * AddTrackRequest. Servers that don't know the field ignore it
+ */
+export interface AddTrackRequestExtension {
+  encryption: Encryption_Type;
+}
+
+export interface DataChunk {
+  /** sender defined ID of the message the chunk belongs to */
+  messageId: string;
+  /** position of the chunk's bytes in the message */
+  offset: number;
+  /** size of the whole message in bytes */
+  totalSize: number;
+  /** file name of the message, if any */
+  name: string;
+  /** MIME type of the message, if any */
+  mimeType: string;
+}
+
+export interface RpcRequest {
+  /** caller defined ID, echoed in the response */
+  id: string;
+  /** name of the method to call */
+  method: string;
+}
+
+export interface RpcResponse {
+  /** ID of the request that is answered */
+  requestId: string;
+  /** why the call failed, empty if the payload is the method's result */
+  errorReason: string;
+  errorMessage: string;
+}
+
+function createBaseDataEnvelope(): DataEnvelope {
+  return { payload: new Uint8Array(), encryption: 0, value: undefined };
+}
+
+export const DataEnvelope = {
+  encode(message: DataEnvelope, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.payload.length !== 0) {
+      writer.uint32(10).bytes(message.payload);
+    }
+    if (message.encryption !== 0) {
+      writer.uint32(16).int32(message.encryption);
+    }
+    if (message.value?.$case === "chunk") {
+      DataChunk.encode(message.value.chunk, writer.uint32(26).fork()).ldelim();
+    }
+    if (message.value?.$case === "rpcRequest") {
+      RpcRequest.encode(message.value.rpcRequest, writer.uint32(34).fork()).ldelim();
+    }
+    if (message.value?.$case === "rpcResponse") {
+      RpcResponse.encode(message.value.rpcResponse, writer.uint32(42).fork()).ldelim();
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): DataEnvelope {
+    const reader = input instanceof _m0.Reader ? input : new _m0.Reader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseDataEnvelope();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          message.payload = reader.bytes();
+          break;
+        case 2:
+          message.encryption = reader.int32() as any;
+          break;
+        case 3:
+          message.value = { $case: "chunk", chunk: DataChunk.decode(reader, reader.uint32()) };
+          break;
+        case 4:
+          message.value = { $case: "rpcRequest", rpcRequest: RpcRequest.decode(reader, reader.uint32()) };
+          break;
+        case 5:
+          message.value = { $case: "rpcResponse", rpcResponse: RpcResponse.decode(reader, reader.uint32()) };
+          break;
+        default:
+          reader.skipType(tag & 7);
+          break;
+      }
+    }
+    return message;
+  },
+
+  fromJSON(object: any): DataEnvelope {
+    return {
+      payload: isSet(object.payload) ? bytesFromBase64(object.payload) : new Uint8Array(),
+      encryption: isSet(object.encryption) ? encryption_TypeFromJSON(object.encryption) : 0,
+      value: isSet(object.chunk)
+        ? { $case: "chunk", chunk: DataChunk.fromJSON(object.chunk) }
+        : isSet(object.rpcRequest)
+        ? { $case: "rpcRequest", rpcRequest: RpcRequest.fromJSON(object.rpcRequest) }
+        : isSet(object.rpcResponse)
+        ? { $case: "rpcResponse", rpcResponse: RpcResponse.fromJSON(object.rpcResponse) }
+        : undefined,
+    };
+  },
+
+  toJSON(message: DataEnvelope): unknown {
+    const obj: any = {};
+    message.payload !== undefined &&
+      (obj.payload = base64FromBytes(message.payload !== undefined ? message.payload : new Uint8Array()));
+    message.encryption !== undefined && (obj.encryption = encryption_TypeToJSON(message.encryption));
+    message.value?.$case === "chunk" &&
+      (obj.chunk = message.value?.chunk ? DataChunk.toJSON(message.value?.chunk) : undefined);
+    message.value?.$case === "rpcRequest" &&
+      (obj.rpcRequest = message.value?.rpcRequest ? RpcRequest.toJSON(message.value?.rpcRequest) : undefined);
+    message.value?.$case === "rpcResponse" &&
+      (obj.rpcResponse = message.value?.rpcResponse ? RpcResponse.toJSON(message.value?.rpcResponse) : undefined);
+    return obj;
+  },
+
+  fromPartial<I extends Exact<DeepPartial<DataEnvelope>, I>>(object: I): DataEnvelope {
+    const message = createBaseDataEnvelope();
+    message.payload = object.payload ?? new Uint8Array();
+    message.encryption = object.encryption ?? 0;
+    if (object.value?.$case === "chunk" && object.value?.chunk !== undefined && object.value?.chunk !== null) {
+      message.value = { $case: "chunk", chunk: DataChunk.fromPartial(object.value.chunk) };
+    }
+    if (
+      object.value?.$case === "rpcRequest" &&
+      object.value?.rpcRequest !== undefined &&
+      object.value?.rpcRequest !== null
+    ) {
+      message.value = { $case: "rpcRequest", rpcRequest: RpcRequest.fromPartial(object.value.rpcRequest) };
+    }
+    if (
+      object.value?.$case === "rpcResponse" &&
+      object.value?.rpcResponse !== undefined &&
+      object.value?.rpcResponse !== null
+    ) {
+      message.value = { $case: "rpcResponse", rpcResponse: RpcResponse.fromPartial(object.value.rpcResponse) };
+    }
+    return message;
+  },
+};
+
+function createBaseEncryption(): Encryption {
+  return {};
+}
+
+export const Encryption = {
+  encode(_: Encryption, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): Encryption {
+    const reader = input instanceof _m0.Reader ? input : new _m0.Reader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseEncryption();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        default:
+          reader.skipType(tag & 7);
+          break;
+      }
+    }
+    return message;
+  },
+
+  fromJSON(_: any): Encryption {
+    return {};
+  },
+
+  toJSON(_: Encryption): unknown {
+    const obj: any = {};
+    return obj;
+  },
+
+  fromPartial<I extends Exact<DeepPartial<Encryption>, I>>(_: I): Encryption {
+    const message = createBaseEncryption();
+    return message;
+  },
+};
+
+function createBaseTrackInfoExtension(): TrackInfoExtension {
+  return { encryption: 0 };
+}
+
+export const TrackInfoExtension = {
+  encode(message: TrackInfoExtension, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.encryption !== 0) {
+      writer.uint32(128).int32(message.encryption);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): TrackInfoExtension {
+    const reader = input instanceof _m0.Reader ? input : new _m0.Reader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseTrackInfoExtension();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 16:
+          message.encryption = reader.int32() as any;
+          break;
+        default:
+          reader.skipType(tag & 7);
+          break;
+      }
+    }
+    return message;
+  },
+
+  fromJSON(object: any): TrackInfoExtension {
+    return { encryption: isSet(object.encryption) ? encryption_TypeFromJSON(object.encryption) : 0 };
+  },
+
+  toJSON(message: TrackInfoExtension): unknown {
+    const obj: any = {};
+    message.encryption !== undefined && (obj.encryption = encryption_TypeToJSON(message.encryption));
+    return obj;
+  },
+
+  fromPartial<I extends Exact<DeepPartial<TrackInfoExtension>, I>>(object: I): TrackInfoExtension {
+    const message = createBaseTrackInfoExtension();
+    message.encryption = object.encryption ?? 0;
+    return message;
+  },
+};
+
+function createBaseAddTrackRequestExtension(): AddTrackRequestExtension {
+  return { encryption: 0 };
+}
+
+export const AddTrackRequestExtension = {
+  encode(message: AddTrackRequestExtension, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.encryption !== 0) {
+      writer.uint32(112).int32(message.encryption);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): AddTrackRequestExtension {
+    const reader = input instanceof _m0.Reader ? input : new _m0.Reader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseAddTrackRequestExtension();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 14:
+          message.encryption = reader.int32() as any;
+          break;
+        default:
+          reader.skipType(tag & 7);
+          break;
+      }
+    }
+    return message;
+  },
+
+  fromJSON(object: any): AddTrackRequestExtension {
+    return { encryption: isSet(object.encryption) ? encryption_TypeFromJSON(object.encryption) : 0 };
+  },
+
+  toJSON(message: AddTrackRequestExtension): unknown {
+    const obj: any = {};
+    message.encryption !== undefined && (obj.encryption = encryption_TypeToJSON(message.encryption));
+    return obj;
+  },
+
+  fromPartial<I extends Exact<DeepPartial<AddTrackRequestExtension>, I>>(object: I): AddTrackRequestExtension {
+    const message = createBaseAddTrackRequestExtension();
+    message.encryption = object.encryption ?? 0;
+    return message;
+  },
+};
+
+function createBaseDataChunk(): DataChunk {
+  return { messageId: "", offset: 0, totalSize: 0, name: "", mimeType: "" };
+}
+
+export const DataChunk = {
+  encode(message: DataChunk, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.messageId !== "") {
+      writer.uint32(10).string(message.messageId);
+    }
+    if (message.offset !== 0) {
+      writer.uint32(16).uint64(message.offset);
+    }
+    if (message.totalSize !== 0) {
+      writer.uint32(24).uint64(message.totalSize);
+    }
+    if (message.name !== "") {
+      writer.uint32(34).string(message.name);
+    }
+    if (message.mimeType !== "") {
+      writer.uint32(42).string(message.mimeType);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): DataChunk {
+    const reader = input instanceof _m0.Reader ? input : new _m0.Reader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseDataChunk();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          message.messageId = reader.string();
+          break;
+        case 2:
+          message.offset = longToNumber(reader.uint64() as Long);
+          break;
+        case 3:
+          message.totalSize = longToNumber(reader.uint64() as Long);
+          break;
+        case 4:
+          message.name = reader.string();
+          break;
+        case 5:
+          message.mimeType = reader.string();
+          break;
+        default:
+          reader.skipType(tag & 7);
+          break;
+      }
+    }
+    return message;
+  },
+
+  fromJSON(object: any): DataChunk {
+    return {
+      messageId: isSet(object.messageId) ? String(object.messageId) : "",
+      offset: isSet(object.offset) ? Number(object.offset) : 0,
+      totalSize: isSet(object.totalSize) ? Number(object.totalSize) : 0,
+      name: isSet(object.name) ? String(object.name) : "",
+      mimeType: isSet(object.mimeType) ? String(object.mimeType) : "",
+    };
+  },
+
+  toJSON(message: DataChunk): unknown {
+    const obj: any = {};
+    message.messageId !== undefined && (obj.messageId = message.messageId);
+    message.offset !== undefined && (obj.offset = Math.round(message.offset));
+    message.totalSize !== undefined && (obj.totalSize = Math.round(message.totalSize));
+    message.name !== undefined && (obj.name = message.name);
+    message.mimeType !== undefined && (obj.mimeType = message.mimeType);
+    return obj;
+  },
+
+  fromPartial<I extends Exact<DeepPartial<DataChunk>, I>>(object: I): DataChunk {
+    const message = createBaseDataChunk();
+    message.messageId = object.messageId ?? "";
+    message.offset = object.offset ?? 0;
+    message.totalSize = object.totalSize ?? 0;
+    message.name = object.name ?? "";
+    message.mimeType = object.mimeType ?? "";
+    return message;
+  },
+};
+
+function createBaseRpcRequest(): RpcRequest {
+  return { id: "", method: "" };
+}
+
+export const RpcRequest = {
+  encode(message: RpcRequest, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.id !== "") {
+      writer.uint32(10).string(message.id);
+    }
+    if (message.method !== "") {
+      writer.uint32(18).string(message.method);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): RpcRequest {
+    const reader = input instanceof _m0.Reader ? input : new _m0.Reader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRpcRequest();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          message.id = reader.string();
+          break;
+        case 2:
+          message.method = reader.string();
+          break;
+        default:
+          reader.skipType(tag & 7);
+          break;
+      }
+    }
+    return message;
+  },
+
+  fromJSON(object: any): RpcRequest {
+    return { id: isSet(object.id) ? String(object.id) : "", method: isSet(object.method) ? String(object.method) : "" };
+  },
+
+  toJSON(message: RpcRequest): unknown {
+    const obj: any = {};
+    message.id !== undefined && (obj.id = message.id);
+    message.method !== undefined && (obj.method = message.method);
+    return obj;
+  },
+
+  fromPartial<I extends Exact<DeepPartial<RpcRequest>, I>>(object: I): RpcRequest {
+    const message = createBaseRpcRequest();
+    message.id = object.id ?? "";
+    message.method = object.method ?? "";
+    return message;
+  },
+};
+
+function createBaseRpcResponse(): RpcResponse {
+  return { requestId: "", errorReason: "", errorMessage: "" };
+}
+
+export const RpcResponse = {
+  encode(message: RpcResponse, writer: _m0.Writer = _m0.Writer.create()): _m0.Writer {
+    if (message.requestId !== "") {
+      writer.uint32(10).string(message.requestId);
+    }
+    if (message.errorReason !== "") {
+      writer.uint32(18).string(message.errorReason);
+    }
+    if (message.errorMessage !== "") {
+      writer.uint32(26).string(message.errorMessage);
+    }
+    return writer;
+  },
+
+  decode(input: _m0.Reader | Uint8Array, length?: number): RpcResponse {
+    const reader = input instanceof _m0.Reader ? input : new _m0.Reader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseRpcResponse();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1:
+          message.requestId = reader.string();
+          break;
+        case 2:
+          message.errorReason = reader.string();
+          break;
+        case 3:
+          message.errorMessage = reader.string();
+          break;
+        default:
+          reader.skipType(tag & 7);
+          break;
+      }
+    }
+    return message;
+  },
+
+  fromJSON(object: any): RpcResponse {
+    return {
+      requestId: isSet(object.requestId) ? String(object.requestId) : "",
+      errorReason: isSet(object.errorReason) ? String(object.errorReason) : "",
+      errorMessage: isSet(object.errorMessage) ? String(object.errorMessage) : "",
+    };
+  },
+
+  toJSON(message: RpcResponse): unknown {
+    const obj: any = {};
+    message.requestId !== undefined && (obj.requestId = message.requestId);
+    message.errorReason !== undefined && (obj.errorReason = message.errorReason);
+    message.errorMessage !== undefined && (obj.errorMessage = message.errorMessage);
+    return obj;
+  },
+
+  fromPartial<I extends Exact<DeepPartial<RpcResponse>, I>>(object: I): RpcResponse {
+    const message = createBaseRpcResponse();
+    message.requestId = object.requestId ?? "";
+    message.errorReason = object.errorReason ?? "";
+    message.errorMessage = object.errorMessage ?? "";
+    return message;
+  },
+};
+
+declare var self: any | undefined;
+declare var window: any | undefined;
+declare var global: any | undefined;
+var globalThis: any = (() => {
+  if (typeof globalThis !== "undefined") {
+    return globalThis;
+  }
+  if (typeof self !== "undefined") {
+    return self;
+  }
+  if (typeof window !== "undefined") {
+    return window;
+  }
+  if (typeof global !== "undefined") {
+    return global;
+  }
+  throw "Unable to locate global object";
+})();
+
+function bytesFromBase64(b64: string): Uint8Array {
+  if (globalThis.Buffer) {
+    return Uint8Array.from(globalThis.Buffer.from(b64, "base64"));
+  } else {
+    const bin = globalThis.atob(b64);
+    const arr = new Uint8Array(bin.length);
+    for (let i = 0; i < bin.length; ++i) {
+      arr[i] = bin.charCodeAt(i);
+    }
+    return arr;
+  }
+}
+
+function base64FromBytes(arr: Uint8Array): string {
+  if (globalThis.Buffer) {
+    return globalThis.Buffer.from(arr).toString("base64");
+  } else {
+    const bin: string[] = [];
+    arr.forEach((byte) => {
+      bin.push(String.fromCharCode(byte));
+    });
+    return globalThis.btoa(bin.join(""));
+  }
+}
+
+type Builtin = Date | Function | Uint8Array | string | number | boolean | undefined;
+
+export type DeepPartial<T> = T extends Builtin ? T
+  : T extends Array<infer U> ? Array<DeepPartial<U>> : T extends ReadonlyArray<infer U> ? ReadonlyArray<DeepPartial<U>>
+  : T extends { $case: string } ? { [K in keyof Omit<T, "$case">]?: DeepPartial<T[K]> } & { $case: T["$case"] }
+  : T extends {} ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : Partial<T>;
+
+type KeysOfUnion<T> = T extends T ? keyof T : never;
+export type Exact<P, I extends P> = P extends Builtin ? P
+  : P & { [K in keyof P]: Exact<P[K], I[K]> } & { [K in Exclude<keyof I, KeysOfUnion<P>>]: never };
+
+function longToNumber(long: Long): number {
+  if (long.gt(Number.MAX_SAFE_INTEGER)) {
+    throw new globalThis.Error("Value is larger than Number.MAX_SAFE_INTEGER");
+  }
+  return long.toNumber();
+}
+
+if (_m0.util.Long !== Long) {
+  _m0.util.Long = Long as any;
+  _m0.configure();
+}
+
+function isSet(value: any): boolean {
+  return value !== null && value !== undefined;
+}
@@ -46,6 +46,8 @@ import {
 
 const lossyDataChannel = '_lossy';
 const reliableDataChannel = '_reliable';
+// large transfers wait for the reliable channel to drain below this before sending more
+const reliableBufferedAmountLow = 64 * 1024;
 const minReconnectWait = 2 * 1000;
 const leaveReconnect = 'leave-reconnect';
 
@@ -132,7 +134,7 @@ export default class RTCEngine extends (EventEmitter as new () => TypedEventEmit
 
   constructor(private options: InternalRoomOptions) {
     super();
-    this.client = new SignalClient();
+    this.client = new SignalClient(false, this.options.signalTransport);
     this.client.signalLatency = this.options.expSignalLatency;
     this.reconnectPolicy = this.options.reconnectPolicy;
     this.registerOnLineListener();
@@ -470,6 +472,7 @@ export default class RTCEngine extends (EventEmitter as new () => TypedEventEmit
     this.reliableDC = this.publisher.pc.createDataChannel(reliableDataChannel, {
       ordered: true,
     });
+    this.reliableDC.bufferedAmountLowThreshold = reliableBufferedAmountLow;
 
     // also handle messages over the pub channel, for backwards compatibility
     this.lossyDC.onmessage = this.handleDataMessage;
@@ -918,6 +921,32 @@ export default class RTCEngine extends (EventEmitter as new () => TypedEventEmit
     }
   }
 
+  /**
+   * resolves once the data channel has sent enough of its buffered packets to take more,
+   * so large transfers don't pile up in memory
+   * @internal
+   */
+  async waitForBufferedAmountLow(kind: DataPacket_Kind) {
+    await this.ensurePublisherConnected(kind);
+
+    const channel = this.dataChannelForKind(kind);
+    if (!channel || channel.bufferedAmount <= channel.bufferedAmountLowThreshold) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const onLow = () => {
+        channel.removeEventListener('close', onClose);
+        resolve();
+      };
+      const onClose = () => {
+        channel.removeEventListener('bufferedamountlow', onLow);
+        reject(new ConnectionError('data channel closed while sending'));
+      };
+      channel.addEventListener('bufferedamountlow', onLow, { once: true });
+      channel.addEventListener('close', onClose, { once: true });
+    });
+  }
+
   private async ensurePublisherConnected(kind: DataPacket_Kind) {
     if (!this.subscriberPrimary) {
       return;
@@ -0,0 +1,485 @@
+import { Encryption_Type } from '../api/protocolExtensions';
+import { setLogLevel } from '../logger';
+import {
+  DataPacket_Kind,
+  DisconnectReason,
+  TrackSource,
+  TrackType,
+  UserPacket,
+  VideoQuality,
+} from '../proto/livekit_models';
+import { installMockWebRTC, MockCapturedMediaStreamTrack } from '../test/MockRTCPeerConnection';
+import MockSFU from '../test/MockSFU';
+import { EncryptionErrorReason, RpcErrorReason } from './errors';
+import { EngineEvent, RoomEvent } from './events';
+import type RemoteParticipant from './participant/RemoteParticipant';
+import Room, { ConnectionState } from './Room';
+import LocalAudioTrack from './track/LocalAudioTrack';
+import type RemoteTrack from './track/RemoteTrack';
+import { Track } from './track/Track';
+
+setLogLevel('silent');
+
+const url = 'wss://mock.livekit.io';
+
+function nextEvent<E extends RoomEvent>(room: Room, event: E) {
+  return new Promise<any[]>((resolve) => {
+    room.once(event, (...args: any[]) => resolve(args));
+  });
+}
+
+/** settles pending promises and I/O, `setImmediate` isn't faked */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * runs fake timers one at a time until `promise` settles. Pending promises and I/O are settled
+ * after every timer, like between the macrotasks of real timers
+ */
+async function advanceUntil<T>(promise: Promise<T>, limit = 60_000) {
+  let settled = false;
+  promise.then(
+    () => {
+      settled = true;
+    },
+    () => {
+      settled = true;
+    },
+  );
+  const deadline = Date.now() + limit;
+  await settle();
+  while (!settled) {
+    if (jest.getTimerCount() === 0 || Date.now() > deadline) {
+      throw new Error(`promise did not settle within ${limit}ms`);
+    }
+    jest.advanceTimersToNextTimer();
+    await settle();
+  }
+  return promise;
+}
+
+describe('Room', () => {
+  let uninstall: () => void;
+  let sfu: MockSFU;
+  let rooms: Room[];
+
+  async function connect(identity: string) {
+    const room = new Room({ signalTransport: sfu.signalTransport });
+    rooms.push(room);
+    await room.connect(url, identity);
+    return room;
+  }
+
+  beforeAll(() => {
+    uninstall = installMockWebRTC();
+  });
+
+  afterAll(() => {
+    uninstall();
+  });
+
+  beforeEach(() => {
+    sfu = new MockSFU({ name: 'lobby' });
+    rooms = [];
+  });
+
+  afterEach(async () => {
+    // timers that are still pending when a test with fake timers ends are dropped
+    jest.useRealTimers();
+    await Promise.all(rooms.map((room) => room.disconnect()));
+  });
+
+  it('connects and lists the participants already in the room', async () => {
+    const bob = sfu.addParticipant('bob', { name: 'Bob' });
+
+    const room = await connect('alice');
+
+    expect(room.state).toBe(ConnectionState.Connected);
+    expect(room.name).toBe('lobby');
+    expect(room.localParticipant.identity).toBe('alice');
+    expect(room.localParticipant.sid).toBe(sfu.participant('alice')?.sid);
+    expect(room.participants.get(bob.sid)?.name).toBe('Bob');
+  });
+
+  it('emits participants joining and leaving', async () => {
+    const room = await connect('alice');
+
+    const connected = nextEvent(room, RoomEvent.ParticipantConnected);
+    sfu.addParticipant('bob');
+    const [bob] = (await connected) as [RemoteParticipant];
+    expect(bob.identity).toBe('bob');
+
+    const disconnected = nextEvent(room, RoomEvent.ParticipantDisconnected);
+    sfu.removeParticipant('bob');
+    expect(await disconnected).toEqual([bob]);
+    expect(room.participants.size).toBe(0);
+  });
+
+  it('sees other rooms connected to the same server', async () => {
+    const room = await connect('alice');
+    const connected = nextEvent(room, RoomEvent.ParticipantConnected);
+
+    const other = await connect('bob');
+
+    const [bob] = (await connected) as [RemoteParticipant];
+    expect(bob.sid).toBe(other.localParticipant.sid);
+  });
+
+  it('subscribes to published tracks', async () => {
+    sfu.addParticipant('bob');
+    const room = await connect('alice');
+
+    const published = nextEvent(room, RoomEvent.TrackPublished);
+    const subscribed = nextEvent(room, RoomEvent.TrackSubscribed);
+    const trackInfo = sfu.publishTrack('bob', {
+      type: TrackType.AUDIO,
+      source: TrackSource.MICROPHONE,
+      name: 'mic',
+    });
+
+    const [publication] = await published;
+    expect(publication.trackSid).toBe(trackInfo.sid);
+    const [track, , participant] = await subscribed;
+    expect(track.kind).toBe(Track.Kind.Audio);
+    expect(track.source).toBe(Track.Source.Microphone);
+    expect(participant.identity).toBe('bob');
+
+    const unsubscribed = nextEvent(room, RoomEvent.TrackUnpublished);
+    sfu.unpublishTrack('bob', trackInfo.sid);
+    await unsubscribed;
+    expect(participant.tracks.size).toBe(0);
+  });
+
+  it('updates the active speakers', async () => {
+    sfu.addParticipant('bob');
+    const room = await connect('alice');
+
+    const changed = nextEvent(room, RoomEvent.ActiveSpeakersChanged);
+    sfu.updateSpeakers([{ identity: 'bob', level: 0.5 }]);
+
+    const [speakers] = await changed;
+    expect(speakers.map((p: RemoteParticipant) => p.identity)).toEqual(['bob']);
+    expect(speakers[0].isSpeaking).toBe(true);
+  });
+
+  it('signals password updates once the remote participants switched', async () => {
+    sfu.addParticipant('bob');
+    const room = new Room({ signalTransport: sfu.signalTransport, e2ePassword: 'first' });
+    rooms.push(room);
+    await room.connect(url, 'alice');
+    const updated = jest.fn();
+    room.on(RoomEvent.E2EEPasswordUpdated, updated);
+
+    // bob's tracks aren't decrypted before they are subscribed, there's nothing to switch
+    // the mock worker never acknowledges the keys, the updates fail once the room disconnects
+    room.updatePassword('second').catch(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(updated).not.toHaveBeenCalled();
+
+    const subscribed = nextEvent(room, RoomEvent.TrackSubscribed);
+    sfu.publishTrack('bob', { type: TrackType.AUDIO, encryption: Encryption_Type.GCM });
+    await subscribed;
+    room.updatePassword('third').catch(() => {});
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(updated).not.toHaveBeenCalled();
+
+    // the worker reports that bob's frames are decrypted with the keys of the new password
+    (room as any).e2eeWorker.onKeyChanged('bob');
+    expect(updated).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares one e2ee worker between all tracks of the room', async () => {
+    sfu.addParticipant('bob');
+    const room = new Room({ signalTransport: sfu.signalTransport, e2ePassword: 'secret' });
+    rooms.push(room);
+    await room.connect(url, 'alice');
+
+    const subscribed: RemoteTrack[] = [];
+    const bothSubscribed = new Promise<void>((resolve) => {
+      room.on(RoomEvent.TrackSubscribed, (track) => {
+        subscribed.push(track);
+        if (subscribed.length === 2) {
+          resolve();
+        }
+      });
+    });
+    sfu.publishTrack('bob', { type: TrackType.AUDIO, encryption: Encryption_Type.GCM });
+    sfu.publishTrack('bob', { type: TrackType.VIDEO, encryption: Encryption_Type.GCM });
+    await bothSubscribed;
+
+    const worker = (room as any).e2eeWorker;
+    expect(worker).toBeDefined();
+    expect((room.localParticipant as any).e2eeWorker).toBe(worker);
+    subscribed.forEach((track) => expect(track.e2eeWorker).toBe(worker));
+  });
+
+  it('terminates the e2ee worker when disconnecting', async () => {
+    sfu.addParticipant('bob');
+    const room = new Room({ signalTransport: sfu.signalTransport, e2ePassword: 'secret' });
+    rooms.push(room);
+    await room.connect(url, 'alice');
+    const subscribed = nextEvent(room, RoomEvent.TrackSubscribed);
+    sfu.publishTrack('bob', { type: TrackType.AUDIO, encryption: Encryption_Type.GCM });
+    const [track] = (await subscribed) as [RemoteTrack];
+    const terminate = jest.spyOn((room as any).e2eeWorker, 'terminate');
+
+    await room.disconnect();
+
+    expect(terminate).toHaveBeenCalledTimes(1);
+    expect((room as any).e2eeWorker).toBeUndefined();
+    expect((room.localParticipant as any).e2eeWorker).toBeUndefined();
+    expect(track.e2eeWorker).toBeUndefined();
+  });
+
+  it('keeps receiving data after a listener threw', async () => {
+    const bob = sfu.addParticipant('bob');
+    const room = await connect('alice');
+    const received: string[] = [];
+    room.on(RoomEvent.DataReceived, (payload) => {
+      const text = new TextDecoder().decode(payload);
+      received.push(text);
+      if (text === 'first') {
+        throw new Error('listener failed');
+      }
+    });
+
+    const second = nextEvent(room, RoomEvent.DataReceived);
+    ['first', 'second'].forEach((text) => {
+      room.engine.emit(
+        EngineEvent.DataPacketReceived,
+        UserPacket.fromPartial({
+          participantSid: bob.sid,
+          payload: new TextEncoder().encode(text),
+        }),
+        DataPacket_Kind.RELIABLE,
+      );
+    });
+    await second;
+
+    expect(received).toEqual(['first', 'second']);
+  });
+
+  it('drops unencrypted data packets while e2ee is enabled', async () => {
+    const bob = sfu.addParticipant('bob');
+    const room = new Room({ signalTransport: sfu.signalTransport, e2ePassword: 'secret' });
+    rooms.push(room);
+    await room.connect(url, 'alice');
+    const received = jest.fn();
+    room.on(RoomEvent.DataReceived, received);
+
+    const failed = nextEvent(room, RoomEvent.EncryptionError);
+    room.engine.emit(
+      EngineEvent.DataPacketReceived,
+      UserPacket.fromPartial({ participantSid: bob.sid, payload: new Uint8Array([1]) }),
+      DataPacket_Kind.RELIABLE,
+    );
+
+    const [error, , participant] = await failed;
+    expect(error.reason).toBe(EncryptionErrorReason.Unencrypted);
+    expect(participant?.identity).toBe('bob');
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it('neither sends nor accepts plain data while only some participants have passwords', async () => {
+    const bob = sfu.addParticipant('bob');
+    const room = await connect('alice');
+    // the mock worker never acknowledges the keys, the update fails once the room disconnects
+    room.setParticipantPassword('bob', 'secret').catch(() => {});
+
+    await expect(
+      room.localParticipant.publishData(new Uint8Array([1]), DataPacket_Kind.RELIABLE),
+    ).rejects.toMatchObject({ reason: EncryptionErrorReason.MissingKey });
+
+    const failed = nextEvent(room, RoomEvent.EncryptionError);
+    room.engine.emit(
+      EngineEvent.DataPacketReceived,
+      UserPacket.fromPartial({ participantSid: bob.sid, payload: new Uint8Array([1]) }),
+      DataPacket_Kind.RELIABLE,
+    );
+    const [error] = await failed;
+    expect(error.reason).toBe(EncryptionErrorReason.Unencrypted);
+  });
+
+  it('disconnects when the server asks it to leave', async () => {
+    const room = await connect('alice');
+
+    const disconnected = nextEvent(room, RoomEvent.Disconnected);
+    sfu.removeParticipant('alice');
+
+    expect(await disconnected).toEqual([DisconnectReason.PARTICIPANT_REMOVED]);
+    expect(room.state).toBe(ConnectionState.Disconnected);
+  });
+
+  it('rejoins with the refreshed token', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    const room = await advanceUntil(connect('alice'));
+    const { sid } = room.localParticipant;
+    sfu.refreshToken('alice', 'refreshed-token');
+
+    const reconnected = nextEvent(room, RoomEvent.Reconnected);
+    sfu.sendLeave('alice', { canReconnect: true });
+    await advanceUntil(reconnected);
+
+    expect(room.localParticipant.identity).toBe('alice');
+    expect(room.localParticipant.sid).not.toBe(sid);
+    expect(room.localParticipant.sid).toBe(sfu.participant('alice')?.sid);
+  });
+
+  it('forgets the requests for tracks that were unpublished', async () => {
+    sfu.addParticipant('bob');
+    const mic = sfu.publishTrack('bob', { type: TrackType.AUDIO, name: 'mic' });
+    const camera = sfu.publishTrack('bob', { type: TrackType.VIDEO, name: 'camera' });
+    const room = await connect('alice');
+    const bob = room.getParticipantByIdentity('bob') as RemoteParticipant;
+    bob.tracks.get(mic.sid)?.setSubscribed(false);
+    bob.tracks.get(camera.sid)?.setSubscribed(false);
+    const journaledSids = () =>
+      room.engine.client.journal
+        .replay()
+        .flatMap((message) =>
+          message.$case === 'subscription' ? message.subscription.trackSids : [],
+        );
+
+    const unpublished = nextEvent(room, RoomEvent.TrackUnpublished);
+    sfu.unpublishTrack('bob', mic.sid);
+    await unpublished;
+    expect(journaledSids()).toEqual([camera.sid]);
+
+    const disconnected = nextEvent(room, RoomEvent.ParticipantDisconnected);
+    sfu.removeParticipant('bob');
+    await disconnected;
+    expect(journaledSids()).toEqual([]);
+  });
+
+  it('restores subscriptions and track settings after a full reconnect', async () => {
+    sfu.addParticipant('bob');
+    const mic = sfu.publishTrack('bob', { type: TrackType.AUDIO, name: 'mic' });
+    const camera = sfu.publishTrack('bob', { type: TrackType.VIDEO, name: 'camera' });
+    // tracks arriving before the participant info after the restart are retried with a timer
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    const room = await advanceUntil(connect('alice'));
+    const bob = room.getParticipantByIdentity('bob') as RemoteParticipant;
+    const unsubscribed = nextEvent(room, RoomEvent.TrackUnsubscribed);
+    bob.tracks.get(mic.sid)?.setSubscribed(false);
+    bob.tracks.get(camera.sid)?.setVideoQuality(VideoQuality.LOW);
+    await advanceUntil(unsubscribed);
+
+    const reconnected = nextEvent(room, RoomEvent.Reconnected);
+    const resubscribed = new Promise<void>((resolve) => {
+      room.on(RoomEvent.TrackSubscribed, (track) => track.sid === camera.sid && resolve());
+    });
+    sfu.sendLeave('alice', { canReconnect: true });
+    await advanceUntil(reconnected);
+    const replayed = sfu.requests.length;
+    await advanceUntil(resubscribed);
+
+    const requests = sfu.requests.slice(replayed).map(({ request }) => request.message);
+    expect(requests).toContainEqual(
+      expect.objectContaining({
+        $case: 'subscription',
+        subscription: expect.objectContaining({ trackSids: [mic.sid], subscribe: false }),
+      }),
+    );
+    expect(requests).toContainEqual(
+      expect.objectContaining({
+        $case: 'trackSetting',
+        trackSetting: expect.objectContaining({
+          trackSids: [camera.sid],
+          quality: VideoQuality.LOW,
+        }),
+      }),
+    );
+    const restored = room.participants.get(bob.sid)!;
+    expect(restored.tracks.get(mic.sid)?.isDesired).toBe(false);
+    expect(restored.tracks.get(camera.sid)?.videoQuality).toBe(VideoQuality.LOW);
+  });
+
+  it('keeps local tracks muted after a full reconnect', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    const room = await advanceUntil(connect('alice'));
+    const mic = new LocalAudioTrack(
+      new MockCapturedMediaStreamTrack('audio') as unknown as MediaStreamTrack,
+    );
+    const published = await advanceUntil(room.localParticipant.publishTrack(mic));
+    room.localParticipant.setTrackSubscriptionPermissions(false, [
+      { participantIdentity: 'bob', allowedTrackSids: [published.trackSid] },
+    ]);
+    await advanceUntil(mic.mute());
+
+    const reconnected = nextEvent(room, RoomEvent.Reconnected);
+    const republished = nextEvent(room, RoomEvent.LocalTrackPublished);
+    sfu.sendLeave('alice', { canReconnect: true });
+    await advanceUntil(reconnected);
+    const [publication] = await advanceUntil(republished);
+    // the permissions are sent once the tracks are republished
+    await advanceUntil(new Promise((resolve) => setTimeout(resolve, 0)));
+
+    expect(publication.track).toBe(mic);
+    expect(publication.isMuted).toBe(true);
+    expect(sfu.participant('alice')?.tracks).toEqual([
+      expect.objectContaining({ sid: publication.trackSid, muted: true }),
+    ]);
+    const permissions = sfu.requests
+      .map(({ request }) => request.message)
+      .filter((message) => message?.$case === 'subscriptionPermission');
+    expect(permissions[permissions.length - 1]).toEqual({
+      $case: 'subscriptionPermission',
+      subscriptionPermission: expect.objectContaining({
+        trackPermissions: [expect.objectContaining({ trackSids: [publication.trackSid] })],
+      }),
+    });
+  });
+
+  it('keeps rpc calls waiting for participants that are still there after a full reconnect', async () => {
+    sfu.addParticipant('bob');
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    const room = await advanceUntil(connect('alice'));
+    const call = room.localParticipant.performRpc('bob', 'greet', 'hello', 60_000);
+    const rejected = jest.fn();
+    call.catch(rejected);
+    await settle();
+
+    const reconnected = nextEvent(room, RoomEvent.Reconnected);
+    sfu.sendLeave('alice', { canReconnect: true });
+    await advanceUntil(reconnected);
+    expect(rejected).not.toHaveBeenCalled();
+
+    const left = nextEvent(room, RoomEvent.ParticipantDisconnected);
+    sfu.removeParticipant('bob');
+    await advanceUntil(left);
+    expect(rejected).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: RpcErrorReason.RecipientDisconnected }),
+    );
+  });
+
+  it('resumes the session when the signal connection drops', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    const room = await advanceUntil(connect('alice'));
+    const { sid } = room.localParticipant;
+
+    const reconnecting = nextEvent(room, RoomEvent.Reconnecting);
+    const reconnected = nextEvent(room, RoomEvent.Reconnected);
+    sfu.dropConnection('alice');
+
+    await advanceUntil(reconnecting);
+    await advanceUntil(reconnected);
+    expect(room.localParticipant.sid).toBe(sid);
+    expect(sfu.isConnected('alice')).toBe(true);
+  });
+
+  it('resumes the session when the signal connection stops responding', async () => {
+    sfu.joinResponse = { pingInterval: 1, pingTimeout: 20 };
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    const room = await advanceUntil(connect('alice'));
+    const { sid } = room.localParticipant;
+
+    const degraded = nextEvent(room, RoomEvent.SignalConnectionDegraded);
+    const reconnected = nextEvent(room, RoomEvent.Reconnected);
+    sfu.stallConnection('alice');
+
+    const [stats] = await advanceUntil(degraded);
+    expect(stats.missedPongs).toBe(1);
+    await advanceUntil(reconnected);
+    expect(room.localParticipant.sid).toBe(sid);
+    expect(sfu.isConnected('alice')).toBe(true);
+  });
+});
@@ -1,6 +1,15 @@
 import { EventEmitter } from 'events';
 import type TypedEmitter from 'typed-emitter';
+import { Encryption_Type } from '../api/protocolExtensions';
 import { toProtoSessionDescription } from '../api/SignalClient';
+import { KEY_GRACE_PERIOD } from '../e2ee/constants';
+import DataCryptor from '../e2ee/DataCryptor';
+import type { DataKeyMaterial } from '../e2ee/DataCryptor';
+import E2EEWorker from '../e2ee/E2EEWorker';
+import type { KeyInfo } from '../e2ee/KeyProvider';
+import { stretchPassword } from '../e2ee/keyDerivation';
+import { TrackEncryptionState } from '../e2ee/types';
+import type { KeyDerivationOptions } from '../e2ee/types';
 import log from '../logger';
 import type {
   InternalRoomConnectOptions,
@@ -8,6 +17,7 @@ import type {
   RoomConnectOptions,
   RoomOptions,
 } from '../options';
+import type { DataChunk } from '../proto/livekit_client';
 import {
   DataPacket_Kind,
   DisconnectReason,
@@ -17,6 +27,7 @@ import {
   Room as RoomModel,
   ServerInfo,
   SpeakerInfo,
+  TrackInfo,
   UserPacket,
 } from '../proto/livekit_models';
 import {
@@ -33,9 +44,16 @@ import {
   roomOptionDefaults,
   videoDefaults,
 } from './defaults';
+import { decodeDataEnvelope } from './dataEnvelope';
+import DataMessageAssembler from './dataMessages';
 import DeviceManager from './DeviceManager';
-import { ConnectionError, UnsupportedServer } from './errors';
-import { EngineEvent, ParticipantEvent, RoomEvent, TrackEvent } from './events';
+import {
+  ConnectionError,
+  EncryptionError,
+  EncryptionErrorReason,
+  UnsupportedServer,
+} from './errors';
+import { EngineEvent, KeyProviderEvent, ParticipantEvent, RoomEvent, TrackEvent } from './events';
 import LocalParticipant from './participant/LocalParticipant';
 import type Participant from './participant/Participant';
 import type { ConnectionQuality } from './participant/Participant';
@@ -48,8 +66,9 @@ import type RemoteTrack from './track/RemoteTrack';
 import RemoteTrackPublication from './track/RemoteTrackPublication';
 import { Track } from './track/Track';
 import type { TrackPublication } from './track/TrackPublication';
-import type { AdaptiveStreamSettings } from './track/types';
+import type { AdaptiveStreamSettings, FrameTransform } from './track/types';
 import { getNewAudioContext } from './track/utils';
+import type { DataMessage, DataMessageInfo, SignalStats } from './types';
 import { Future, isWeb, supportsSetSinkId, unpackStreamId } from './utils';
 
 export enum ConnectionState {
@@ -108,6 +127,34 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
 
   private identityToSid: Map<string, string>;
 
+  /** e2e encryption passwords of individual participants, keyed by identity */
+  private participantPasswords: Map<string, string>;
+
+  /** transforms of encoded frames, in the order they were registered */
+  private frameTransforms: FrameTransform[] = [];
+
+  private dataCryptor: DataCryptor;
+
+  /** data packets are decrypted asynchronously, this keeps them in the order they arrived */
+  private dataPacketQueue: Promise<void> = Promise.resolve();
+
+  /** puts the chunks of messages sent with sendDataMessage back together */
+  private dataMessageAssembler = new DataMessageAssembler();
+
+  /** encrypts and decrypts the tracks of all participants, created once e2ee is enabled */
+  private e2eeWorker?: E2EEWorker;
+
+  /**
+   * identities of remote participants whose frames haven't been decrypted with their new
+   * password yet, set while a password change is in progress
+   */
+  private pendingPasswordSwitches?: Set<string>;
+
+  private passwordSwitchTimeout?: ReturnType<typeof setTimeout>;
+
+  /** set once a track info shows that the server passes on how tracks are encrypted */
+  private isEncryptionRelayed = false;
+
   /** connect options of room */
   private connOptions?: InternalRoomConnectOptions;
 
@@ -130,6 +177,7 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
     this.setMaxListeners(100);
     this.participants = new Map();
     this.identityToSid = new Map();
+    this.participantPasswords = new Map();
     this.options = { ...roomOptionDefaults, ...options };
 
     this.options.audioCaptureDefaults = {
@@ -148,6 +196,19 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
     this.maybeCreateEngine();
 
     this.localParticipant = new LocalParticipant('', '', this.engine, this.options);
+    this.localParticipant.frameTransforms = this.frameTransforms;
+    this.localParticipant.identityToSid = this.identityToSid;
+    this.dataCryptor = new DataCryptor(
+      this.getDataKeyMaterial,
+      this.getKeyDerivationOptions,
+      () => this.isE2EEConfigured,
+      this.stretchPassword,
+    );
+    this.localParticipant.dataCryptor = this.dataCryptor;
+
+    this.options.e2eeKeyProvider
+      ?.on(KeyProviderEvent.KeySet, this.handleKeySet)
+      .on(KeyProviderEvent.KeysRemoved, this.handleKeysRemoved);
   }
 
   private maybeCreateEngine() {
@@ -163,6 +224,7 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
     this.engine.client.onStreamStateUpdate = this.handleStreamStateUpdate;
     this.engine.client.onSubscriptionPermissionUpdate = this.handleSubscriptionPermissionUpdate;
     this.engine.client.onConnectionQuality = this.handleConnectionQualityUpdate;
+    this.engine.client.onConnectionDegraded = this.handleSignalConnectionDegraded;
 
     this.engine
       .on(
@@ -305,21 +367,28 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
         this.localParticipant.identity = pi.identity;
 
         this.localParticipant.updateInfo(pi);
+        this.localParticipant
+          .updatePassword(this.getParticipantPassword(pi.identity))
+          .catch((error) => log.warn('could not update e2ee password', { error }));
         // forward metadata changed for the local participant
         this.localParticipant
           .on(ParticipantEvent.ParticipantMetadataChanged, this.onLocalParticipantMetadataChanged)
           .on(ParticipantEvent.TrackMuted, this.onLocalTrackMuted)
           .on(ParticipantEvent.TrackUnmuted, this.onLocalTrackUnmuted)
+          .on(ParticipantEvent.EncryptionError, this.onLocalEncryptionError)
+          .on(ParticipantEvent.TrackEncryptionStateChanged, this.onLocalTrackEncryptionStateChanged)
           .on(ParticipantEvent.LocalTrackPublished, this.onLocalTrackPublished)
           .on(ParticipantEvent.LocalTrackUnpublished, this.onLocalTrackUnpublished)
           .on(ParticipantEvent.ConnectionQualityChanged, this.onLocalConnectionQualityChanged)
           .on(ParticipantEvent.MediaDevicesError, this.onMediaDevicesError)
+          .on(ParticipantEvent.DataMessageProgress, this.onLocalDataMessageProgress)
           .on(
             ParticipantEvent.ParticipantPermissionsChanged,
             this.onLocalParticipantPermissionsChanged,
           );
 
         // populate remote participants, these should not trigger new events
+        this.updateEncryptionRelayed(joinResponse.otherParticipants.flatMap((info) => info.tracks));
         joinResponse.otherParticipants.forEach((info) => {
           if (
             info.sid !== this.localParticipant.sid &&
@@ -337,6 +406,8 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
         this.name = joinResponse.room!.name;
         this.sid = joinResponse.room!.sid;
         this.metadata = joinResponse.room!.metadata;
+        // keys are salted with the room sid by default
+        this.setupE2EEWorker();
         if (joinResponse.room!.roomTimeout > 0) {
           const now = new Date();
           const utcMilllisecondsSinceEpoch = now.getTime(); //+ (now.getTimezoneOffset() * 60 * 1000);
@@ -454,6 +525,30 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
     return this._isRecording;
   }
 
+  /**
+   * round trip time and health of the signal connection to the server, problems are signaled
+   * by [[RoomEvent.SignalConnectionDegraded]]
+   */
+  get signalStats(): SignalStats {
+    return this.engine?.client.stats ?? { missedPongs: 0 };
+  }
+
+  /**
+   * true if e2ee is set up for the room and the e2ee worker confirmed that all local and
+   * subscribed tracks are being encrypted or decrypted. Changes are signaled by
+   * [[RoomEvent.TrackEncryptionStateChanged]]
+   */
+  get isE2EEEnabled(): boolean {
+    if (!this.e2eeWorker) {
+      return false;
+    }
+    const publications: TrackPublication[] = [...this.localParticipant.tracks.values()];
+    this.participants.forEach((p) => publications.push(...p.tracks.values()));
+    return publications.every(
+      (pub) => !pub.track || pub.encryptionState === TrackEncryptionState.Active,
+    );
+  }
+
   /**
    * @internal for testing
    */
@@ -529,14 +624,249 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
     await this.disconnect();
   };
 
-  updatePassword = (password: string) => {
+  /**
+   * updates the room wide e2e encryption password, used by all participants
+   * that don't have a password of their own set via [[setParticipantPassword]]
+   * @returns a promise resolving once the keys of the password are installed in the e2ee worker
+   */
+  updatePassword = async (password: string) => {
+    this.options.e2ePassword = password;
+    this.setupE2EEWorker();
+    const switching: RemoteParticipant[] = [];
+    const updates: Promise<void>[] = [];
     this.participants.forEach((p) => {
-      p.updatePassword(password);
+      const { update, switched } = this.updateRemotePassword(p);
+      updates.push(update);
+      if (switched) {
+        switching.push(p);
+      }
     });
 
-    this.localParticipant.updatePassword(password);
+    updates.push(
+      this.localParticipant.updatePassword(
+        this.getParticipantPassword(this.localParticipant.identity),
+      ),
+    );
+    this.beginPasswordSwitch(switching);
+    await Promise.all(updates);
+  };
+
+  /**
+   * Registers a transform processing the encoded frames of published and subscribed tracks,
+   * see [[FrameTransform]] for the order transforms and e2e encryption are applied in.
+   * Only tracks that are published or subscribed while a transform is registered have their
+   * frames transformed, those pick up transforms registered later on as well.
+   * Requires a browser supporting encoded streams (insertable streams)
+   */
+  registerFrameTransform(transform: FrameTransform) {
+    if (!this.frameTransforms.includes(transform)) {
+      this.frameTransforms.push(transform);
+    }
+  }
+
+  /**
+   * Stops transforming frames with a transform registered with [[registerFrameTransform]],
+   * frames of tracks already transformed by it are passed on unmodified afterwards
+   */
+  unregisterFrameTransform(transform: FrameTransform) {
+    const index = this.frameTransforms.indexOf(transform);
+    if (index >= 0) {
+      this.frameTransforms.splice(index, 1);
+    }
+  }
+
+  /**
+   * Switches the local participant's tracks to the next key of its key ring,
+   * see [[LocalParticipant.rotateKey]]
+   * @returns the key index used for encryption from now on, undefined if there's no next key
+   */
+  rotateKey(): number | undefined {
+    return this.localParticipant.rotateKey();
+  }
+
+  /**
+   * Sets the e2e encryption password of a single participant. The local participant
+   * encrypts its tracks with its own password, tracks of remote participants are decrypted
+   * with the password set for their identity.
+   * Changing or removing the password of one participant leaves everyone else's keys untouched.
+   * @returns a promise resolving once the keys of the password are installed in the e2ee worker
+   */
+  async setParticipantPassword(identity: string, password: string) {
+    this.participantPasswords.set(identity, password);
+    await this.applyParticipantPassword(identity);
+  }
+
+  /**
+   * Removes a password set via [[setParticipantPassword]], the participant falls back to
+   * the room wide password afterwards
+   */
+  async removeParticipantPassword(identity: string) {
+    this.participantPasswords.delete(identity);
+    await this.applyParticipantPassword(identity);
+  }
+
+  private async applyParticipantPassword(identity: string) {
+    this.setupE2EEWorker();
+    const participant = this.getParticipantByIdentity(identity);
+    if (participant instanceof RemoteParticipant) {
+      const { update, switched } = this.updateRemotePassword(participant);
+      this.beginPasswordSwitch(switched ? [participant] : []);
+      await update;
+      return;
+    }
+    if (identity === this.localParticipant.identity) {
+      await this.localParticipant.updatePassword(this.getParticipantPassword(identity));
+    }
+  }
+
+  /**
+   * applies the password of a remote participant, `switched` is true if it replaced
+   * a previous password the participant's subscribed tracks are decrypted with
+   */
+  private updateRemotePassword(participant: RemoteParticipant) {
+    const previousPassword = participant.e2eePassword;
+    const password = this.getParticipantPassword(participant.identity);
+    const update = participant.updatePassword(password);
+    const switched =
+      !!this.e2eeWorker &&
+      !!previousPassword &&
+      !!password &&
+      password !== previousPassword &&
+      [...participant.tracks.values()].some((pub) => pub.track?.e2eeParticipantId !== undefined);
+    return { update, switched };
+  }
+
+  /**
+   * waits for the frames of `participants` to be decrypted with their new passwords,
+   * [[RoomEvent.E2EEPasswordUpdated]] is emitted once all of them switched. Participants that
+   * don't send any frames can't be waited for, so the switch also completes once the keys of
+   * the previous passwords expire. Without participants there's nothing to switch, a switch
+   * that's already in progress continues
+   */
+  private beginPasswordSwitch(participants: RemoteParticipant[]) {
+    if (participants.length === 0) {
+      return;
+    }
+    this.pendingPasswordSwitches ??= new Set();
+    participants.forEach((p) => this.pendingPasswordSwitches!.add(p.identity));
+    if (this.passwordSwitchTimeout) {
+      clearTimeout(this.passwordSwitchTimeout);
+    }
+    this.passwordSwitchTimeout = setTimeout(() => {
+      log.warn('participants did not switch to their new e2ee password in time', {
+        identities: [...(this.pendingPasswordSwitches ?? [])],
+      });
+      this.pendingPasswordSwitches?.clear();
+      this.completePasswordSwitch();
+    }, KEY_GRACE_PERIOD);
+  }
+
+  private completePasswordSwitch(identity?: string) {
+    if (!this.pendingPasswordSwitches) {
+      return;
+    }
+    if (identity !== undefined) {
+      this.pendingPasswordSwitches.delete(identity);
+    }
+    if (this.pendingPasswordSwitches.size === 0) {
+      this.clearPasswordSwitch();
+      this.emit(RoomEvent.E2EEPasswordUpdated);
+    }
+  }
+
+  private clearPasswordSwitch() {
+    if (this.passwordSwitchTimeout) {
+      clearTimeout(this.passwordSwitchTimeout);
+    }
+    this.passwordSwitchTimeout = undefined;
+    this.pendingPasswordSwitches = undefined;
+  }
+
+  private handleKeyChanged = (identity: string) => {
+    log.debug('participant switched to its new e2ee password', { identity });
+    this.completePasswordSwitch(identity);
   };
 
+  /** true once a password or key provider has been set up for the room */
+  private get isE2EEConfigured() {
+    return (
+      !!this.options.e2ePassword ||
+      this.participantPasswords.size > 0 ||
+      !!this.options.e2eeKeyProvider
+    );
+  }
+
+  /**
+   * starts the worker shared by all encrypted tracks of the room once e2ee is enabled,
+   * it runs until the room disconnects
+   */
+  private setupE2EEWorker() {
+    if (
+      this.e2eeWorker ||
+      !this.isE2EEConfigured ||
+      this.state === ConnectionState.Disconnected ||
+      !this.localParticipant.identity
+    ) {
+      return;
+    }
+    const worker = new E2EEWorker();
+    worker.onKeyChanged = this.handleKeyChanged;
+    worker.configure({
+      decryptionFailurePolicy: this.options.e2eeDecryptionFailurePolicy,
+      undecryptableThreshold: this.options.e2eeUndecryptableThreshold,
+      keyDerivationOptions: this.getKeyDerivationOptions(),
+    });
+    this.e2eeWorker = worker;
+    this.localParticipant.setE2EEWorker(worker);
+    this.participants.forEach((p) => p.setE2EEWorker(worker));
+  }
+
+  private handleKeySet = (info: KeyInfo) => {
+    if (info.participantIdentity === this.localParticipant.identity) {
+      this.localParticipant.updateKey(info);
+      return;
+    }
+    const participant = this.getParticipantByIdentity(info.participantIdentity);
+    if (participant instanceof RemoteParticipant) {
+      participant.updateKey(info);
+    }
+  };
+
+  private handleKeysRemoved = (identity: string) => {
+    if (identity === this.localParticipant.identity) {
+      this.localParticipant.removeKeys();
+      return;
+    }
+    const participant = this.getParticipantByIdentity(identity);
+    if (participant instanceof RemoteParticipant) {
+      participant.removeKeys();
+    }
+  };
+
+  /**
+   * data is encrypted with the same key material as tracks, keys set on the key provider
+   * take precedence over the password like they do in the track key ring
+   */
+  private getDataKeyMaterial = (identity: string, keyIndex: number): DataKeyMaterial | undefined =>
+    this.options.e2eeKeyProvider?.getKeys(identity).find((info) => info.keyIndex === keyIndex)
+      ?.key ?? this.getParticipantPassword(identity);
+
+  /** the worker has usually stretched the password for the key rings of tracks already */
+  private stretchPassword = (password: string, options: KeyDerivationOptions) =>
+    this.e2eeWorker?.stretchPassword(password, options) ?? stretchPassword(password, options);
+
+  private getKeyDerivationOptions = (): KeyDerivationOptions => ({
+    salt: this.options.e2eeKeySalt ?? this.sid,
+    iterations: this.options.e2eeKeyDerivationIterations,
+  });
+
+  private getParticipantPassword(identity: string | undefined): string | undefined {
+    if (identity !== undefined && this.participantPasswords.has(identity)) {
+      return this.participantPasswords.get(identity);
+    }
+    return this.options.e2ePassword;
+  }
+
   /**
    * Browsers have different policies regarding audio playback. Most requiring
    * some form of user interaction (click/tap/etc).
@@ -708,9 +1038,10 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
   }
 
   private handleRestarting = () => {
-    // also unwind existing participants & existing subscriptions
+    // also unwind existing participants & existing subscriptions, the request journal keeps
+    // their state to restore it once restarted
     for (const p of this.participants.values()) {
-      this.handleParticipantDisconnected(p.sid, p);
+      this.handleParticipantDisconnected(p.sid, p, true);
     }
 
     if (this.setAndEmitConnectionState(ConnectionState.Reconnecting)) {
@@ -732,6 +1063,7 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
       this.handleParticipantUpdates([joinResponse.participant]);
     }
     this.handleParticipantUpdates(joinResponse.otherParticipants);
+    this.replayRequestJournal();
 
     // unpublish & republish tracks
     const localPubs: LocalTrackPublication[] = [];
@@ -741,12 +1073,15 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
       }
     });
 
-    await Promise.all(
-      localPubs.map(async (pub) => {
-        const track = pub.track!;
-        this.localParticipant.unpublishTrack(track, false);
-        if (!track.isMuted) {
+    // the sids of republished tracks by their sid in the previous session
+    const republishedSids = new Map<string, string>();
+    try {
+      await Promise.all(
+        localPubs.map(async (pub) => {
+          const track = pub.track!;
+          this.localParticipant.unpublishTrack(track, false);
           if (
+            !track.isMuted &&
             (track instanceof LocalAudioTrack || track instanceof LocalVideoTrack) &&
             !track.isUserProvided
           ) {
@@ -757,17 +1092,66 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
             });
             await track.restartTrack();
           }
-          await this.localParticipant.publishTrack(track, pub.options);
-        }
-      }),
-    );
+          // muted tracks are published as muted, which restores their mute state
+          const republished = await this.localParticipant.publishTrack(track, pub.options);
+          republishedSids.set(pub.trackSid, republished.trackSid);
+        }),
+      );
+    } finally {
+      this.localParticipant.restoreTrackSubscriptionPermissions(republishedSids);
+    }
   };
 
+  /**
+   * restores the subscriptions and track settings requested during the previous session. Local
+   * tracks are republished with their mute state and new sids, so the previous session's mute
+   * requests are dropped by the reconciliation, and the local participant sends its subscription
+   * permissions once its tracks are republished.
+   */
+  private replayRequestJournal() {
+    if (!this.engine) {
+      return;
+    }
+    const { client } = this.engine;
+    const publications = new Map<string, RemoteTrackPublication>();
+    this.participants.forEach((participant) => {
+      participant.tracks.forEach((pub, sid) => publications.set(sid, pub));
+    });
+    client.journal.reconcile(new Set(publications.keys()));
+    client.journal.replay().forEach((message) => {
+      switch (message.$case) {
+        case 'subscription': {
+          const { trackSids, subscribe } = message.subscription;
+          const pub = publications.get(trackSids[0]);
+          // publications are recreated with the default subscription of the new session
+          if (pub && pub.isDesired !== subscribe) {
+            pub.setSubscribed(subscribe);
+          }
+          break;
+        }
+        case 'trackSetting':
+          // with adaptive stream, the attached elements determine the settings
+          if (!this.options.adaptiveStream) {
+            publications
+              .get(message.trackSetting.trackSids[0])
+              ?.restoreSettings(message.trackSetting);
+          }
+          break;
+        case 'subscriptionPermission':
+          break;
+        default:
+          client.sendRequest(message);
+      }
+    });
+  }
+
   private handleDisconnect(shouldStopTracks = true, reason?: DisconnectReason) {
     if (this.state === ConnectionState.Disconnected) {
       return;
     }
 
+    this.engine?.client.journal.clear();
+
     this.participants.forEach((p) => {
       p.tracks.forEach((pub) => {
         p.unpublishTrack(pub.trackSid);
@@ -784,14 +1168,22 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
       }
     });
 
+    this.localParticipant.setE2EEWorker(undefined);
+    this.e2eeWorker?.terminate();
+    this.e2eeWorker = undefined;
+    this.clearPasswordSwitch();
+
     this.localParticipant
       .off(ParticipantEvent.ParticipantMetadataChanged, this.onLocalParticipantMetadataChanged)
       .off(ParticipantEvent.TrackMuted, this.onLocalTrackMuted)
       .off(ParticipantEvent.TrackUnmuted, this.onLocalTrackUnmuted)
+      .off(ParticipantEvent.EncryptionError, this.onLocalEncryptionError)
+      .off(ParticipantEvent.TrackEncryptionStateChanged, this.onLocalTrackEncryptionStateChanged)
       .off(ParticipantEvent.LocalTrackPublished, this.onLocalTrackPublished)
       .off(ParticipantEvent.LocalTrackUnpublished, this.onLocalTrackUnpublished)
       .off(ParticipantEvent.ConnectionQualityChanged, this.onLocalConnectionQualityChanged)
       .off(ParticipantEvent.MediaDevicesError, this.onMediaDevicesError)
+      .off(ParticipantEvent.DataMessageProgress, this.onLocalDataMessageProgress)
       .off(
         ParticipantEvent.ParticipantPermissionsChanged,
         this.onLocalParticipantPermissionsChanged,
@@ -802,6 +1194,9 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
     this.localParticipant.audioTracks.clear();
 
     this.participants.clear();
+    this.isEncryptionRelayed = false;
+    this.dataMessageAssembler.clear();
+    this.localParticipant.rejectPendingRpcs();
     this.activeSpeakers = [];
     if (this.audioContext && typeof this.options.expWebAudioMix === 'boolean') {
       this.audioContext.close();
@@ -816,6 +1211,7 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
   }
 
   private handleParticipantUpdates = (participantInfos: ParticipantInfo[]) => {
+    this.updateEncryptionRelayed(participantInfos.flatMap((info) => info.tracks));
     // handle changes to participant state, and send events
     participantInfos.forEach((info) => {
       if (
@@ -845,25 +1241,58 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
       } else if (!isNewParticipant) {
         // just update, no events
         remoteParticipant.updateInfo({
-          e2eePassword: this.options.e2ePassword,
+          e2eePassword: this.getParticipantPassword(info.identity),
           ...info,
         });
       }
     });
   };
 
-  private handleParticipantDisconnected(sid: string, participant?: RemoteParticipant) {
+  /**
+   * servers that don't pass on how tracks are encrypted report all of them as unencrypted,
+   * so a track advertised without encryption only counts as unencrypted once a track info
+   * with encryption shows that the server passes it on
+   */
+  private updateEncryptionRelayed(tracks: TrackInfo[]) {
+    if (
+      this.isEncryptionRelayed ||
+      tracks.every((info) => (info.encryption ?? Encryption_Type.NONE) === Encryption_Type.NONE)
+    ) {
+      return;
+    }
+    this.isEncryptionRelayed = true;
+    this.participants.forEach((p) => p.setEncryptionRelayed(true));
+  }
+
+  private handleParticipantDisconnected(
+    sid: string,
+    participant?: RemoteParticipant,
+    isRestarting = false,
+  ) {
     // remove and send event
     this.participants.delete(sid);
+    this.dataMessageAssembler.removeParticipant(sid);
     if (!participant) {
       return;
     }
+    if (!isRestarting) {
+      this.localParticipant.rejectPendingRpcs(participant.identity);
+    }
 
     this.identityToSid.delete(participant.identity);
     participant.tracks.forEach((publication) => {
       participant.unpublishTrack(publication.trackSid, true);
+      if (!isRestarting) {
+        this.engine?.client.journal.forget(publication.trackSid);
+      }
     });
     this.emitWhenConnected(RoomEvent.ParticipantDisconnected, participant);
+    // participants that left won't switch to their new password anymore, while restarting
+    // they're still in the room and calls and password switches waiting for them time out
+    // if they don't come back
+    if (!isRestarting) {
+      this.completePasswordSwitch(participant.identity);
+    }
   }
 
   // updates are sent only when there's a change to speaker ordering
@@ -930,6 +1359,10 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
     this.emitWhenConnected(RoomEvent.ActiveSpeakersChanged, activeSpeakers);
   };
 
+  private handleSignalConnectionDegraded = (stats: SignalStats) => {
+    this.emit(RoomEvent.SignalConnectionDegraded, stats);
+  };
+
   private handleStreamStateUpdate = (streamStateUpdate: StreamStateUpdate) => {
     streamStateUpdate.streamStates.forEach((streamState) => {
       const participant = this.participants.get(streamState.participantSid);
@@ -965,14 +1398,100 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
   };
 
   private handleDataPacket = (userPacket: UserPacket, kind: DataPacket_Kind) => {
+    this.dataPacketQueue = this.dataPacketQueue
+      .then(() => this.processDataPacket(userPacket, kind))
+      // a packet that failed, e.g. because a listener threw, mustn't hold up the following ones
+      .catch((error) => log.error('could not process data packet', { error }));
+  };
+
+  private async processDataPacket(userPacket: UserPacket, kind: DataPacket_Kind) {
     // find the participant
     const participant = this.participants.get(userPacket.participantSid);
 
-    this.emit(RoomEvent.DataReceived, userPacket.payload, participant, kind);
+    const envelope = decodeDataEnvelope(userPacket.payload);
+    let payload = envelope?.payload ?? userPacket.payload;
+    const encryption = envelope?.encryption ?? Encryption_Type.NONE;
+    if (encryption === Encryption_Type.NONE && this.dataCryptor.isEnabled) {
+      // its sender can't be authenticated
+      log.warn('dropping unencrypted data packet', { participant: userPacket.participantSid });
+      this.emit(
+        RoomEvent.EncryptionError,
+        new EncryptionError(
+          EncryptionErrorReason.Unencrypted,
+          participant?.identity ?? '',
+          undefined,
+          undefined,
+          'received an unencrypted data packet while e2ee is enabled',
+        ),
+        undefined,
+        participant,
+      );
+      return;
+    }
+    if (encryption !== Encryption_Type.NONE) {
+      try {
+        if (!participant || encryption !== Encryption_Type.GCM) {
+          throw new EncryptionError(
+            EncryptionErrorReason.MissingKey,
+            participant?.identity ?? '',
+            undefined,
+            undefined,
+            'cannot decrypt data packet of unknown participant or encryption type',
+          );
+        }
+        payload = await this.dataCryptor.decrypt(participant.identity, payload);
+      } catch (error) {
+        log.warn('could not decrypt data packet', { error });
+        if (error instanceof EncryptionError) {
+          this.emit(RoomEvent.EncryptionError, error, undefined, participant);
+        }
+        return;
+      }
+    }
+
+    switch (envelope?.value?.$case) {
+      case 'rpcRequest':
+        // not awaited, a slow handler mustn't hold up other data packets
+        this.localParticipant.handleRpcRequest(
+          userPacket.participantSid,
+          participant,
+          envelope.value.rpcRequest,
+          payload,
+        );
+        return;
+      case 'rpcResponse':
+        this.localParticipant.handleRpcResponse(participant, envelope.value.rpcResponse, payload);
+        return;
+      case 'chunk':
+        this.handleDataChunk(userPacket.participantSid, envelope.value.chunk, payload, participant);
+        return;
+      default:
+    }
+
+    this.emit(RoomEvent.DataReceived, payload, participant, kind);
 
     // also emit on the participant
-    participant?.emit(ParticipantEvent.DataReceived, userPacket.payload, kind);
-  };
+    participant?.emit(ParticipantEvent.DataReceived, payload, kind);
+  }
+
+  private handleDataChunk(
+    participantSid: string,
+    chunk: DataChunk,
+    payload: Uint8Array,
+    participant?: RemoteParticipant,
+  ) {
+    const progress = this.dataMessageAssembler.handleChunk(participantSid, chunk, payload);
+    if (!progress) {
+      return;
+    }
+    const { info, receivedBytes, message } = progress;
+    this.emit(RoomEvent.DataMessageProgress, info, receivedBytes, participant);
+    participant?.emit(ParticipantEvent.DataMessageProgress, info, receivedBytes);
+    if (message) {
+      this.emit(RoomEvent.DataMessageReceived, message, participant);
+      participant?.emit(ParticipantEvent.DataMessageReceived, message);
+    }
+  }
 
   private handleAudioPlaybackStarted = () => {
     if (this.canPlaybackAudio) {
@@ -1041,7 +1560,10 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
   private createParticipant(id: string, info?: ParticipantInfo): RemoteParticipant {
     let participant: RemoteParticipant;
     if (info) {
-      const infoWithPassword = { ...info, e2eePassword: this.options.e2ePassword };
+      const infoWithPassword = {
+        ...info,
+        e2eePassword: this.getParticipantPassword(info.identity),
+      };
       participant = RemoteParticipant.fromParticipantInfo(this.engine.client, infoWithPassword);
     } else {
       participant = new RemoteParticipant(
@@ -1050,9 +1572,17 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
         '',
         undefined,
         undefined,
-        this.options.e2ePassword,
+        this.getParticipantPassword(undefined),
       );
     }
+    participant.keyProvider = this.options.e2eeKeyProvider;
+    participant.frameTransforms = this.frameTransforms;
+    participant.frameFormatOptions = {
+      frameFormat: this.options.e2eeFrameFormat,
+      cipherSuite: this.options.e2eeCipherSuite,
+    };
+    participant.isEncryptionRelayed = this.isEncryptionRelayed;
+    participant.setE2EEWorker(this.e2eeWorker);
     if (this.options.expWebAudioMix) {
       participant.setAudioContext(this.audioContext);
     }
@@ -1093,6 +1623,10 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
         },
       )
       .on(ParticipantEvent.TrackUnpublished, (publication: RemoteTrackPublication) => {
+        // the tracks of disconnected participants are forgotten by handleParticipantDisconnected
+        if (this.participants.get(participant.sid) === participant) {
+          this.engine?.client.journal.forget(publication.trackSid);
+        }
         this.emitWhenConnected(RoomEvent.TrackUnpublished, publication, participant);
       })
       .on(
@@ -1110,6 +1644,15 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
       .on(ParticipantEvent.TrackUnmuted, (pub: TrackPublication) => {
         this.emitWhenConnected(RoomEvent.TrackUnmuted, pub, participant);
       })
+      .on(ParticipantEvent.EncryptionError, (error: EncryptionError, pub: TrackPublication) => {
+        this.emitWhenConnected(RoomEvent.EncryptionError, error, pub, participant);
+      })
+      .on(
+        ParticipantEvent.TrackEncryptionStateChanged,
+        (pub: TrackPublication, state: TrackEncryptionState) => {
+          this.emitWhenConnected(RoomEvent.TrackEncryptionStateChanged, pub, state, participant);
+        },
+      )
       .on(ParticipantEvent.ParticipantMetadataChanged, (metadata: string | undefined) => {
         this.emitWhenConnected(RoomEvent.ParticipantMetadataChanged, metadata, participant);
       })
@@ -1141,7 +1684,7 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
     // update info at the end after callbacks have been set up
     if (info) {
       participant.updateInfo({
-        e2eePassword: this.options.e2ePassword,
+        e2eePassword: this.getParticipantPassword(info.identity),
         ...info,
       });
     }
@@ -1240,11 +1783,26 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
     this.emit(RoomEvent.TrackUnmuted, pub, this.localParticipant);
   };
 
+  private onLocalEncryptionError = (error: EncryptionError, pub: TrackPublication) => {
+    this.emit(RoomEvent.EncryptionError, error, pub, this.localParticipant);
+  };
+
+  private onLocalTrackEncryptionStateChanged = (
+    pub: TrackPublication,
+    state: TrackEncryptionState,
+  ) => {
+    this.emit(RoomEvent.TrackEncryptionStateChanged, pub, state, this.localParticipant);
+  };
+
   private onLocalTrackPublished = (pub: LocalTrackPublication) => {
+    if (pub.trackInfo) {
+      this.updateEncryptionRelayed([pub.trackInfo]);
+    }
     this.emit(RoomEvent.LocalTrackPublished, pub, this.localParticipant);
   };
 
   private onLocalTrackUnpublished = (pub: LocalTrackPublication) => {
+    this.engine?.client.journal.forget(pub.trackSid);
     this.emit(RoomEvent.LocalTrackUnpublished, pub, this.localParticipant);
   };
 
@@ -1252,6 +1810,10 @@ class Room extends (EventEmitter as new () => TypedEmitter<RoomEventCallbacks>)
     this.emit(RoomEvent.ConnectionQualityChanged, quality, this.localParticipant);
   };
 
+  private onLocalDataMessageProgress = (info: DataMessageInfo, sentBytes: number) => {
+    this.emit(RoomEvent.DataMessageProgress, info, sentBytes, this.localParticipant);
+  };
+
   private onMediaDevicesError = (e: Error) => {
     this.emit(RoomEvent.MediaDevicesError, e);
   };
@@ -1321,6 +1883,12 @@ export type RoomEventCallbacks = {
     participant?: RemoteParticipant,
     kind?: DataPacket_Kind,
   ) => void;
+  dataMessageProgress: (
+    info: DataMessageInfo,
+    transferredBytes: number,
+    participant?: RemoteParticipant | LocalParticipant,
+  ) => void;
+  dataMessageReceived: (message: DataMessage, participant?: RemoteParticipant) => void;
   connectionQualityChanged: (quality: ConnectionQuality, participant: Participant) => void;
   mediaDevicesError: (error: Error) => void;
   trackStreamStateChanged: (
@@ -1340,5 +1908,17 @@ export type RoomEventCallbacks = {
   ) => void;
   audioPlaybackChanged: (playing: boolean) => void;
   signalConnected: () => void;
+  signalConnectionDegraded: (stats: SignalStats) => void;
   recordingStatusChanged: (recording: boolean) => void;
+  encryptionError: (
+    error: EncryptionError,
+    publication: TrackPublication | undefined,
+    participant: RemoteParticipant | LocalParticipant | undefined,
+  ) => void;
+  trackEncryptionStateChanged: (
+    publication: TrackPublication,
+    state: TrackEncryptionState,
+    participant: RemoteParticipant | LocalParticipant,
+  ) => void;
+  e2eePasswordUpdated: () => void;
 };
@@ -0,0 +1,30 @@
+import { DataEnvelope } from '../proto/livekit_client';
+
+/**
+ * prefix of the UserPacket payloads that carry a [[DataEnvelope]]. Payloads that don't need
+ * one are sent as they are, so clients that don't know envelopes can read them
+ */
+const DATA_ENVELOPE_MAGIC = new Uint8Array([0x00, 0x4c, 0x4b, 0x44, 0x45, 0x4e, 0x56, 0x01]);
+
+export function encodeDataEnvelope(envelope: DataEnvelope): Uint8Array {
+  const encoded = DataEnvelope.encode(envelope).finish();
+  const payload = new Uint8Array(DATA_ENVELOPE_MAGIC.byteLength + encoded.byteLength);
+  payload.set(DATA_ENVELOPE_MAGIC);
+  payload.set(encoded, DATA_ENVELOPE_MAGIC.byteLength);
+  return payload;
+}
+
+/** the envelope a UserPacket payload carries, undefined for plain payloads */
+export function decodeDataEnvelope(payload: Uint8Array): DataEnvelope | undefined {
+  if (
+    payload.byteLength < DATA_ENVELOPE_MAGIC.byteLength ||
+    DATA_ENVELOPE_MAGIC.some((byte, i) => payload[i] !== byte)
+  ) {
+    return undefined;
+  }
+  try {
+    return DataEnvelope.decode(payload.subarray(DATA_ENVELOPE_MAGIC.byteLength));
+  } catch (error) {
+    return undefined;
+  }
+}
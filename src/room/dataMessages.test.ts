@@ -0,0 +1,120 @@
+import { EventEmitter } from 'events';
+import { setLogLevel } from '../logger';
+import { DataPacket, DataPacket_Kind } from '../proto/livekit_models';
+import { decodeDataEnvelope } from './dataEnvelope';
+import DataMessageAssembler, { DATA_CHUNK_SIZE } from './dataMessages';
+import { ParticipantEvent } from './events';
+import LocalParticipant from './participant/LocalParticipant';
+import type RTCEngine from './RTCEngine';
+
+setLogLevel('silent');
+
+function createSender() {
+  const packets: DataPacket[] = [];
+  const engine = Object.assign(new EventEmitter(), {
+    client: {},
+    sendDataPacket: jest.fn(async (packet: DataPacket) => {
+      // what goes over the wire
+      packets.push(DataPacket.decode(DataPacket.encode(packet).finish()));
+    }),
+    waitForBufferedAmountLow: jest.fn(async () => {}),
+  }) as unknown as RTCEngine;
+  const participant = new LocalParticipant('PA_alice', 'alice', engine, {} as any);
+  return { participant, engine, packets };
+}
+
+/** the chunks the packets carry */
+function chunkPackets(packets: DataPacket[]) {
+  return packets.map((packet) => {
+    const user = packet.value?.$case === 'user' ? packet.value.user : undefined;
+    const envelope = user && decodeDataEnvelope(user.payload);
+    return {
+      participantSid: user?.participantSid ?? '',
+      chunk: envelope?.value?.$case === 'chunk' ? envelope.value.chunk : undefined,
+      payload: envelope?.payload ?? new Uint8Array(),
+    };
+  });
+}
+
+function createPayload(size: number) {
+  return Uint8Array.from({ length: size }, (_, i) => i % 251);
+}
+
+describe('data messages', () => {
+  it('sends a message in chunks that are put back together', async () => {
+    const { participant, engine, packets } = createSender();
+    const progress = jest.fn();
+    participant.on(ParticipantEvent.DataMessageProgress, progress);
+    const payload = createPayload(DATA_CHUNK_SIZE * 2 + 10);
+
+    const id = await participant.sendDataMessage(payload, { name: 'doc.pdf' });
+    expect(packets).toHaveLength(3);
+    expect(packets.every((packet) => packet.kind === DataPacket_Kind.RELIABLE)).toBe(true);
+    expect(engine.waitForBufferedAmountLow).toHaveBeenCalledTimes(3);
+    expect(progress.mock.calls.map(([, sent]) => sent)).toEqual([
+      DATA_CHUNK_SIZE,
+      DATA_CHUNK_SIZE * 2,
+      payload.byteLength,
+    ]);
+
+    const assembler = new DataMessageAssembler();
+    const received = chunkPackets(packets).map((user) =>
+      assembler.handleChunk(user.participantSid, user.chunk!, user.payload),
+    );
+    expect(received.map((p) => p!.receivedBytes)).toEqual(progress.mock.calls.map(([, s]) => s));
+    expect(received[2]!.message).toEqual({
+      id,
+      name: 'doc.pdf',
+      size: payload.byteLength,
+      payload,
+    });
+  });
+
+  it('sends files with their name and type', async () => {
+    const { participant, packets } = createSender();
+    const file = new Blob([createPayload(10)], { type: 'text/plain' });
+    Object.defineProperty(file, 'name', { value: 'notes.txt' });
+
+    await participant.sendDataMessage(file, { id: 'notes' });
+    const [user] = chunkPackets(packets);
+    expect(user.chunk).toEqual({
+      messageId: 'notes',
+      offset: 0,
+      totalSize: 10,
+      name: 'notes.txt',
+      mimeType: 'text/plain',
+    });
+    expect(Array.from(user.payload)).toEqual(Array.from(createPayload(10)));
+  });
+
+  it('delivers empty messages', async () => {
+    const { participant, packets } = createSender();
+    await participant.sendDataMessage(new Uint8Array());
+    const [user] = chunkPackets(packets);
+    const progress = new DataMessageAssembler().handleChunk('PA_alice', user.chunk!, user.payload);
+    expect(progress?.message?.payload).toEqual(new Uint8Array());
+  });
+
+  it('drops messages with missing chunks', () => {
+    const assembler = new DataMessageAssembler();
+    const chunk = { messageId: 'm', offset: 0, totalSize: 30, name: '', mimeType: '' };
+    expect(assembler.handleChunk('PA_bob', chunk, createPayload(10))).toBeDefined();
+    const skipped = assembler.handleChunk('PA_bob', { ...chunk, offset: 20 }, createPayload(10));
+    expect(skipped).toBeUndefined();
+    // the message was dropped, its next chunk doesn't continue it anymore
+    const next = assembler.handleChunk('PA_bob', { ...chunk, offset: 10 }, createPayload(10));
+    expect(next).toBeUndefined();
+  });
+
+  it('keeps the messages of different senders apart', () => {
+    const assembler = new DataMessageAssembler();
+    const chunk = { messageId: 'm', offset: 0, totalSize: 20, name: '', mimeType: '' };
+    assembler.handleChunk('PA_bob', chunk, createPayload(10));
+    assembler.handleChunk('PA_carol', chunk, createPayload(10));
+    assembler.removeParticipant('PA_carol');
+
+    const next = { ...chunk, offset: 10 };
+    expect(assembler.handleChunk('PA_bob', next, createPayload(10))?.message).toBeDefined();
+    expect(assembler.handleChunk('PA_carol', next, createPayload(10))).toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+import log from '../logger';
+import type { DataChunk } from '../proto/livekit_client';
+import type { DataMessage, DataMessageInfo } from './types';
+
+/**
+ * payload bytes per chunk, keeps packets below the 16 KiB every browser can send and
+ * receive over a data channel
+ */
+export const DATA_CHUNK_SIZE = 15_000;
+
+export function dataMessageInfo({ messageId, totalSize, name, mimeType }: DataChunk) {
+  const info: DataMessageInfo = { id: messageId, size: totalSize };
+  if (name) {
+    info.name = name;
+  }
+  if (mimeType) {
+    info.mimeType = mimeType;
+  }
+  return info;
+}
+
+export interface DataMessageProgress {
+  info: DataMessageInfo;
+  receivedBytes: number;
+  /** set once all chunks of the message arrived */
+  message?: DataMessage;
+}
+
+interface PendingMessage {
+  info: DataMessageInfo;
+  chunks: Uint8Array[];
+  receivedBytes: number;
+}
+
+/**
+ * Puts the chunks of messages back together. Chunks are sent over the reliable data channel,
+ * so they arrive in order; a chunk that doesn't continue its message means chunks got lost,
+ * e.g. when the connection was restarted, and the message is dropped.
+ */
+export default class DataMessageAssembler {
+  /** messages being received by sender sid and message ID */
+  private pending = new Map<string, Map<string, PendingMessage>>();
+
+  /**
+   * adds a chunk of a participant's message
+   * @returns the progress of the message, undefined if the chunk was dropped
+   */
+  handleChunk(
+    participantSid: string,
+    chunk: DataChunk,
+    payload: Uint8Array,
+  ): DataMessageProgress | undefined {
+    let messages = this.pending.get(participantSid);
+    if (!messages) {
+      messages = new Map();
+      this.pending.set(participantSid, messages);
+    }
+
+    let pending = messages.get(chunk.messageId);
+    if (chunk.offset === 0) {
+      pending = { info: dataMessageInfo(chunk), chunks: [], receivedBytes: 0 };
+      messages.set(chunk.messageId, pending);
+    }
+    if (
+      !pending ||
+      chunk.offset !== pending.receivedBytes ||
+      pending.receivedBytes + payload.byteLength > pending.info.size
+    ) {
+      log.warn('dropping data message with missing chunks', {
+        participantSid,
+        messageId: chunk.messageId,
+        offset: chunk.offset,
+      });
+      messages.delete(chunk.messageId);
+      return undefined;
+    }
+
+    pending.chunks.push(payload);
+    pending.receivedBytes += payload.byteLength;
+    const progress: DataMessageProgress = {
+      info: pending.info,
+      receivedBytes: pending.receivedBytes,
+    };
+    if (pending.receivedBytes === pending.info.size) {
+      messages.delete(chunk.messageId);
+      progress.message = { ...pending.info, payload: concat(pending.chunks, pending.info.size) };
+    }
+    return progress;
+  }
+
+  /** drops the incomplete messages of a participant that left */
+  removeParticipant(participantSid: string) {
+    this.pending.delete(participantSid);
+  }
+
+  clear() {
+    this.pending.clear();
+  }
+}
+
+function concat(chunks: Uint8Array[], size: number) {
+  if (chunks.length === 1) {
+    return chunks[0];
+  }
+  const payload = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    payload.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return payload;
+}
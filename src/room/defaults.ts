@@ -1,3 +1,5 @@
+import { PBKDF2_ITERATIONS, UNDECRYPTABLE_THRESHOLD } from '../e2ee/constants';
+import { DecryptionFailurePolicy, E2EEFrameFormat, SFrameCipherSuite } from '../e2ee/types';
 import type { InternalRoomConnectOptions, InternalRoomOptions } from '../options';
 import DefaultReconnectPolicy from './DefaultReconnectPolicy';
 import {
@@ -37,6 +39,11 @@ export const roomOptionDefaults: InternalRoomOptions = {
   stopLocalTrackOnUnpublish: true,
   reconnectPolicy: new DefaultReconnectPolicy(),
   expWebAudioMix: false,
+  e2eeDecryptionFailurePolicy: DecryptionFailurePolicy.Drop,
+  e2eeUndecryptableThreshold: UNDECRYPTABLE_THRESHOLD,
+  e2eeFrameFormat: E2EEFrameFormat.Trailer,
+  e2eeCipherSuite: SFrameCipherSuite.AES_128_GCM_SHA256_128,
+  e2eeKeyDerivationIterations: PBKDF2_ITERATIONS,
 } as const;
 
 export const roomConnectOptionDefaults: InternalRoomConnectOptions = {
@@ -44,5 +51,3 @@ export const roomConnectOptionDefaults: InternalRoomConnectOptions = {
   maxRetries: 1,
   peerConnectionTimeout: 15_000,
 } as const;
-
-export const keyRotationMs: number = 60000;
@@ -55,6 +55,82 @@ export class PublishDataError extends LivekitError {
   }
 }
 
+export enum EncryptionErrorReason {
+  /** an outgoing frame couldn't be encrypted */
+  EncryptionFailed = 'encryptionFailed',
+  /** no key is known for the key index an incoming frame was encrypted with */
+  MissingKey = 'missingKey',
+  /** an incoming frame couldn't be decrypted, usually the sender used a different key */
+  DecryptionFailed = 'decryptionFailed',
+  /** an incoming frame has been received before, or arrived too late to tell */
+  ReplayedFrame = 'replayedFrame',
+  /** an incoming data packet wasn't encrypted although e2ee is enabled for the room */
+  Unencrypted = 'unencrypted',
+}
+
+export class EncryptionError extends LivekitError {
+  reason: EncryptionErrorReason;
+
+  /** identity of the participant whose key ring was used */
+  participantIdentity: string;
+
+  trackSid?: string;
+
+  /** key index the frame was encrypted with, if known */
+  keyIndex?: number;
+
+  constructor(
+    reason: EncryptionErrorReason,
+    participantIdentity: string,
+    trackSid?: string,
+    keyIndex?: number,
+    message?: string,
+  ) {
+    super(40, message ?? 'e2ee failure');
+    this.reason = reason;
+    this.participantIdentity = participantIdentity;
+    this.trackSid = trackSid;
+    this.keyIndex = keyIndex;
+  }
+}
+
+/**
+ * the e2ee worker rejected or failed to handle a request, e.g. because a key couldn't be imported
+ */
+export class E2EEWorkerError extends LivekitError {
+  /** the operation that was requested */
+  operation: string;
+
+  constructor(operation: string, message?: string) {
+    super(41, message ?? 'e2ee worker request failed');
+    this.operation = operation;
+  }
+}
+
+export enum RpcErrorReason {
+  /** the recipient didn't respond in time */
+  Timeout = 'timeout',
+  /** the recipient has no handler registered for the method */
+  UnsupportedMethod = 'unsupportedMethod',
+  /** the recipient isn't in the room, or left before responding */
+  RecipientDisconnected = 'recipientDisconnected',
+  /** the recipient's handler failed */
+  ApplicationError = 'applicationError',
+}
+
+/**
+ * a remote procedure call failed. Handlers can throw it to fail a call with their own message,
+ * other errors thrown by handlers aren't passed on to the caller
+ */
+export class RpcError extends LivekitError {
+  reason: RpcErrorReason;
+
+  constructor(reason: RpcErrorReason, message?: string) {
+    super(50, message ?? 'rpc failed');
+    this.reason = reason;
+  }
+}
+
 export enum MediaDeviceFailure {
   // user rejected permissions
   PermissionDenied = 'PermissionDenied',
@@ -174,11 +174,29 @@ export enum RoomEvent {
    * Data received from another participant.
    * Data packets provides the ability to use LiveKit to send/receive arbitrary payloads.
    * All participants in the room will receive the messages sent to the room.
+   * Payloads encrypted by the sender have already been decrypted.
    *
    * args: (payload: Uint8Array, participant: [[Participant]], kind: [[DataPacket_Kind]])
    */
   DataReceived = 'dataReceived',
 
+  /**
+   * A chunk of a message sent with [[LocalParticipant.sendDataMessage]] was received, or,
+   * for the [[LocalParticipant]], sent. `transferredBytes` counts the bytes of the message
+   * received or sent so far.
+   *
+   * args: ([[DataMessageInfo]], transferredBytes: number, participant: [[Participant]] | undefined)
+   */
+  DataMessageProgress = 'dataMessageProgress',
+
+  /**
+   * All chunks of a message sent with [[LocalParticipant.sendDataMessage]] were received
+   * and put back together. Chunks encrypted by the sender have already been decrypted.
+   *
+   * args: ([[DataMessage]], participant: [[RemoteParticipant]] | undefined)
+   */
+  DataMessageReceived = 'dataMessageReceived',
+
   /**
    * Connection quality was changed for a Participant. It'll receive updates
    * from the local participant, as well as any [[RemoteParticipant]]s that we are
@@ -251,10 +269,50 @@ export enum RoomEvent {
    */
   SignalConnected = 'signalConnected',
 
+  /**
+   * The server didn't answer a ping of the signal connection before the next one was due,
+   * while the media connection may still be fine. The connection is resumed if the next ping
+   * isn't answered either, or no message arrives within the ping timeout of the server.
+   *
+   * args: ([[SignalStats]])
+   */
+  SignalConnectionDegraded = 'signalConnectionDegraded',
+
   /**
    * Recording of a room has started/stopped.
    */
   RecordingStatusChanged = 'recordingStatusChanged',
+
+  /**
+   * Frames of a track or a data packet couldn't be encrypted or decrypted, e.g. because a
+   * remote participant uses a key we don't have. Fires on both [[RemoteParticipant]]s and
+   * [[LocalParticipant]]. The publication is undefined for data packets, which aren't
+   * emitted as [[DataReceived]] when they can't be decrypted
+   *
+   * args: ([[EncryptionError]], [[TrackPublication]] | undefined, [[Participant]] | undefined)
+   */
+  EncryptionError = 'encryptionError',
+
+  /**
+   * A local or remote track started or stopped being encrypted or decrypted.
+   * Fires on both [[RemoteParticipant]]s and [[LocalParticipant]], see also [[Room.isE2EEEnabled]]
+   *
+   * args: ([[TrackPublication]], [[TrackEncryptionState]], [[Participant]])
+   */
+  TrackEncryptionStateChanged = 'trackEncryptionStateChanged',
+
+  /**
+   * A password change through [[Room.updatePassword]] or [[Room.setParticipantPassword]]
+   * completed: frames of every remote participant whose password changed have been decrypted
+   * with the keys of the new password. Until then the keys of the previous password stay
+   * valid for a grace period, so media isn't dropped while participants switch over.
+   * Not emitted for changes that don't affect the tracks decrypted from any remote participant,
+   * e.g. changing the local participant's password or the password of a participant whose
+   * tracks aren't subscribed
+   *
+   * args: none
+   */
+  E2EEPasswordUpdated = 'e2eePasswordUpdated',
 }
 
 export enum ParticipantEvent {
@@ -353,6 +411,21 @@ export enum ParticipantEvent {
    */
   DataReceived = 'dataReceived',
 
+  /**
+   * A chunk of a message was received from this participant, or, for the
+   * [[LocalParticipant]], sent by it
+   *
+   * args: ([[DataMessageInfo]], transferredBytes: number)
+   */
+  DataMessageProgress = 'dataMessageProgress',
+
+  /**
+   * A message sent in chunks was received from this participant as a whole
+   *
+   * args: ([[DataMessage]])
+   */
+  DataMessageReceived = 'dataMessageReceived',
+
   /**
    * Has speaking status changed for the current participant
    *
@@ -406,6 +479,20 @@ export enum ParticipantEvent {
    * args: (prevPermissions: [[ParticipantPermission]])
    */
   ParticipantPermissionsChanged = 'participantPermissionsChanged',
+
+  /**
+   * Frames of one of the participant's tracks couldn't be encrypted or decrypted
+   *
+   * args: ([[EncryptionError]], [[TrackPublication]])
+   */
+  EncryptionError = 'encryptionError',
+
+  /**
+   * One of the participant's tracks started or stopped being encrypted or decrypted
+   *
+   * args: ([[TrackPublication]], [[TrackEncryptionState]])
+   */
+  TrackEncryptionStateChanged = 'trackEncryptionStateChanged',
 }
 
 /** @internal */
@@ -423,6 +510,22 @@ export enum EngineEvent {
   DataPacketReceived = 'dataPacketReceived',
 }
 
+export enum KeyProviderEvent {
+  /**
+   * A key has been installed for a participant
+   *
+   * args: ([[KeyInfo]])
+   */
+  KeySet = 'keySet',
+
+  /**
+   * All keys of a participant have been removed
+   *
+   * args: (participantIdentity: string)
+   */
+  KeysRemoved = 'keysRemoved',
+}
+
 export enum TrackEvent {
   Message = 'message',
   Muted = 'muted',
@@ -465,6 +568,27 @@ export enum TrackEvent {
    * Only fires on LocalTracks
    */
   UpstreamResumed = 'upstreamResumed',
+  /**
+   * Frames of the track couldn't be encrypted or decrypted. Fires once when a track starts
+   * failing, and again only after it has recovered in between
+   *
+   * args: ([[EncryptionError]])
+   */
+  EncryptionError = 'encryptionError',
+  /**
+   * A remote track has been failing decryption for too many consecutive frames, or
+   * has recovered from it. See [[RemoteTrack.isUndecryptable]]
+   *
+   * args: (undecryptable: boolean, [[RemoteTrack]])
+   */
+  UndecryptableChanged = 'undecryptableChanged',
+  /**
+   * The track started or stopped being encrypted or decrypted, also fires on publications.
+   * See [[TrackPublication.encryptionState]]
+   *
+   * args: ([[TrackEncryptionState]], [[Track]])
+   */
+  EncryptionStateChanged = 'encryptionStateChanged',
   /**
    * @internal
    * Fires on RemoteTrackPublication
@@ -0,0 +1,263 @@
+import { EventEmitter } from 'events';
+import { Encryption_Type } from '../../api/protocolExtensions';
+import type { SignalClient } from '../../api/SignalClient';
+import DataCryptor from '../../e2ee/DataCryptor';
+import E2EEWorker from '../../e2ee/E2EEWorker';
+import { BaseKeyProvider } from '../../e2ee/KeyProvider';
+import { TrackEncryptionState } from '../../e2ee/types';
+import { setLogLevel } from '../../logger';
+import { DataPacket, DataPacket_Kind, TrackInfo } from '../../proto/livekit_models';
+import { installMockWebRTC, MockCapturedMediaStreamTrack } from '../../test/MockRTCPeerConnection';
+import { decodeDataEnvelope } from '../dataEnvelope';
+import { EncryptionErrorReason, RpcError, RpcErrorReason } from '../errors';
+import type RTCEngine from '../RTCEngine';
+import type { EncodedStreams } from '../track/FramePipeline';
+import LocalAudioTrack from '../track/LocalAudioTrack';
+import LocalTrackPublication from '../track/LocalTrackPublication';
+import { Track } from '../track/Track';
+import type { EncodedFrame } from '../track/types';
+import LocalParticipant from './LocalParticipant';
+import RemoteParticipant from './RemoteParticipant';
+
+setLogLevel('silent');
+
+/** local participants of two rooms, delivering each other's data packets */
+function createParticipants() {
+  const participants: Record<string, LocalParticipant> = {};
+  const create = (sid: string, identity: string, peerSid: string, peerIdentity: string) => {
+    const peer = new RemoteParticipant({} as SignalClient, peerSid, peerIdentity);
+    const engine = Object.assign(new EventEmitter(), {
+      client: {},
+      sendDataPacket: jest.fn(async (packet: DataPacket) => {
+        const { value } = DataPacket.decode(DataPacket.encode(packet).finish());
+        if (value?.$case !== 'user') {
+          return;
+        }
+        const { user } = value;
+        const self = new RemoteParticipant({} as SignalClient, sid, identity);
+        const recipient = participants[user.destinationSids[0]];
+        const envelope = decodeDataEnvelope(user.payload);
+        if (envelope?.value?.$case === 'rpcRequest') {
+          recipient.handleRpcRequest(sid, self, envelope.value.rpcRequest, envelope.payload);
+        } else if (envelope?.value?.$case === 'rpcResponse') {
+          recipient.handleRpcResponse(self, envelope.value.rpcResponse, envelope.payload);
+        }
+      }),
+    }) as unknown as RTCEngine;
+    const participant = new LocalParticipant(sid, identity, engine, {} as any);
+    participant.identityToSid = new Map([[peer.identity, peer.sid]]);
+    participants[sid] = participant;
+    return participant;
+  };
+  const alice = create('PA_alice', 'alice', 'PA_bob', 'bob');
+  const bob = create('PA_bob', 'bob', 'PA_alice', 'alice');
+  return { alice, bob };
+}
+
+describe('LocalParticipant rpc', () => {
+  it('responds with the result of the method handler', async () => {
+    const { alice, bob } = createParticipants();
+    bob.registerMethod(
+      'greet',
+      ({ callerIdentity, payload }) => `hello ${callerIdentity}, ${payload}`,
+    );
+
+    await expect(alice.performRpc('bob', 'greet', 'how are you?')).resolves.toBe(
+      'hello alice, how are you?',
+    );
+  });
+
+  it('fails calls of methods the recipient has not registered', async () => {
+    const { alice, bob } = createParticipants();
+    bob.registerMethod('greet', () => 'hello');
+    bob.unregisterMethod('greet');
+
+    await expect(alice.performRpc('bob', 'greet', '')).rejects.toMatchObject({
+      reason: RpcErrorReason.UnsupportedMethod,
+    });
+  });
+
+  it('passes on errors thrown as RpcError only', async () => {
+    const { alice, bob } = createParticipants();
+    bob.registerMethod('strict', () => {
+      throw new RpcError(RpcErrorReason.ApplicationError, 'not allowed');
+    });
+    bob.registerMethod('broken', () => {
+      throw new Error('internal details');
+    });
+
+    await expect(alice.performRpc('bob', 'strict', '')).rejects.toMatchObject({
+      reason: RpcErrorReason.ApplicationError,
+      message: 'not allowed',
+    });
+    const error = await alice.performRpc('bob', 'broken', '').catch((e) => e);
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error.message).not.toContain('internal details');
+  });
+
+  it('fails calls with reasons it does not know as application errors', async () => {
+    const { alice, bob } = createParticipants();
+    bob.registerMethod('newer', () => {
+      throw new RpcError('rateLimited' as RpcErrorReason, 'too many calls');
+    });
+
+    await expect(alice.performRpc('bob', 'newer', '')).rejects.toMatchObject({
+      reason: RpcErrorReason.ApplicationError,
+      message: 'too many calls',
+    });
+  });
+
+  it('times out when the recipient does not respond', async () => {
+    const { alice, bob } = createParticipants();
+    bob.registerMethod('slow', () => new Promise(() => {}));
+
+    await expect(alice.performRpc('bob', 'slow', '', 10)).rejects.toMatchObject({
+      reason: RpcErrorReason.Timeout,
+    });
+  });
+
+  it('times out while the request is still being sent', async () => {
+    const engine = Object.assign(new EventEmitter(), {
+      client: {},
+      sendDataPacket: jest.fn(() => new Promise(() => {})),
+    }) as unknown as RTCEngine;
+    const alice = new LocalParticipant('PA_alice', 'alice', engine, {} as any);
+    alice.identityToSid = new Map([['bob', 'PA_bob']]);
+
+    await expect(alice.performRpc('bob', 'slow', '', 10)).rejects.toMatchObject({
+      reason: RpcErrorReason.Timeout,
+    });
+  });
+
+  it('fails calls of recipients that are not in the room or leave', async () => {
+    const { alice, bob } = createParticipants();
+    bob.registerMethod('slow', () => new Promise(() => {}));
+
+    await expect(alice.performRpc('carol', 'slow', '')).rejects.toMatchObject({
+      reason: RpcErrorReason.RecipientDisconnected,
+    });
+    const response = alice.performRpc('bob', 'slow', '');
+    await Promise.resolve();
+    alice.rejectPendingRpcs('bob');
+    await expect(response).rejects.toMatchObject({
+      reason: RpcErrorReason.RecipientDisconnected,
+    });
+  });
+});
+
+describe('LocalParticipant data', () => {
+  it('does not send data in plain text while the key provider has no key', async () => {
+    const keyProvider = new BaseKeyProvider();
+    const engine = Object.assign(new EventEmitter(), {
+      client: {},
+      sendDataPacket: jest.fn(async () => {}),
+    }) as unknown as RTCEngine;
+    const participant = new LocalParticipant('PA_alice', 'alice', engine, {
+      e2eeKeyProvider: keyProvider,
+    } as any);
+    participant.dataCryptor = new DataCryptor(
+      (identity, keyIndex) =>
+        keyProvider.getKeys(identity).find((info) => info.keyIndex === keyIndex)?.key,
+      () => ({ salt: 'RM_test', iterations: 1000 }),
+      () => true,
+    );
+
+    await expect(
+      participant.publishData(new Uint8Array([1]), DataPacket_Kind.RELIABLE),
+    ).rejects.toMatchObject({ reason: EncryptionErrorReason.MissingKey, keyIndex: 0 });
+    expect(engine.sendDataPacket).not.toHaveBeenCalled();
+
+    keyProvider.setKey('alice', new Uint8Array(32).fill(1));
+    await participant.publishData(new Uint8Array([1]), DataPacket_Kind.RELIABLE);
+    expect(engine.sendDataPacket).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('LocalParticipant e2ee', () => {
+  let uninstall: () => void;
+
+  beforeAll(() => {
+    uninstall = installMockWebRTC();
+  });
+
+  afterAll(() => {
+    uninstall();
+  });
+
+  it('sends frames in the clear while the password is removed and encrypts them again', async () => {
+    // a sender whose encoded streams can only be created once, like in browsers
+    const input = new TransformStream<EncodedFrame, EncodedFrame>();
+    const sent: string[] = [];
+    const createEncodedStreams = jest.fn(() => {
+      if (createEncodedStreams.mock.calls.length > 1) {
+        throw new DOMException('encoded streams already created', 'InvalidStateError');
+      }
+      return {
+        readable: input.readable,
+        writable: new WritableStream<EncodedFrame>({
+          write: (frame) => {
+            sent.push(new TextDecoder().decode(frame.data));
+          },
+        }),
+      };
+    });
+    const writer = input.writable.getWriter();
+    const send = async (text: string) => {
+      await writer.write({ data: new TextEncoder().encode(text).buffer } as EncodedFrame);
+      // let the frame propagate through the pipeline
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    };
+
+    const engine = Object.assign(new EventEmitter(), { client: {} }) as unknown as RTCEngine;
+    const participant = new LocalParticipant('PA_alice', 'alice', engine, {} as any);
+    const track = new LocalAudioTrack(
+      new MockCapturedMediaStreamTrack('audio') as unknown as MediaStreamTrack,
+    );
+    track.sid = 'TR_audio';
+    track.sender = { track: { kind: 'audio' }, createEncodedStreams } as unknown as RTCRtpSender;
+    participant.tracks.set(
+      track.sid,
+      new LocalTrackPublication(
+        Track.Kind.Audio,
+        TrackInfo.fromPartial({ sid: track.sid, encryption: Encryption_Type.GCM }),
+        track,
+      ),
+    );
+    const worker = new E2EEWorker();
+    const postMessage = jest.spyOn((worker as any).worker, 'postMessage');
+    /** the worker's part of the last encode request, encrypting frames by upper-casing them */
+    const runWorker = () => {
+      const { readable, writable } = postMessage.mock.calls
+        .map(([request]) => request as { operation: string } & EncodedStreams)
+        .filter(({ operation }) => operation === 'encode')
+        .pop()!;
+      readable
+        .pipeThrough(
+          new TransformStream<EncodedFrame, EncodedFrame>({
+            transform: (frame, controller) => {
+              const text = new TextDecoder().decode(frame.data).toUpperCase();
+              controller.enqueue({ ...frame, data: new TextEncoder().encode(text).buffer });
+            },
+          }),
+        )
+        .pipeTo(writable)
+        .catch(() => {});
+    };
+    participant.setE2EEWorker(worker);
+
+    // the mock worker never acknowledges the keys
+    participant.updatePassword('first').catch(() => {});
+    runWorker();
+    await send('encrypted');
+    participant.updatePassword(undefined).catch(() => {});
+    await send('clear');
+    participant.updatePassword('second').catch(() => {});
+    runWorker();
+    await send('encrypted again');
+
+    expect(createEncodedStreams).toHaveBeenCalledTimes(1);
+    expect(track.encryptionState).toBe(TrackEncryptionState.Pending);
+    expect(sent).toEqual(['ENCRYPTED', 'clear', 'ENCRYPTED AGAIN']);
+    worker.terminate();
+  });
+});
@@ -1,6 +1,13 @@
 import 'webrtc-adapter';
+import { Encryption_Type } from '../../api/protocolExtensions';
+import { KEY_RING_SIZE } from '../../e2ee/constants';
+import type DataCryptor from '../../e2ee/DataCryptor';
+import type E2EEWorker from '../../e2ee/E2EEWorker';
+import type { KeyInfo } from '../../e2ee/KeyProvider';
+import { E2EEFrameFormat } from '../../e2ee/types';
 import log from '../../logger';
 import type { InternalRoomOptions } from '../../options';
+import type { DataChunk, DataEnvelope, RpcRequest, RpcResponse } from '../../proto/livekit_client';
 import {
   DataPacket,
   DataPacket_Kind,
@@ -15,9 +22,19 @@ import {
   TrackPublishedResponse,
   TrackUnpublishedResponse,
 } from '../../proto/livekit_rtc';
-import { TrackInvalidError, UnexpectedConnectionState } from '../errors';
+import { encodeDataEnvelope } from '../dataEnvelope';
+import { DATA_CHUNK_SIZE, dataMessageInfo } from '../dataMessages';
+import {
+  EncryptionError,
+  EncryptionErrorReason,
+  RpcError,
+  RpcErrorReason,
+  TrackInvalidError,
+  UnexpectedConnectionState,
+} from '../errors';
 import { EngineEvent, ParticipantEvent, TrackEvent } from '../events';
 import type RTCEngine from '../RTCEngine';
+import FramePipeline from '../track/FramePipeline';
 import LocalAudioTrack from '../track/LocalAudioTrack';
 import LocalTrack from '../track/LocalTrack';
 import LocalTrackPublication from '../track/LocalTrackPublication';
@@ -33,8 +50,10 @@ import {
   VideoCaptureOptions,
 } from '../track/options';
 import { Track } from '../track/Track';
+import type { FrameTransform } from '../track/types';
 import { constraintsForOptions, mergeDefaultOptions } from '../track/utils';
-import { isFireFox, isSafari, isWeb, supportsAV1 } from '../utils';
+import type { RpcHandler, SendDataMessageOptions } from '../types';
+import { createRandomId, isFireFox, isSafari, isWeb, supportsAV1 } from '../utils';
 import Participant from './Participant';
 import { ParticipantTrackPermission, trackPermissionToProto } from './ParticipantTrackPermission';
 import {
@@ -44,6 +63,19 @@ import {
 } from './publishUtils';
 import RemoteParticipant from './RemoteParticipant';
 
+const defaultRpcResponseTimeout = 10_000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+interface PendingRpc {
+  destinationIdentity: string;
+  resolve: (payload: string) => void;
+  /** fails the call with an [[RpcError]], or the error sending the request failed with */
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
 export default class LocalParticipant extends Participant {
   audioTracks: Map<string, LocalTrackPublication>;
 
@@ -55,6 +87,42 @@ export default class LocalParticipant extends Participant {
   /** @internal */
   engine: RTCEngine;
 
+  /** password the local participant encrypts its tracks with */
+  e2eePassword?: string;
+
+  /** index of the key in the local participant's key ring that tracks are encrypted with */
+  e2eeKeyIndex: number = 0;
+
+  /**
+   * encrypts data packets when e2e encryption is enabled
+   * @internal
+   */
+  dataCryptor?: DataCryptor;
+
+  /**
+   * frame transforms registered on the room, shared with it
+   * @internal
+   */
+  frameTransforms: FrameTransform[] = [];
+
+  /**
+   * room scoped worker encrypting the local participant's tracks, set while e2e encryption
+   * is enabled
+   * @internal
+   */
+  e2eeWorker?: E2EEWorker;
+
+  /**
+   * sids of the remote participants by identity, shared with the room
+   * @internal
+   */
+  identityToSid?: Map<string, string>;
+
+  private rpcHandlers = new Map<string, RpcHandler>();
+
+  /** calls waiting for their response, by request ID */
+  private pendingRpcs = new Map<string, PendingRpc>();
+
   private pendingPublishing = new Set<Track.Source>();
 
   private cameraError: Error | undefined;
@@ -76,6 +144,7 @@ export default class LocalParticipant extends Participant {
     this.tracks = new Map();
     this.engine = engine;
     this.roomOptions = options;
+    this.e2eePassword = options.e2ePassword;
     this.setupEngine(engine);
   }
 
@@ -124,7 +193,6 @@ export default class LocalParticipant extends Participant {
 
     this.engine
       .on(EngineEvent.Connected, this.updateTrackSubscriptionPermissions)
-      .on(EngineEvent.Restarted, this.updateTrackSubscriptionPermissions)
       .on(EngineEvent.Resumed, this.updateTrackSubscriptionPermissions);
   }
 
@@ -409,23 +477,165 @@ export default class LocalParticipant extends Participant {
     return localTracks;
   }
 
-  updatePassword(password: string) {
-    if (this.roomOptions?.e2ePassword !== password) {
-      if (this.roomOptions) {
-        this.roomOptions.e2ePassword = password;
-
-        const {
-          roomOptions: { e2ePassword },
-        } = this;
+  /**
+   * hands the local participant's keys to the room's e2ee worker and starts encrypting
+   * published tracks with it, `undefined` stops encrypting them
+   * @internal
+   */
+  setE2EEWorker(worker: E2EEWorker | undefined) {
+    if (this.e2eeWorker === worker) {
+      return;
+    }
+    this.tracks.forEach(({ track }) => track?.stopEncryption());
+    this.e2eeWorker = worker;
+    if (!worker) {
+      return;
+    }
+    const keys = this.roomOptions.e2eeKeyProvider?.getKeys(this.identity) ?? [];
+    if (this.e2eePassword) {
+      worker.setPassword(this.identity, this.e2eePassword);
+    }
+    keys.forEach((info) => worker.setKey(this.identity, info));
+    if (this.e2eePassword || keys.length > 0) {
+      worker.setKeyIndex(this.identity, this.e2eeKeyIndex);
+    }
+    this.tracks.forEach(({ track }) => track && this.initializeTrackEncryption(track));
+  }
 
-        if (e2ePassword) {
-          this.tracks.forEach((trackPublication) => {
-            trackPublication.track?.setPassword(e2ePassword);
-            trackPublication.track?.unmute();
-          });
-        }
+  /**
+   * updates the password used to encrypt the local participant's tracks.
+   * Passing `undefined` stops encrypting them.
+   * Subscribers only decrypt tracks that were advertised as encrypted when they were published,
+   * tracks published before e2ee was enabled have to be republished.
+   * @returns a promise resolving once the e2ee worker installed the keys of the password
+   */
+  async updatePassword(password: string | undefined) {
+    if (this.e2eePassword === password) {
+      return;
+    }
+    this.e2eePassword = password;
+    // a new password resets the key ring
+    this.e2eeKeyIndex = 0;
+    if (password === undefined) {
+      const keysRemoved = this.e2eeWorker?.removeKeys(this.identity);
+      if (!this.roomOptions.e2eeKeyProvider) {
+        // the worker drops frames of encrypted tracks without a key until they're removed from it
+        this.tracks.forEach(({ track }) => track?.stopEncryption());
       }
+      await keysRemoved;
+      return;
+    }
+    // tracks that are already encrypted switch to the new key ring once its first key is
+    // derived, subscribers keep the previous one for a grace period
+    const passwordSet = this.e2eeWorker?.setPassword(this.identity, password);
+    this.tracks.forEach(({ track }) => track && this.initializeTrackEncryption(track));
+    await passwordSet;
+  }
+
+  /**
+   * installs a key from the room's KeyProvider and encrypts published tracks with it
+   * @internal
+   */
+  async updateKey(info: KeyInfo) {
+    this.e2eeKeyIndex = info.keyIndex;
+    const keySet = this.e2eeWorker?.setKey(this.identity, info);
+    this.tracks.forEach(({ track }) => track && this.initializeTrackEncryption(track));
+    await keySet;
+  }
+
+  /**
+   * drops the keys of the local participant, tracks are only encrypted again
+   * once a new key or password is set
+   * @internal
+   */
+  removeKeys() {
+    this.e2eeKeyIndex = 0;
+    this.e2eeWorker?.removeKeys(this.identity);
+    if (this.e2eePassword) {
+      this.e2eeWorker?.setPassword(this.identity, this.e2eePassword);
+    }
+  }
+
+  /**
+   * encryption advertised to subscribers when publishing, they only decrypt tracks
+   * that are advertised as encrypted
+   */
+  private get e2eeEncryptionType(): Encryption_Type {
+    if (!this.e2eeWorker || !(this.e2eePassword || this.roomOptions.e2eeKeyProvider)) {
+      return Encryption_Type.NONE;
+    }
+    return this.roomOptions.e2eeFrameFormat === E2EEFrameFormat.Trailer
+      ? Encryption_Type.GCM
+      : Encryption_Type.CUSTOM;
+  }
+
+  /**
+   * runs the frames of a newly published track through the room's frame transforms,
+   * encryption is added to the same pipeline
+   */
+  private setupFrameTransforms(track: LocalTrack) {
+    if (this.frameTransforms.length === 0 || !track.sender || !track.sid) {
+      return;
+    }
+    const pipeline = FramePipeline.create(track.sender, this.frameTransforms, {
+      direction: 'send',
+      participantIdentity: this.identity,
+      trackSid: track.sid,
+      kind: track.kind,
+    });
+    if (!pipeline) {
+      log.warn('encoded streams are not supported, frame transforms are skipped', {
+        trackSid: track.sid,
+      });
+    }
+  }
+
+  private initializeTrackEncryption(track: LocalTrack) {
+    if (
+      !this.e2eeWorker ||
+      !(this.e2eePassword || this.roomOptions.e2eeKeyProvider) ||
+      track.e2eeParticipantId !== undefined
+    ) {
+      return;
+    }
+    const publication = track.sid ? this.tracks.get(track.sid) : undefined;
+    if (publication?.trackInfo?.encryption === Encryption_Type.NONE) {
+      // the track is encrypted regardless, sending it in the clear is worse than subscribers
+      // not being able to decrypt it
+      log.warn(
+        'encrypting a track published before e2ee was enabled, republish it for subscribers to decrypt it',
+        {
+          trackSid: track.sid,
+        },
+      );
+    }
+    track.frameFormatOptions = {
+      frameFormat: this.roomOptions.e2eeFrameFormat,
+      cipherSuite: this.roomOptions.e2eeCipherSuite,
+    };
+    track.initializeEncryption(this.e2eeWorker, this.identity);
+  }
+
+  /**
+   * Switches encryption of all published tracks to the next key in the local participant's
+   * key ring. Receivers follow along as soon as they see frames encrypted with the new key.
+   * When keys are supplied by a KeyProvider, the next key has to be set on it beforehand.
+   * @returns the key index used for encryption from now on, undefined if there's no next key
+   */
+  rotateKey(): number | undefined {
+    const nextKeyIndex = (this.e2eeKeyIndex + 1) % KEY_RING_SIZE;
+    const hasNextKey =
+      !!this.e2eePassword ||
+      !!this.roomOptions.e2eeKeyProvider
+        ?.getKeys(this.identity)
+        .some((info) => info.keyIndex === nextKeyIndex);
+    if (!hasNextKey) {
+      log.warn('cannot rotate key, no key set for the next index', { keyIndex: nextKeyIndex });
+      return undefined;
     }
+    this.e2eeKeyIndex = nextKeyIndex;
+    this.e2eeWorker?.setKeyIndex(this.identity, nextKeyIndex);
+    return nextKeyIndex;
   }
 
   /**
@@ -541,6 +751,7 @@ export default class LocalParticipant extends Participant {
       disableDtx: !(opts.dtx ?? true),
       stereo: isStereo,
       disableRed: !(opts.red ?? true),
+      encryption: this.e2eeEncryptionType,
     });
 
     // compute encodings and layers for video
@@ -615,9 +826,8 @@ export default class LocalParticipant extends Participant {
     // store RTPSender
     track.sender = await this.engine.createSender(track, opts, encodings);
 
-    if (this.roomOptions?.e2ePassword) {
-      track.initializeEncryption(this.roomOptions?.e2ePassword);
-    }
+    this.setupFrameTransforms(track);
+    this.initializeTrackEncryption(track);
 
     if (track.codec === 'av1' && encodings && encodings[0]?.maxBitrate) {
       this.engine.publisher.setTrackCodecBitrate(
@@ -691,6 +901,7 @@ export default class LocalParticipant extends Participant {
       muted: track.isMuted,
       source: Track.sourceToProto(track.source),
       sid: track.sid,
+      encryption: this.e2eeEncryptionType,
       simulcastCodecs: [
         {
           codec: opts.videoCodec,
@@ -747,6 +958,7 @@ export default class LocalParticipant extends Participant {
     if (stopOnUnpublish) {
       track.stop();
     }
+    track.stopEncryption();
 
     if (
       this.engine.publisher &&
@@ -813,11 +1025,234 @@ export default class LocalParticipant extends Participant {
    * For data that should arrive as quickly as possible, but you are ok with dropped
    * packets, use Lossy.
    * @param destination the participants who will receive the message
+   *
+   * When e2e encryption is enabled, the payload is encrypted with the local participant's
+   * current key. Publishing fails with an [[EncryptionError]] if that key can't be used for data,
+   * or if there's no key at the current index of the room's [[KeyProvider]]
    */
   async publishData(
     data: Uint8Array,
     kind: DataPacket_Kind,
     destination?: RemoteParticipant[] | string[],
+  ) {
+    await this.sendUserPacket(data, kind, destination);
+  }
+
+  /**
+   * Sends a message of any size to the room, e.g. a file. The message is split into chunks
+   * that are sent over the reliable data channel one after the other, waiting for the
+   * channel to drain whenever it has buffered enough.
+   *
+   * Receivers get [[RoomEvent.DataMessageProgress]] for every chunk and
+   * [[RoomEvent.DataMessageReceived]] once the message is complete. The progress of sending
+   * is emitted as [[ParticipantEvent.DataMessageProgress]].
+   *
+   * When e2e encryption is enabled the chunks are encrypted like [[publishData]] payloads,
+   * the message's name and MIME type are not
+   *
+   * @returns the ID of the message
+   */
+  async sendDataMessage(data: Uint8Array | Blob, options: SendDataMessageOptions = {}) {
+    const size = data instanceof Uint8Array ? data.byteLength : data.size;
+    const chunk: DataChunk = {
+      messageId: options.id ?? createRandomId(),
+      offset: 0,
+      totalSize: size,
+      name: options.name ?? (data as Partial<File>).name ?? '',
+      mimeType: options.mimeType ?? (data as Partial<Blob>).type ?? '',
+    };
+    const info = dataMessageInfo(chunk);
+
+    do {
+      const end = Math.min(chunk.offset + DATA_CHUNK_SIZE, size);
+      const payload =
+        data instanceof Uint8Array
+          ? data.subarray(chunk.offset, end)
+          : new Uint8Array(await data.slice(chunk.offset, end).arrayBuffer());
+      await this.engine.waitForBufferedAmountLow(DataPacket_Kind.RELIABLE);
+      await this.sendUserPacket(payload, DataPacket_Kind.RELIABLE, options.destination, {
+        $case: 'chunk',
+        chunk: {
+          ...chunk,
+          // the first chunk describes the message
+          name: chunk.offset === 0 ? chunk.name : '',
+          mimeType: chunk.offset === 0 ? chunk.mimeType : '',
+        },
+      });
+      chunk.offset = end;
+      this.emit(ParticipantEvent.DataMessageProgress, info, end);
+    } while (chunk.offset < size);
+
+    return info.id;
+  }
+
+  /**
+   * Registers the handler of a method other participants can call with [[performRpc]].
+   * Registering a method again replaces its handler
+   */
+  registerMethod(method: string, handler: RpcHandler) {
+    this.rpcHandlers.set(method, handler);
+  }
+
+  unregisterMethod(method: string) {
+    this.rpcHandlers.delete(method);
+  }
+
+  /**
+   * Calls a method another participant registered with [[registerMethod]]. The request and
+   * the response are sent over the reliable data channel and each have to fit into a single
+   * data packet. When e2e encryption is enabled their payloads are encrypted like
+   * [[publishData]] payloads.
+   *
+   * @param timeout time in ms to wait for the response once the request has been sent
+   * @returns the payload of the response
+   * @throws [[RpcError]] when the call timed out, the recipient doesn't support the method or
+   * isn't in the room anymore, or its handler failed. Errors sending the request, e.g. an
+   * [[EncryptionError]], are thrown as they are
+   */
+  async performRpc(
+    destinationIdentity: string,
+    method: string,
+    payload: string,
+    timeout: number = defaultRpcResponseTimeout,
+  ): Promise<string> {
+    const destinationSid = this.identityToSid?.get(destinationIdentity);
+    if (!destinationSid) {
+      throw new RpcError(
+        RpcErrorReason.RecipientDisconnected,
+        `${destinationIdentity} is not in the room`,
+      );
+    }
+
+    const id = createRandomId();
+    // registered before sending, the response can arrive before sending returns. The time
+    // sending takes counts towards the timeout
+    const response = new Promise<string>((resolve, reject) => {
+      this.pendingRpcs.set(id, {
+        destinationIdentity,
+        resolve,
+        reject,
+        timeout: setTimeout(() => {
+          this.pendingRpcs.delete(id);
+          reject(new RpcError(RpcErrorReason.Timeout, `${method} call timed out`));
+        }, timeout),
+      });
+    });
+
+    this.sendUserPacket(encoder.encode(payload), DataPacket_Kind.RELIABLE, [destinationSid], {
+      $case: 'rpcRequest',
+      rpcRequest: { id, method },
+    }).catch((error) => {
+      // unless the call timed out while sending
+      const pending = this.pendingRpcs.get(id);
+      if (pending) {
+        clearTimeout(pending.timeout);
+        this.pendingRpcs.delete(id);
+        pending.reject(error);
+      }
+    });
+    return response;
+  }
+
+  /**
+   * calls the handler of a request and sends its response to the caller
+   * @internal
+   */
+  async handleRpcRequest(
+    callerSid: string,
+    caller: RemoteParticipant | undefined,
+    { id, method }: RpcRequest,
+    payload: Uint8Array,
+  ) {
+    let result = '';
+    let error: RpcError | undefined;
+    const handler = this.rpcHandlers.get(method);
+    if (!handler) {
+      error = new RpcError(RpcErrorReason.UnsupportedMethod, `method ${method} is not supported`);
+    } else {
+      try {
+        result = await handler({
+          requestId: id,
+          callerIdentity: caller?.identity ?? '',
+          payload: decoder.decode(payload),
+        });
+      } catch (e) {
+        log.warn('rpc handler failed', { method, error: e });
+        error =
+          e instanceof RpcError ? e : new RpcError(RpcErrorReason.ApplicationError, 'rpc failed');
+      }
+    }
+
+    try {
+      await this.sendUserPacket(encoder.encode(result), DataPacket_Kind.RELIABLE, [callerSid], {
+        $case: 'rpcResponse',
+        rpcResponse: {
+          requestId: id,
+          errorReason: error?.reason ?? '',
+          errorMessage: error?.message ?? '',
+        },
+      });
+    } catch (e) {
+      log.warn('could not send rpc response', { method, error: e });
+    }
+  }
+
+  /**
+   * settles the call a response belongs to, responses of other participants than the one
+   * that was called are ignored
+   * @internal
+   */
+  handleRpcResponse(
+    responder: RemoteParticipant | undefined,
+    { requestId, errorReason, errorMessage }: RpcResponse,
+    payload: Uint8Array,
+  ) {
+    const pending = this.pendingRpcs.get(requestId);
+    if (!pending || pending.destinationIdentity !== responder?.identity) {
+      return;
+    }
+    this.pendingRpcs.delete(requestId);
+    clearTimeout(pending.timeout);
+    if (errorReason) {
+      // reasons added by newer clients aren't known here
+      const reason = (Object.values(RpcErrorReason) as string[]).includes(errorReason)
+        ? (errorReason as RpcErrorReason)
+        : RpcErrorReason.ApplicationError;
+      pending.reject(new RpcError(reason, errorMessage || undefined));
+    } else {
+      pending.resolve(decoder.decode(payload));
+    }
+  }
+
+  /**
+   * fails the calls waiting for a participant that left, or for everyone when the room
+   * was left
+   * @internal
+   */
+  rejectPendingRpcs(destinationIdentity?: string) {
+    this.pendingRpcs.forEach((pending, requestId) => {
+      if (
+        destinationIdentity !== undefined &&
+        pending.destinationIdentity !== destinationIdentity
+      ) {
+        return;
+      }
+      this.pendingRpcs.delete(requestId);
+      clearTimeout(pending.timeout);
+      pending.reject(
+        new RpcError(
+          RpcErrorReason.RecipientDisconnected,
+          `${pending.destinationIdentity} left before responding`,
+        ),
+      );
+    });
+  }
+
+  private async sendUserPacket(
+    data: Uint8Array,
+    kind: DataPacket_Kind,
+    destination?: RemoteParticipant[] | string[],
+    value?: DataEnvelope['value'],
   ) {
     const dest: string[] = [];
     if (destination !== undefined) {
@@ -830,13 +1265,34 @@ export default class LocalParticipant extends Participant {
       });
     }
 
+    const encrypted = await this.dataCryptor?.encrypt(this.identity, this.e2eeKeyIndex, data);
+    if (!encrypted && this.dataCryptor?.isEnabled) {
+      // receivers drop plain data while the room uses e2ee, it mustn't go out until there's a key
+      throw new EncryptionError(
+        EncryptionErrorReason.MissingKey,
+        this.identity,
+        undefined,
+        this.e2eeKeyIndex,
+        `no key to encrypt data with key index ${this.e2eeKeyIndex}`,
+      );
+    }
+    // plain payloads are sent as they are, for clients that don't know envelopes
+    const payload =
+      encrypted || value
+        ? encodeDataEnvelope({
+            payload: encrypted ?? data,
+            encryption: encrypted ? Encryption_Type.GCM : Encryption_Type.NONE,
+            value,
+          })
+        : data;
+
     const packet: DataPacket = {
       kind,
       value: {
         $case: 'user',
         user: {
           participantSid: this.sid,
-          payload: data,
+          payload,
           destinationSids: dest,
         },
       },
@@ -868,9 +1324,21 @@ export default class LocalParticipant extends Participant {
   ) {
     this.participantTrackPermissions = participantTrackPermissions;
     this.allParticipantsAllowedToSubscribe = allParticipantsAllowed;
-    if (this.engine.client.isConnected) {
-      this.updateTrackSubscriptionPermissions();
-    }
+    // kept by the request journal until connected
+    this.updateTrackSubscriptionPermissions();
+  }
+
+  /**
+   * @internal
+   * sends the subscription permissions to a restarted session, with the sids its tracks were
+   * republished with instead of the sids of the previous session
+   */
+  restoreTrackSubscriptionPermissions(republishedSids: Map<string, string>) {
+    this.participantTrackPermissions = this.participantTrackPermissions.map((permission) => ({
+      ...permission,
+      allowedTrackSids: permission.allowedTrackSids?.map((sid) => republishedSids.get(sid) ?? sid),
+    }));
+    this.updateTrackSubscriptionPermissions();
   }
 
   /** @internal */
@@ -7,12 +7,15 @@ import {
   ParticipantInfo,
   ParticipantPermission,
 } from '../../proto/livekit_models';
+import type { TrackEncryptionState } from '../../e2ee/types';
+import type { EncryptionError } from '../errors';
 import { ParticipantEvent, TrackEvent } from '../events';
 import type LocalTrackPublication from '../track/LocalTrackPublication';
 import type RemoteTrack from '../track/RemoteTrack';
 import type RemoteTrackPublication from '../track/RemoteTrackPublication';
 import { Track } from '../track/Track';
 import type { TrackPublication } from '../track/TrackPublication';
+import type { DataMessage, DataMessageInfo } from '../types';
 
 export enum ConnectionQuality {
   Excellent = 'excellent',
@@ -215,6 +218,14 @@ export default class Participant extends (EventEmitter as new () => TypedEmitter
       this.emit(ParticipantEvent.TrackUnmuted, publication);
     });
 
+    publication.on(TrackEvent.EncryptionError, (error: EncryptionError) => {
+      this.emit(ParticipantEvent.EncryptionError, error, publication);
+    });
+
+    publication.on(TrackEvent.EncryptionStateChanged, (state: TrackEncryptionState) => {
+      this.emit(ParticipantEvent.TrackEncryptionStateChanged, publication, state);
+    });
+
     const pub = publication;
     if (pub.track) {
       pub.track.sid = publication.trackSid;
@@ -246,6 +257,8 @@ export type ParticipantEventCallbacks = {
   localTrackUnpublished: (publication: LocalTrackPublication) => void;
   participantMetadataChanged: (prevMetadata: string | undefined, participant?: any) => void;
   dataReceived: (payload: Uint8Array, kind: DataPacket_Kind) => void;
+  dataMessageProgress: (info: DataMessageInfo, transferredBytes: number) => void;
+  dataMessageReceived: (message: DataMessage) => void;
   isSpeakingChanged: (speaking: boolean) => void;
   connectionQualityChanged: (connectionQuality: ConnectionQuality) => void;
   trackStreamStateChanged: (
@@ -262,4 +275,6 @@ export type ParticipantEventCallbacks = {
     publication: RemoteTrackPublication,
     status: TrackPublication.SubscriptionStatus,
   ) => void;
+  encryptionError: (error: EncryptionError, publication: TrackPublication) => void;
+  trackEncryptionStateChanged: (publication: TrackPublication, state: TrackEncryptionState) => void;
 };
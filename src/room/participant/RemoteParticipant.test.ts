@@ -0,0 +1,158 @@
+import { Encryption_Type } from '../../api/protocolExtensions';
+import type { SignalClient } from '../../api/SignalClient';
+import type E2EEWorker from '../../e2ee/E2EEWorker';
+import { BaseKeyProvider } from '../../e2ee/KeyProvider';
+import log, { setLogLevel } from '../../logger';
+import { ParticipantInfo, TrackInfo } from '../../proto/livekit_models';
+import { E2EEWorkerError } from '../errors';
+import type RemoteTrack from '../track/RemoteTrack';
+import RemoteParticipant from './RemoteParticipant';
+
+setLogLevel('silent');
+
+/** a request the worker failed, handled like the worker's own request promises */
+function failedRequest(operation: string) {
+  const request = Promise.reject(new E2EEWorkerError(operation, 'e2ee worker terminated'));
+  request.catch(() => {});
+  return request;
+}
+
+describe('RemoteParticipant e2ee', () => {
+  it('logs password updates the worker fails to apply', async () => {
+    const warn = jest.spyOn(log, 'warn');
+    const participant = new RemoteParticipant({} as SignalClient, 'PA_bob', 'bob');
+    participant.setE2EEWorker({
+      setPassword: jest.fn(() => failedRequest('setPassword')),
+    } as unknown as E2EEWorker);
+
+    participant.updateInfo({
+      ...ParticipantInfo.fromPartial({ sid: 'PA_bob', identity: 'bob' }),
+      e2eePassword: 'password',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(warn).toHaveBeenCalledWith(
+      'could not update e2ee password',
+      expect.objectContaining({ error: expect.any(E2EEWorkerError) }),
+    );
+  });
+
+  it('sends the password once when joining', () => {
+    // participants whose tracks arrive before their info don't have an identity yet
+    const participant = new RemoteParticipant({} as SignalClient, 'PA_bob', '');
+    const worker = {
+      setPassword: jest.fn(() => Promise.resolve()),
+    } as unknown as E2EEWorker;
+    participant.setE2EEWorker(worker);
+
+    participant.updateInfo({
+      ...ParticipantInfo.fromPartial({ sid: 'PA_bob', identity: 'bob' }),
+      e2eePassword: 'password',
+    });
+
+    expect(worker.setPassword).toHaveBeenCalledTimes(1);
+    expect(worker.setPassword).toHaveBeenCalledWith('bob', 'password');
+  });
+
+  describe('decrypting tracks', () => {
+    /** a participant of an e2ee room publishing a subscribed track encrypted as `encryption` */
+    function publishTrack(encryption?: Encryption_Type) {
+      const participant = new RemoteParticipant({} as SignalClient, 'PA_bob', 'bob');
+      participant.setE2EEWorker({
+        setPassword: jest.fn(() => Promise.resolve()),
+        setKey: jest.fn(() => Promise.resolve()),
+        removeKeys: jest.fn(() => Promise.resolve()),
+      } as unknown as E2EEWorker);
+      participant.updateInfo(
+        ParticipantInfo.fromPartial({
+          sid: 'PA_bob',
+          identity: 'bob',
+          tracks: [TrackInfo.fromPartial({ sid: 'TR_video', encryption })],
+        }),
+      );
+      const track = {
+        initializeEncryption: jest.fn(),
+        stopEncryption: jest.fn(),
+      } as unknown as RemoteTrack;
+      participant.getTrackPublication('TR_video')!.track = track;
+      return { participant, track };
+    }
+
+    /** encryption of a track the server doesn't pass on, as decoded from its track info */
+    const unrelayedEncryption = TrackInfo.decode(
+      TrackInfo.encode(TrackInfo.fromPartial({ sid: 'TR_video' })).finish(),
+    ).encryption;
+
+    it('does not decrypt tracks published without encryption', async () => {
+      const { participant, track } = publishTrack(Encryption_Type.NONE);
+      participant.setEncryptionRelayed(true);
+
+      await participant.updatePassword('password');
+
+      expect(track.initializeEncryption).not.toHaveBeenCalled();
+    });
+
+    it('decrypts tracks published with encryption', async () => {
+      const { participant, track } = publishTrack(Encryption_Type.GCM);
+
+      await participant.updatePassword('password');
+
+      expect(track.initializeEncryption).toHaveBeenCalledWith(participant.e2eeWorker, 'bob');
+    });
+
+    it('decrypts tracks of servers that do not pass on how they are encrypted', async () => {
+      const { participant, track } = publishTrack(unrelayedEncryption);
+
+      await participant.updatePassword('password');
+
+      expect(track.initializeEncryption).toHaveBeenCalledWith(participant.e2eeWorker, 'bob');
+    });
+
+    it('stops decrypting unencrypted tracks once the server is known to pass it on', async () => {
+      const { participant, track } = publishTrack(unrelayedEncryption);
+      await participant.updatePassword('password');
+      (track as { e2eeParticipantId?: string }).e2eeParticipantId = 'bob';
+
+      participant.setEncryptionRelayed(true);
+
+      expect(track.stopEncryption).toHaveBeenCalled();
+    });
+
+    it('stops decrypting tracks when the password is removed', async () => {
+      const { participant, track } = publishTrack(Encryption_Type.GCM);
+      await participant.updatePassword('password');
+
+      await participant.updatePassword(undefined);
+
+      expect(participant.e2eeWorker!.removeKeys).toHaveBeenCalledWith('bob');
+      expect(track.stopEncryption).toHaveBeenCalled();
+      expect(track.initializeEncryption).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the keys of the key provider when the password is removed', async () => {
+      const { participant, track } = publishTrack(Encryption_Type.GCM);
+      const keyProvider = new BaseKeyProvider();
+      keyProvider.setKey('bob', new Uint8Array(32));
+      participant.keyProvider = keyProvider;
+      await participant.updatePassword('password');
+
+      await participant.updatePassword(undefined);
+
+      expect(participant.e2eeWorker!.setKey).toHaveBeenCalledWith(
+        'bob',
+        expect.objectContaining({ keyIndex: 0 }),
+      );
+      expect(track.stopEncryption).toHaveBeenCalled();
+      expect(track.initializeEncryption).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not decrypt tracks while the room does not use e2ee', async () => {
+      const { participant, track } = publishTrack(Encryption_Type.GCM);
+      participant.setE2EEWorker(undefined);
+
+      await participant.updatePassword('password');
+
+      expect(track.initializeEncryption).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,8 +1,12 @@
 import type { SignalClient } from '../../api/SignalClient';
+import type { KeyInfo, KeyProvider } from '../../e2ee/KeyProvider';
+import type E2EEWorker from '../../e2ee/E2EEWorker';
+import type { FrameFormatOptions } from '../../e2ee/types';
 import log from '../../logger';
 import type { ParticipantInfo } from '../../proto/livekit_models';
 import type { UpdateSubscription, UpdateTrackSettings } from '../../proto/livekit_rtc';
 import { ParticipantEvent, TrackEvent } from '../events';
+import FramePipeline from '../track/FramePipeline';
 import type { AudioOutputOptions } from '../track/options';
 import RemoteAudioTrack from '../track/RemoteAudioTrack';
 import type RemoteTrack from '../track/RemoteTrack';
@@ -10,7 +14,8 @@ import RemoteTrackPublication from '../track/RemoteTrackPublication';
 import RemoteVideoTrack from '../track/RemoteVideoTrack';
 import { Track } from '../track/Track';
 import type { TrackPublication } from '../track/TrackPublication';
-import type { AdaptiveStreamSettings } from '../track/types';
+import type { AdaptiveStreamSettings, FrameTransform } from '../track/types';
+import { codecFromMimeType } from '../utils';
 import Participant, { ParticipantEventCallbacks } from './Participant';
 
 export default class RemoteParticipant extends Participant {
@@ -26,6 +31,32 @@ export default class RemoteParticipant extends Participant {
 
   e2eePassword?: string;
 
+  /** @internal */
+  keyProvider?: KeyProvider;
+
+  /**
+   * room scoped worker decrypting this participant's tracks, set while e2e encryption is enabled
+   * @internal
+   */
+  e2eeWorker?: E2EEWorker;
+
+  /** @internal */
+  frameFormatOptions?: FrameFormatOptions;
+
+  /**
+   * whether the server is known to pass on how tracks are encrypted, until then a track
+   * without an advertised encryption can't be told apart from one whose encryption the
+   * server dropped
+   * @internal
+   */
+  isEncryptionRelayed = false;
+
+  /**
+   * frame transforms registered on the room, shared with it
+   * @internal
+   */
+  frameTransforms: FrameTransform[] = [];
+
   private audioContext?: AudioContext;
 
   private audioOutput?: AudioOutputOptions;
@@ -203,16 +234,17 @@ export default class RemoteParticipant extends Participant {
 
     // set track info
     track.source = publication.source;
+    if (publication.mimeType) {
+      track.codec = codecFromMimeType(publication.mimeType);
+    }
     // keep publication's muted status
     track.isMuted = publication.isMuted;
     track.setMediaStream(mediaStream);
     track.start();
 
-    if (this.e2eePassword) {
-      track.initializeEncryption(this.e2eePassword);
-    }
-
     publication.setTrack(track);
+    this.setupFrameTransforms(track);
+    this.updateTrackEncryption(publication);
     // set participant volume on new microphone tracks
     if (
       this.volume !== undefined &&
@@ -234,23 +266,151 @@ export default class RemoteParticipant extends Participant {
     return this.tracks.get(sid);
   }
 
-  updatePassword(password: string) {
+  /**
+   * hands this participant's keys to the room's e2ee worker and starts decrypting subscribed
+   * tracks with it, `undefined` stops decrypting them
+   * @internal
+   */
+  setE2EEWorker(worker: E2EEWorker | undefined) {
+    if (this.e2eeWorker === worker) {
+      return;
+    }
+    this.tracks.forEach(({ track }) => track?.stopEncryption());
+    this.e2eeWorker = worker;
+    // keys are kept by identity, which isn't known yet for participants created without info
+    if (this.identity) {
+      this.installE2EEKeys();
+    }
+  }
+
+  private installE2EEKeys() {
+    if (!this.e2eeWorker) {
+      return;
+    }
+    if (this.e2eePassword) {
+      this.e2eeWorker.setPassword(this.identity, this.e2eePassword);
+    }
+    this.keyProvider
+      ?.getKeys(this.identity)
+      .forEach((info) => this.e2eeWorker!.setKey(this.identity, info));
+    this.tracks.forEach((publication) => this.updateTrackEncryption(publication));
+  }
+
+  /**
+   * marks the server as passing on how tracks are encrypted, tracks advertised without
+   * encryption stop being decrypted from then on
+   * @internal
+   */
+  setEncryptionRelayed(relayed: boolean) {
+    if (this.isEncryptionRelayed === relayed) {
+      return;
+    }
+    this.isEncryptionRelayed = relayed;
+    this.tracks.forEach((publication) => this.updateTrackEncryption(publication));
+  }
+
+  /**
+   * updates the password used to decrypt this participant's tracks.
+   * Passing `undefined` stops decrypting them.
+   * @returns a promise resolving once the e2ee worker installed the keys of the password
+   */
+  async updatePassword(password: string | undefined) {
     log.trace('updatePassword', { password });
-    if (this.e2eePassword !== password) {
-      this.e2eePassword = password;
-      const { e2eePassword } = this;
-      if (typeof e2eePassword !== 'undefined') {
-        this.tracks.forEach((trackPublication) => {
-          trackPublication.track?.setPassword(e2eePassword);
-          trackPublication.track?.decryptTrack();
-        });
+    if (this.e2eePassword === password) {
+      return;
+    }
+    this.e2eePassword = password;
+    if (password === undefined) {
+      // the worker drops frames of tracks it decrypts without keys, tracks are only decrypted
+      // again if the KeyProvider has keys for the participant
+      this.tracks.forEach(({ track }) => track?.stopEncryption());
+      const keysRemoved = this.e2eeWorker?.removeKeys(this.identity);
+      this.keyProvider
+        ?.getKeys(this.identity)
+        .forEach((info) => this.e2eeWorker?.setKey(this.identity, info));
+      this.tracks.forEach((publication) => this.updateTrackEncryption(publication));
+      await keysRemoved;
+      return;
+    }
+    const passwordSet = this.e2eeWorker?.setPassword(this.identity, password);
+    this.tracks.forEach((publication) => this.updateTrackEncryption(publication));
+    await passwordSet;
+  }
+
+  /**
+   * installs a key from the room's KeyProvider and starts decrypting subscribed tracks
+   * @internal
+   */
+  async updateKey(info: KeyInfo) {
+    const keySet = this.e2eeWorker?.setKey(this.identity, info);
+    this.tracks.forEach((publication) => this.updateTrackEncryption(publication));
+    await keySet;
+  }
+
+  /**
+   * drops the keys of this participant, keys derived from a password are kept
+   * @internal
+   */
+  removeKeys() {
+    this.e2eeWorker?.removeKeys(this.identity);
+    if (this.e2eePassword) {
+      this.e2eeWorker?.setPassword(this.identity, this.e2eePassword);
+    }
+  }
+
+  /**
+   * runs the frames of a newly subscribed track through the room's frame transforms,
+   * decryption is added to the same pipeline
+   */
+  private setupFrameTransforms(track: RemoteTrack) {
+    if (this.frameTransforms.length === 0 || !track.receiver || !track.sid) {
+      return;
+    }
+    const pipeline = FramePipeline.create(track.receiver, this.frameTransforms, {
+      direction: 'receive',
+      participantIdentity: this.identity,
+      trackSid: track.sid,
+      kind: track.kind,
+    });
+    if (!pipeline) {
+      log.warn('encoded streams are not supported, frame transforms are skipped', {
+        trackSid: track.sid,
+      });
+    }
+  }
+
+  /**
+   * decrypts the subscribed track of a publication unless its publisher advertises not
+   * encrypting it, so tracks of participants that don't use e2ee are played as they are.
+   * Servers that don't pass on how tracks are encrypted report every track as unencrypted,
+   * their tracks are decrypted while the room uses e2ee
+   */
+  private updateTrackEncryption({ track, isEncrypted }: RemoteTrackPublication) {
+    if (!track) {
+      return;
+    }
+    if (!isEncrypted && this.isEncryptionRelayed) {
+      if (track.e2eeParticipantId !== undefined) {
+        track.stopEncryption();
       }
+      return;
+    }
+    if (
+      !this.e2eeWorker ||
+      !this.identity ||
+      !(this.e2eePassword || this.keyProvider) ||
+      track.e2eeParticipantId !== undefined
+    ) {
+      return;
     }
+    track.frameFormatOptions = this.frameFormatOptions;
+    track.initializeEncryption(this.e2eeWorker, this.identity);
   }
 
   /** @internal */
   updateInfo(info: ParticipantInfo & { e2eePassword?: string }) {
     log.trace('updateInfo', info);
+    const hadIdentity = !!this.identity;
     super.updateInfo(info);
 
     // we are getting a list of all available tracks, reconcile in here
@@ -294,6 +454,7 @@ export default class RemoteParticipant extends Participant {
         this.addTrackPublication(publication);
       } else {
         publication.updateInfo(ti);
+        this.updateTrackEncryption(publication);
       }
       validTracks.set(ti.sid, publication);
     });
@@ -314,18 +475,15 @@ export default class RemoteParticipant extends Participant {
       }
     });
 
-    if (this.e2eePassword !== info.e2eePassword) {
+    if (!hadIdentity && this.identity) {
+      // the keys are installed along with the password of the info, sending it separately
+      // would derive its key ring twice
       this.e2eePassword = info.e2eePassword;
-      const { e2eePassword } = this;
-      if (typeof e2eePassword !== 'undefined') {
-        this.tracks.forEach((trackPublication) => {
-          trackPublication.track?.setPassword(e2eePassword);
-        });
-      }
+      this.installE2EEKeys();
+      return;
     }
-
-    this.tracks.forEach((trackPublication) => {
-      trackPublication.track?.decryptTrack();
+    this.updatePassword(info.e2eePassword).catch((error) => {
+      log.warn('could not update e2ee password', { participant: this.identity, error });
     });
   }
 
@@ -354,6 +512,7 @@ export default class RemoteParticipant extends Participant {
     const { track } = publication;
     if (track) {
       track.stop();
+      track.stopEncryption();
       publication.setTrack(undefined);
     }
     if (sendUnpublish) {
@@ -0,0 +1,123 @@
+import { setLogLevel } from '../../logger';
+import FramePipeline from './FramePipeline';
+import { Track } from './Track';
+import type { EncodedFrame, FrameTransform, FrameTransformContext } from './types';
+
+setLogLevel('silent');
+
+type TestFrame = EncodedFrame & { steps: string[] };
+
+function createSenderOrReceiver() {
+  const input = new TransformStream<TestFrame, TestFrame>();
+  const output: TestFrame[] = [];
+  const writable = new WritableStream<TestFrame>({
+    write: (frame) => {
+      output.push(frame);
+    },
+  });
+  const senderOrReceiver = {
+    createEncodedStreams: () => ({ readable: input.readable, writable }),
+  } as unknown as RTCRtpSender;
+  const writer = input.writable.getWriter();
+  const send = async (count = 1) => {
+    for (let i = 0; i < count; i++) {
+      await writer.write({ steps: [] } as unknown as TestFrame);
+    }
+    // let the frames propagate through the pipeline
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  };
+  return { senderOrReceiver, send, output };
+}
+
+function createTransform(name: string): FrameTransform {
+  return {
+    transform: (frame) => {
+      (frame as TestFrame).steps.push(name);
+      return frame;
+    },
+  };
+}
+
+/** the e2ee worker's part, marking the frames it processed */
+function runWorker({ readable, writable }: ReturnType<FramePipeline['attachDetour']>) {
+  readable
+    .pipeThrough(
+      new TransformStream<EncodedFrame, EncodedFrame>({
+        transform: (frame, controller) => {
+          (frame as TestFrame).steps.push('e2ee');
+          controller.enqueue(frame);
+        },
+      }),
+    )
+    .pipeTo(writable);
+}
+
+function createContext(direction: 'send' | 'receive'): FrameTransformContext {
+  return { direction, participantIdentity: 'alice', trackSid: 'TR_alice', kind: Track.Kind.Video };
+}
+
+describe('FramePipeline', () => {
+  it('transforms frames of a sender in order before encrypting them', async () => {
+    const { senderOrReceiver, send, output } = createSenderOrReceiver();
+    const transforms = [createTransform('first'), createTransform('second')];
+    const pipeline = FramePipeline.create(senderOrReceiver, transforms, createContext('send'))!;
+    runWorker(pipeline.attachDetour());
+
+    await send();
+    expect(output.map((frame) => frame.steps)).toEqual([['first', 'second', 'e2ee']]);
+  });
+
+  it('decrypts frames of a receiver before transforming them in reverse order', async () => {
+    const { senderOrReceiver, send, output } = createSenderOrReceiver();
+    const transforms = [createTransform('first'), createTransform('second')];
+    const pipeline = FramePipeline.create(senderOrReceiver, transforms, createContext('receive'))!;
+    runWorker(pipeline.attachDetour());
+
+    await send();
+    expect(output.map((frame) => frame.steps)).toEqual([['e2ee', 'second', 'first']]);
+  });
+
+  it('picks up transforms registered later and drops frames transforms return nothing for', async () => {
+    const { senderOrReceiver, send, output } = createSenderOrReceiver();
+    const transforms = [createTransform('first')];
+    FramePipeline.create(senderOrReceiver, transforms, createContext('send'));
+    await send();
+
+    let dropNext = true;
+    transforms.push({
+      transform: (frame) => {
+        const drop = dropNext;
+        dropNext = false;
+        return drop ? undefined : frame;
+      },
+    });
+    await send(2);
+    expect(output.map((frame) => frame.steps)).toEqual([['first'], ['first']]);
+  });
+
+  it('passes frames on without the worker once the detour is detached', async () => {
+    const { senderOrReceiver, send, output } = createSenderOrReceiver();
+    const pipeline = FramePipeline.create(senderOrReceiver, [], createContext('send'))!;
+    runWorker(pipeline.attachDetour());
+    await send();
+    pipeline.detachDetour();
+    await send();
+    expect(output.map((frame) => frame.steps)).toEqual([['e2ee'], []]);
+  });
+
+  it('creates a single pipeline per sender or receiver', () => {
+    const { senderOrReceiver } = createSenderOrReceiver();
+    const pipeline = FramePipeline.create(senderOrReceiver, [], createContext('send'));
+    expect(FramePipeline.create(senderOrReceiver, [], createContext('send'))).toBe(pipeline);
+    expect(FramePipeline.get(senderOrReceiver)).toBe(pipeline);
+  });
+
+  it('runs frames through the transforms of the last create of a sender or receiver', async () => {
+    const { senderOrReceiver, send, output } = createSenderOrReceiver();
+    FramePipeline.create(senderOrReceiver, [], createContext('send'));
+    FramePipeline.create(senderOrReceiver, [createTransform('first')], createContext('send'));
+
+    await send();
+    expect(output.map((frame) => frame.steps)).toEqual([['first']]);
+  });
+});
@@ -0,0 +1,153 @@
+import log from '../../logger';
+import type { EncodedFrame, FrameTransform, FrameTransformContext } from './types';
+
+export interface EncodedStreams {
+  readable: ReadableStream<EncodedFrame>;
+  writable: WritableStream<EncodedFrame>;
+}
+
+/** pipelines by sender or receiver, encoded streams can only be created once for each */
+const pipelines = new WeakMap<RTCRtpSender | RTCRtpReceiver, FramePipeline>();
+
+/**
+ * Runs the encoded frames of a sender or receiver through the app's [[FrameTransform]]s on the
+ * main thread. Encryption is a detour through the e2ee worker that can be added and removed
+ * while frames are flowing: frames of a sender are encrypted after the transforms ran, frames
+ * of a receiver are decrypted before.
+ * @internal
+ */
+export default class FramePipeline {
+  private transforms: FrameTransform[];
+
+  private context: FrameTransformContext;
+
+  private output: WritableStreamDefaultWriter<EncodedFrame>;
+
+  /** writes frames to the e2ee worker, set while they're encrypted or decrypted */
+  private detour?: WritableStreamDefaultWriter<EncodedFrame>;
+
+  static get(senderOrReceiver: RTCRtpSender | RTCRtpReceiver) {
+    return pipelines.get(senderOrReceiver);
+  }
+
+  /**
+   * creates the pipeline of a sender or receiver, `transforms` is read for every frame so
+   * transforms can be registered and unregistered later on. The pipeline of a sender or
+   * receiver that already has one, e.g. one the e2ee worker's detour was attached to, runs
+   * the frames through `transforms` from now on
+   * @returns undefined if the browser doesn't support encoded streams
+   */
+  static create(
+    senderOrReceiver: RTCRtpSender | RTCRtpReceiver,
+    transforms: FrameTransform[],
+    context: FrameTransformContext,
+  ) {
+    let pipeline = pipelines.get(senderOrReceiver);
+    if (pipeline) {
+      pipeline.transforms = transforms;
+      pipeline.context = context;
+      return pipeline;
+    }
+    if (!('createEncodedStreams' in senderOrReceiver)) {
+      return undefined;
+    }
+    // @ts-expect-error
+    const streams: EncodedStreams = senderOrReceiver.createEncodedStreams();
+    pipeline = new FramePipeline(streams, transforms, context);
+    pipelines.set(senderOrReceiver, pipeline);
+    return pipeline;
+  }
+
+  constructor(
+    { readable, writable }: EncodedStreams,
+    transforms: FrameTransform[],
+    context: FrameTransformContext,
+  ) {
+    this.transforms = transforms;
+    this.context = context;
+    this.output = writable.getWriter();
+    this.pump(readable, this.handleFrame);
+  }
+
+  /**
+   * routes the frames through the e2ee worker from now on
+   * @returns the streams the worker reads frames from and writes processed frames to
+   */
+  attachDetour(): EncodedStreams {
+    this.detachDetour();
+    const toWorker = new TransformStream<EncodedFrame, EncodedFrame>();
+    const fromWorker = new TransformStream<EncodedFrame, EncodedFrame>();
+    this.detour = toWorker.writable.getWriter();
+    this.pump(fromWorker.readable, this.handleProcessedFrame);
+    return { readable: toWorker.readable, writable: fromWorker.writable };
+  }
+
+  /**
+   * stops routing frames through the e2ee worker, the worker's streams are closed
+   */
+  detachDetour() {
+    this.detour?.close().catch(() => {});
+    this.detour = undefined;
+  }
+
+  private handleFrame = async (frame: EncodedFrame) => {
+    if (this.context.direction === 'send') {
+      const transformed = await this.transform(frame);
+      if (transformed) {
+        await (this.detour ?? this.output).write(transformed);
+      }
+    } else if (this.detour) {
+      await this.detour.write(frame);
+    } else {
+      await this.handleProcessedFrame(frame);
+    }
+  };
+
+  /** frames coming back from the e2ee worker, or received frames without a detour */
+  private handleProcessedFrame = async (frame: EncodedFrame) => {
+    if (this.context.direction === 'send') {
+      await this.output.write(frame);
+      return;
+    }
+    const transformed = await this.transform(frame);
+    if (transformed) {
+      await this.output.write(transformed);
+    }
+  };
+
+  private async transform(frame: EncodedFrame) {
+    const transforms =
+      this.context.direction === 'send' ? this.transforms : [...this.transforms].reverse();
+    let result: EncodedFrame | undefined = frame;
+    for (const transform of transforms) {
+      try {
+        result = await transform.transform(result, this.context);
+      } catch (error) {
+        log.warn('frame transform failed, dropping frame', { error, ...this.context });
+        return undefined;
+      }
+      if (!result) {
+        return undefined;
+      }
+    }
+    return result;
+  }
+
+  private async pump(
+    readable: ReadableStream<EncodedFrame>,
+    handle: (frame: EncodedFrame) => Promise<void>,
+  ) {
+    const reader = readable.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return;
+        }
+        await handle(value);
+      }
+    } catch (error) {
+      log.debug('encoded frame stream closed', { error, ...this.context });
+    }
+  }
+}
@@ -1,14 +1,14 @@
 import Queue from 'async-await-queue';
 import log from '../../logger';
 import DeviceManager from '../DeviceManager';
-import { TrackInvalidError } from '../errors';
+import { EncryptionError, TrackInvalidError } from '../errors';
 import { TrackEvent } from '../events';
 import { getEmptyAudioStreamTrack, getEmptyVideoStreamTrack, isMobile } from '../utils';
 import type { VideoCodec } from './options';
 import { attachToElement, detachTrack, Track } from './Track';
-// @ts-ignore
-import Worker from 'web-worker:../../worker/worker';
-import { keyRotationMs } from '../defaults';
+import type E2EEWorker from '../../e2ee/E2EEWorker';
+import { TrackEncryptionState } from '../../e2ee/types';
+import type { E2EEWorkerMessage, FrameFormatOptions } from '../../e2ee/types';
 
 export default abstract class LocalTrack extends Track {
   /** @internal */
@@ -17,9 +17,20 @@ export default abstract class LocalTrack extends Track {
   /** @internal */
   codec?: VideoCodec;
 
-  worker: any;
+  /**
+   * worker encrypting the track's frames, set while the track is encrypted
+   * @internal
+   */
+  e2eeWorker?: E2EEWorker;
+
+  /**
+   * layout of the encrypted frames, applied when encryption is initialized
+   * @internal
+   */
+  frameFormatOptions?: FrameFormatOptions;
 
-  e2eePassword?: string;
+  /** identity of the participant whose key ring is used to encrypt this track */
+  e2eeParticipantId?: string;
 
   protected constraints: MediaTrackConstraints;
 
@@ -48,43 +59,73 @@ export default abstract class LocalTrack extends Track {
     this.reacquireTrack = false;
     this.providedByUser = userProvidedTrack;
     this.muteQueue = new Queue();
-    this.worker = new Worker();
   }
 
-  initializeEncryption(password: string) {
-    this.setPassword(password);
+  private handleWorkerMessage = (message: E2EEWorkerMessage) => {
+    if (message.kind === 'frameStats') {
+      this.handleFrameStats(message);
+    } else if (message.kind === 'error') {
+      log.warn('e2ee error', { trackSid: this.sid, message });
+      this.emit(
+        TrackEvent.EncryptionError,
+        new EncryptionError(
+          message.reason,
+          message.participantId,
+          this.sid,
+          message.keyIndex,
+          message.message,
+        ),
+      );
+    }
+  };
+
+  /**
+   * starts encrypting the track with the key ring of `participantId` in the room's worker
+   * @internal
+   */
+  initializeEncryption(worker: E2EEWorker, participantId: string) {
+    this.e2eeWorker = worker;
+    this.e2eeParticipantId = participantId;
     this.encryptTrack();
-    setInterval(() => {
-      this.worker.postMessage({ operation: 'rotateKey' });
-    }, keyRotationMs);
   }
 
-  setPassword(password: string) {
-    this.e2eePassword = password;
-    this.worker.postMessage({ operation: 'setPassword', password });
+  /**
+   * stops encrypting the track, its frames are sent unencrypted afterwards. Called when the
+   * track is unpublished or the password is removed, encryption can be initialized again later
+   * @internal
+   */
+  stopEncryption() {
+    if (this.sid) {
+      this.e2eeWorker?.removeTransform(this.sid);
+    }
+    this.e2eeWorker = undefined;
+    this.e2eeParticipantId = undefined;
+    this.setEncryptionState(TrackEncryptionState.None);
   }
 
-  encryptTrack() {
-    if (!this.sender) {
+  private encryptTrack() {
+    if (!this.sender || !this.sid) {
       throw new TrackInvalidError('unable to encrypt an unpublished track');
     }
-    try {
-      // @ts-expect-error
-      if (window.RTCRtpScriptTransform) {
-        const options = {
-          operation: 'encode',
-        };
-
-        // @ts-expect-error
-        this.sender.transform = new RTCRtpScriptTransform(this.worker, options);
-      } else {
-        // @ts-expect-error
-        const { readable, writable } = this.sender.createEncodedStreams();
-        this.worker.postMessage({ operation: 'encode', readable, writable }, [readable, writable]);
+    const worker = this.e2eeWorker;
+    const attached = worker?.addTransform(
+      'encode',
+      this.sender,
+      {
+        participantId: this.e2eeParticipantId!,
+        trackId: this.sid,
+        codec: this.codec,
+        ...this.frameFormatOptions,
+      },
+      this.handleWorkerMessage,
+    );
+    this.setEncryptionState(attached ? TrackEncryptionState.Pending : TrackEncryptionState.Failing);
+    attached?.catch(() => {
+      // unless encryption was stopped in the meantime
+      if (this.e2eeWorker === worker) {
+        this.setEncryptionState(TrackEncryptionState.Failing);
       }
-    } catch (error) {
-      log.error('error creating encoded streams or posting message to worker', { error });
-    }
+    });
   }
 
   get id(): string {
@@ -217,10 +258,6 @@ export default abstract class LocalTrack extends Track {
       await this.sender.replaceTrack(newTrack);
     }
 
-    if (this.e2eePassword) {
-      this.initializeEncryption(this.e2eePassword);
-    }
-
     this._mediaStreamTrack = newTrack;
 
     await this.resumeUpstream();
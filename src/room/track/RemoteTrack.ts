@@ -1,19 +1,43 @@
 import { TrackEvent } from '../events';
-import { TrackInvalidError } from '../errors';
+import { EncryptionError, TrackInvalidError } from '../errors';
 import { monitorFrequency } from '../stats';
+import { codecFromMimeType } from '../utils';
 import { Track } from './Track';
 import log from '../../logger';
-// @ts-ignore
-import Worker from 'web-worker:../../worker/worker';
-import { keyRotationMs } from '../defaults';
+import type E2EEWorker from '../../e2ee/E2EEWorker';
+import { TrackEncryptionState } from '../../e2ee/types';
+import type { E2EEWorkerMessage, FrameFormatOptions } from '../../e2ee/types';
 
 export default abstract class RemoteTrack extends Track {
   /** @internal */
   receiver?: RTCRtpReceiver;
 
-  worker: any;
+  /**
+   * worker decrypting the track's frames, set while the track is decrypted
+   * @internal
+   */
+  e2eeWorker?: E2EEWorker;
 
-  e2eePassword?: string;
+  /**
+   * codec the track has been published with, lower case, e.g. `vp8`
+   * @internal
+   */
+  codec?: string;
+
+  /**
+   * layout of the encrypted frames, applied when encryption is initialized
+   * @internal
+   */
+  frameFormatOptions?: FrameFormatOptions;
+
+  /** identity of the participant whose key ring is used to decrypt this track */
+  e2eeParticipantId?: string;
+
+  /**
+   * true when the track is encrypted but its frames have been failing decryption,
+   * e.g. because the publisher uses a key we don't have
+   */
+  isUndecryptable: boolean = false;
 
   constructor(
     mediaTrack: MediaStreamTrack,
@@ -24,44 +48,84 @@ export default abstract class RemoteTrack extends Track {
     super(mediaTrack, kind);
     this.sid = sid;
     this.receiver = receiver;
-    this.worker = new Worker();
   }
 
-  initializeEncryption(password: string) {
-    this.setPassword(password);
+  private handleWorkerMessage = (message: E2EEWorkerMessage) => {
+    if (message.kind === 'frameStats') {
+      this.handleFrameStats(message);
+    } else if (message.kind === 'decryptionState') {
+      if (this.isUndecryptable !== message.undecryptable) {
+        this.isUndecryptable = message.undecryptable;
+        this.emit(TrackEvent.UndecryptableChanged, message.undecryptable, this);
+      }
+    } else if (message.kind === 'error') {
+      log.warn('e2ee error', { trackSid: this.sid, message });
+      this.emit(
+        TrackEvent.EncryptionError,
+        new EncryptionError(
+          message.reason,
+          message.participantId,
+          this.sid,
+          message.keyIndex,
+          message.message,
+        ),
+      );
+    }
+  };
+
+  /**
+   * starts decrypting the track with the key ring of `participantId` in the room's worker
+   * @internal
+   */
+  initializeEncryption(worker: E2EEWorker, participantId: string) {
+    this.e2eeWorker = worker;
+    this.e2eeParticipantId = participantId;
     this.decryptTrack();
-    setInterval(() => {
-      this.worker.postMessage({ operation: 'rotateKey' });
-    }, keyRotationMs);
   }
 
-  decryptTrack() {
+  /**
+   * stops decrypting the track, called when the track is unpublished
+   * @internal
+   */
+  stopEncryption() {
+    this.e2eeWorker?.removeTransform(this.sid!);
+    this.e2eeWorker = undefined;
+    this.e2eeParticipantId = undefined;
+    this.setEncryptionState(TrackEncryptionState.None);
+  }
+
+  private decryptTrack() {
     if (!this.receiver) {
       throw new TrackInvalidError('unable to decrypt non-existent track');
     }
 
-    try {
-      // @ts-expect-error
-      if (window.RTCRtpScriptTransform) {
-        const options = {
-          operation: 'decode',
-        };
-
-        // @ts-expect-error
-        this.receiver.transform = new RTCRtpScriptTransform(this.worker, options);
-      } else {
-        // @ts-expect-error
-        const { readable, writable } = this.receiver.createEncodedStreams();
-        this.worker.postMessage({ operation: 'decode', readable, writable }, [readable, writable]);
-      }
-    } catch (error) {
-      log.error('error creating encoded streams or posting message to worker', { error });
-    }
-  }
+    // the codec can differ from the published one, e.g. when receiving the backup codec
+    const payloadTypes = Object.fromEntries(
+      this.receiver
+        .getParameters()
+        .codecs.map((codec) => [codec.payloadType, codecFromMimeType(codec.mimeType)]),
+    );
 
-  setPassword(password: string) {
-    this.e2eePassword = password;
-    this.worker.postMessage({ operation: 'setPassword', password });
+    const worker = this.e2eeWorker;
+    const attached = worker?.addTransform(
+      'decode',
+      this.receiver,
+      {
+        participantId: this.e2eeParticipantId!,
+        trackId: this.sid!,
+        codec: this.codec,
+        ...this.frameFormatOptions,
+        payloadTypes,
+      },
+      this.handleWorkerMessage,
+    );
+    this.setEncryptionState(attached ? TrackEncryptionState.Pending : TrackEncryptionState.Failing);
+    attached?.catch(() => {
+      // unless encryption was stopped in the meantime
+      if (this.e2eeWorker === worker) {
+        this.setEncryptionState(TrackEncryptionState.Failing);
+      }
+    });
   }
 
   /** @internal */
@@ -194,6 +194,23 @@ export default class RemoteTrackPublication extends TrackPublication {
     this.emitSubscriptionUpdateIfChanged(prevStatus);
   }
 
+  /**
+   * restores the settings of a publication that was recreated by a full reconnect
+   * @internal
+   */
+  restoreSettings(settings: UpdateTrackSettings) {
+    this.disabled = settings.disabled;
+    this.fps = settings.fps || undefined;
+    if (settings.width && settings.height) {
+      this.videoDimensions = { width: settings.width, height: settings.height };
+      this.currentVideoQuality = undefined;
+    } else {
+      this.videoDimensions = undefined;
+      this.currentVideoQuality = settings.quality;
+    }
+    this.emitTrackUpdate();
+  }
+
   /** @internal */
   setAllowed(allowed: boolean) {
     const prevStatus = this.subscriptionStatus;
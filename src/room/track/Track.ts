@@ -3,6 +3,9 @@ import type TypedEventEmitter from 'typed-emitter';
 import type { SignalClient } from '../../api/SignalClient';
 import { TrackSource, TrackType } from '../../proto/livekit_models';
 import { StreamState as ProtoStreamState } from '../../proto/livekit_rtc';
+import { FrameResult, TrackEncryptionState } from '../../e2ee/types';
+import type { FrameStatsMessage } from '../../e2ee/types';
+import type { EncryptionError } from '../errors';
 import { TrackEvent } from '../events';
 import { isFireFox, isSafari, isWeb } from '../utils';
 
@@ -48,6 +51,8 @@ export abstract class Track extends (EventEmitter as new () => TypedEventEmitter
 
   protected monitorInterval?: ReturnType<typeof setInterval>;
 
+  protected _encryptionState: TrackEncryptionState = TrackEncryptionState.None;
+
   protected constructor(mediaTrack: MediaStreamTrack, kind: Track.Kind) {
     super();
     this.setMaxListeners(100);
@@ -72,6 +77,36 @@ export abstract class Track extends (EventEmitter as new () => TypedEventEmitter
     return this._mediaStreamTrack;
   }
 
+  /**
+   * whether the track's frames are being encrypted or decrypted, as last reported by the e2ee worker
+   */
+  get encryptionState(): TrackEncryptionState {
+    return this._encryptionState;
+  }
+
+  protected setEncryptionState(state: TrackEncryptionState) {
+    if (this._encryptionState !== state) {
+      this._encryptionState = state;
+      this.emit(TrackEvent.EncryptionStateChanged, state, this);
+    }
+  }
+
+  protected handleFrameStats({ lastFrameResult }: FrameStatsMessage) {
+    switch (lastFrameResult) {
+      case FrameResult.Processed:
+        this.setEncryptionState(TrackEncryptionState.Active);
+        break;
+      case FrameResult.Failed:
+        this.setEncryptionState(TrackEncryptionState.Failing);
+        break;
+      case FrameResult.Unencrypted:
+      case FrameResult.Dropped:
+      default:
+        this.setEncryptionState(TrackEncryptionState.Pending);
+        break;
+    }
+  }
+
   /**
    * @internal
    * used for keep mediaStream's first id, since it's id might change
@@ -411,4 +446,7 @@ export type TrackEventCallbacks = {
   elementDetached: (element: HTMLMediaElement) => void;
   upstreamPaused: (track: any) => void;
   upstreamResumed: (track: any) => void;
+  encryptionError: (error: EncryptionError) => void;
+  undecryptableChanged: (undecryptable: boolean, track?: any) => void;
+  encryptionStateChanged: (state: TrackEncryptionState, track?: any) => void;
 };
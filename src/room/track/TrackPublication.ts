@@ -1,8 +1,11 @@
 import { EventEmitter } from 'events';
 import type TypedEventEmitter from 'typed-emitter';
+import { Encryption_Type } from '../../api/protocolExtensions';
+import { TrackEncryptionState } from '../../e2ee/types';
 import log from '../../logger';
 import type { TrackInfo } from '../../proto/livekit_models';
 import type { UpdateSubscription, UpdateTrackSettings } from '../../proto/livekit_rtc';
+import type { EncryptionError } from '../errors';
 import { TrackEvent } from '../events';
 import LocalAudioTrack from './LocalAudioTrack';
 import LocalVideoTrack from './LocalVideoTrack';
@@ -50,14 +53,22 @@ export class TrackPublication extends (EventEmitter as new () => TypedEventEmitt
     if (this.track) {
       this.track.off(TrackEvent.Muted, this.handleMuted);
       this.track.off(TrackEvent.Unmuted, this.handleUnmuted);
+      this.track.off(TrackEvent.EncryptionError, this.handleEncryptionError);
+      this.track.off(TrackEvent.EncryptionStateChanged, this.handleEncryptionStateChanged);
     }
 
+    const prevEncryptionState = this.encryptionState;
     this.track = track;
 
     if (track) {
       // forward events
       track.on(TrackEvent.Muted, this.handleMuted);
       track.on(TrackEvent.Unmuted, this.handleUnmuted);
+      track.on(TrackEvent.EncryptionError, this.handleEncryptionError);
+      track.on(TrackEvent.EncryptionStateChanged, this.handleEncryptionStateChanged);
+    }
+    if (this.encryptionState !== prevEncryptionState) {
+      this.emit(TrackEvent.EncryptionStateChanged, this.encryptionState);
     }
   }
 
@@ -73,6 +84,21 @@ export class TrackPublication extends (EventEmitter as new () => TypedEventEmitt
     return this.track !== undefined;
   }
 
+  /**
+   * true if the publisher advertised that it encrypts the frames of the track
+   */
+  get isEncrypted(): boolean {
+    return (this.trackInfo?.encryption ?? Encryption_Type.NONE) !== Encryption_Type.NONE;
+  }
+
+  /**
+   * whether the frames of the track are being encrypted (local tracks) or decrypted
+   * (remote tracks), only [[TrackEncryptionState.Active]] confirms that e2ee is in effect
+   */
+  get encryptionState(): TrackEncryptionState {
+    return this.track?.encryptionState ?? TrackEncryptionState.None;
+  }
+
   /**
    * an [AudioTrack] if this publication holds an audio track
    */
@@ -99,6 +125,14 @@ export class TrackPublication extends (EventEmitter as new () => TypedEventEmitt
     this.emit(TrackEvent.Unmuted);
   };
 
+  handleEncryptionError = (error: EncryptionError) => {
+    this.emit(TrackEvent.EncryptionError, error);
+  };
+
+  handleEncryptionStateChanged = (state: TrackEncryptionState) => {
+    this.emit(TrackEvent.EncryptionStateChanged, state);
+  };
+
   /** @internal */
   updateInfo(info: TrackInfo) {
     this.trackSid = info.sid;
@@ -146,4 +180,6 @@ export type PublicationEventCallbacks = {
     status: TrackPublication.SubscriptionStatus,
     prevStatus: TrackPublication.SubscriptionStatus,
   ) => void;
+  encryptionError: (error: EncryptionError) => void;
+  encryptionStateChanged: (state: TrackEncryptionState) => void;
 };
@@ -2,6 +2,7 @@ import type LocalAudioTrack from './LocalAudioTrack';
 import type LocalVideoTrack from './LocalVideoTrack';
 import type RemoteAudioTrack from './RemoteAudioTrack';
 import type RemoteVideoTrack from './RemoteVideoTrack';
+import type { Track } from './Track';
 
 export type AudioTrack = RemoteAudioTrack | LocalAudioTrack;
 export type VideoTrack = RemoteVideoTrack | LocalVideoTrack;
@@ -22,3 +23,32 @@ export type AdaptiveStreamSettings = {
    */
   pauseVideoInBackground?: boolean;
 };
+
+export type EncodedFrame = RTCEncodedVideoFrame | RTCEncodedAudioFrame;
+
+export interface FrameTransformContext {
+  /** `send` for frames of local tracks, `receive` for frames of subscribed tracks */
+  direction: 'send' | 'receive';
+  /** identity of the participant publishing the track */
+  participantIdentity: string;
+  trackSid: string;
+  kind: Track.Kind;
+}
+
+/**
+ * Processes the encoded frames of published and subscribed tracks, e.g. to embed metadata or
+ * timestamps in them. Register transforms with [[Room.registerFrameTransform]].
+ *
+ * Frames of local tracks pass the transforms in the order they were registered and are
+ * encrypted afterwards. Frames of subscribed tracks are decrypted first and pass the transforms
+ * in reverse order, so each transform gets back the frames it produced on the sending side.
+ */
+export interface FrameTransform {
+  /**
+   * @returns the frame to pass on, which may be modified in place, or undefined to drop it
+   */
+  transform(
+    frame: EncodedFrame,
+    context: FrameTransformContext,
+  ): EncodedFrame | undefined | Promise<EncodedFrame | undefined>;
+}
@@ -0,0 +1,55 @@
+import type RemoteParticipant from './participant/RemoteParticipant';
+
+/** describes a message sent with [[LocalParticipant.sendDataMessage]] */
+export interface DataMessageInfo {
+  /** ID of the message, unique per sender */
+  id: string;
+  /** size of the whole message in bytes */
+  size: number;
+  /** file name of the message, set when a file was sent or a name was given */
+  name?: string;
+  /** MIME type of the message, set when a file was sent or a type was given */
+  mimeType?: string;
+}
+
+export interface DataMessage extends DataMessageInfo {
+  payload: Uint8Array;
+}
+
+export interface SendDataMessageOptions {
+  /**
+   * ID of the message, e.g. to tell receivers which request it answers.
+   * A random ID is used when not given
+   */
+  id?: string;
+  /** defaults to the name of the file being sent */
+  name?: string;
+  /** defaults to the type of the file being sent */
+  mimeType?: string;
+  /** the participants who will receive the message, everyone in the room when not given */
+  destination?: RemoteParticipant[] | string[];
+}
+
+export interface RpcInvocation {
+  /** ID of the call, unique per caller */
+  requestId: string;
+  /** identity of the participant that made the call */
+  callerIdentity: string;
+  payload: string;
+}
+
+/**
+ * handles the calls of a method registered with [[LocalParticipant.registerMethod]],
+ * resolving to the payload of the response
+ */
+export type RpcHandler = (invocation: RpcInvocation) => Promise<string> | string;
+
+/** health of the signal connection, see [[Room.signalStats]] */
+export interface SignalStats {
+  /** round trip time of the last answered ping in ms, unset until a ping was answered */
+  rtt?: number;
+  /** pings in a row that weren't answered before the next ping was due */
+  missedPongs: number;
+  /** ms since the last message from the server, unset until connected */
+  lastMessageAge?: number;
+}
@@ -122,6 +122,13 @@ export function isWeb(): boolean {
   return typeof document !== 'undefined';
 }
 
+/**
+ * returns the lower case codec name of a mime type, e.g. `h264` for `video/H264`
+ */
+export function codecFromMimeType(mimeType: string): string {
+  return mimeType.split('/')[1]?.toLowerCase() ?? '';
+}
+
 export function compareVersions(v1: string, v2: string): number {
   const parts1 = v1.split('.');
   const parts2 = v2.split('.');
@@ -216,6 +223,13 @@ export function getEmptyAudioStreamTrack() {
   return emptyAudioStreamTrack;
 }
 
+/** random hex ID, e.g. for messages and requests exchanged with other participants */
+export function createRandomId() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(8)))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
 export class Future<T> {
   promise: Promise<T>;
 
@@ -0,0 +1,487 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { parse } from 'sdp-transform';
+import MockMediaStreamTrack from './MockMediaStreamTrack';
+
+export interface MockMediaDescription {
+  kind: 'audio' | 'video' | 'application';
+  direction?: RTCRtpTransceiverDirection;
+  /** stream and track ID of the media, as `msid` attribute */
+  streamId?: string;
+  trackId?: string;
+}
+
+const payloadTypes = { audio: 111, video: 96 };
+
+/**
+ * writes a session description that the sdp munging of [[PCTransport]] can parse, the fake peer
+ * connections only look at the `msid` of its media sections
+ */
+export function mockSdp(sessionId: number, media: MockMediaDescription[]) {
+  const lines = ['v=0', `o=- ${sessionId} 2 IN IP4 127.0.0.1`, 's=-', 't=0 0'];
+  media.forEach(({ kind, direction, streamId, trackId }, mid) => {
+    if (kind === 'application') {
+      lines.push('m=application 9 UDP/DTLS/SCTP webrtc-datachannel', 'c=IN IP4 0.0.0.0');
+      lines.push(`a=mid:${mid}`);
+      return;
+    }
+    const payload = payloadTypes[kind];
+    lines.push(`m=${kind} 9 UDP/TLS/RTP/SAVPF ${payload}`, 'c=IN IP4 0.0.0.0');
+    lines.push(`a=mid:${mid}`, `a=${direction ?? 'sendrecv'}`);
+    if (streamId && trackId) {
+      lines.push(`a=msid:${streamId} ${trackId}`);
+    }
+    lines.push(
+      kind === 'audio' ? `a=rtpmap:${payload} opus/48000/2` : `a=rtpmap:${payload} VP8/90000`,
+    );
+  });
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function describedTracks(sdp?: string) {
+  const tracks = new Map<string, { kind: string; streamId: string }>();
+  parse(sdp ?? '').media.forEach((media) => {
+    if (media.direction === 'inactive' || !media.msid) {
+      return;
+    }
+    const [streamId, trackId] = media.msid.split(' ');
+    tracks.set(trackId, { kind: media.type, streamId });
+  });
+  return tracks;
+}
+
+export class MockMediaStream {
+  id: string;
+
+  onaddtrack: ((ev: { track: MediaStreamTrack }) => void) | null = null;
+
+  onremovetrack: ((ev: { track: MediaStreamTrack }) => void) | null = null;
+
+  private tracks: MediaStreamTrack[];
+
+  constructor(tracks: MediaStreamTrack[] = [], id: string = `stream-${Math.random()}`) {
+    this.id = id;
+    this.tracks = [...tracks];
+  }
+
+  getTracks() {
+    return [...this.tracks];
+  }
+
+  getAudioTracks() {
+    return this.tracks.filter((track) => track.kind === 'audio');
+  }
+
+  getVideoTracks() {
+    return this.tracks.filter((track) => track.kind === 'video');
+  }
+
+  addTrack(track: MediaStreamTrack) {
+    this.tracks.push(track);
+  }
+
+  removeTrack(track: MediaStreamTrack) {
+    this.tracks = this.tracks.filter((t) => t !== track);
+  }
+}
+
+/** a track received by a [[MockRTCPeerConnection]] */
+export class MockRemoteMediaStreamTrack extends MockMediaStreamTrack {
+  constructor(id: string, kind: string) {
+    super();
+    this.id = id;
+    this.kind = kind;
+  }
+
+  stop() {
+    this.readyState = 'ended';
+  }
+
+  addEventListener() {}
+
+  removeEventListener() {}
+}
+
+/** a track captured from a device, to publish local tracks with */
+export class MockCapturedMediaStreamTrack extends MockMediaStreamTrack {
+  private settings: MediaTrackSettings;
+
+  constructor(kind: string, settings: MediaTrackSettings = {}) {
+    super();
+    this.id = `${kind}-${Math.random()}`;
+    this.kind = kind;
+    this.settings = settings;
+  }
+
+  getConstraints() {
+    return {};
+  }
+
+  getSettings() {
+    return this.settings;
+  }
+
+  stop() {
+    this.readyState = 'ended';
+  }
+
+  addEventListener() {}
+
+  removeEventListener() {}
+}
+
+export class MockRTCDataChannel extends EventTarget {
+  label: string;
+
+  id: number | null;
+
+  ordered: boolean;
+
+  readyState: RTCDataChannelState = 'connecting';
+
+  binaryType: BinaryType = 'arraybuffer';
+
+  bufferedAmount = 0;
+
+  bufferedAmountLowThreshold = 0;
+
+  onopen: ((ev: Event) => void) | null = null;
+
+  onclose: ((ev: Event) => void) | null = null;
+
+  onerror: ((ev: Event) => void) | null = null;
+
+  onmessage: ((ev: MessageEvent) => void) | null = null;
+
+  onbufferedamountlow: ((ev: Event) => void) | null = null;
+
+  /** everything sent over the channel */
+  sent: Array<string | ArrayBufferLike | ArrayBufferView | Blob> = [];
+
+  constructor(label: string, id: number, init?: RTCDataChannelInit) {
+    super();
+    this.label = label;
+    this.id = id;
+    this.ordered = init?.ordered ?? true;
+  }
+
+  send(data: string | ArrayBufferLike | ArrayBufferView | Blob) {
+    if (this.readyState !== 'open') {
+      throw new Error(`data channel ${this.label} is ${this.readyState}`);
+    }
+    this.sent.push(data);
+  }
+
+  /** delivers a message as if it was sent by the other side */
+  receive(data: string | ArrayBuffer) {
+    const event = new MessageEvent('message', { data });
+    this.onmessage?.(event);
+    this.dispatchEvent(event);
+  }
+
+  /** @internal */
+  setReadyState(state: RTCDataChannelState) {
+    if (this.readyState === state) {
+      return;
+    }
+    this.readyState = state;
+    if (state === 'open') {
+      const event = new Event('open');
+      this.onopen?.(event);
+      this.dispatchEvent(event);
+    } else if (state === 'closed') {
+      const event = new Event('close');
+      this.onclose?.(event);
+      this.dispatchEvent(event);
+    }
+  }
+
+  close() {
+    this.setReadyState('closed');
+  }
+}
+
+class MockRTCRtpSender {
+  track: MediaStreamTrack | null;
+
+  private parameters = { encodings: [] } as unknown as RTCRtpSendParameters;
+
+  constructor(track: MediaStreamTrack | null) {
+    this.track = track;
+  }
+
+  async replaceTrack(track: MediaStreamTrack | null) {
+    this.track = track;
+  }
+
+  getParameters() {
+    return this.parameters;
+  }
+
+  async setParameters(parameters: RTCRtpSendParameters) {
+    this.parameters = parameters;
+  }
+
+  async getStats() {
+    return new Map() as RTCStatsReport;
+  }
+}
+
+class MockRTCRtpReceiver {
+  track: MediaStreamTrack;
+
+  constructor(track: MediaStreamTrack) {
+    this.track = track;
+  }
+
+  getParameters(): RTCRtpReceiveParameters {
+    return { codecs: [], headerExtensions: [], rtcp: {} };
+  }
+
+  async getStats() {
+    return new Map() as RTCStatsReport;
+  }
+}
+
+let nextSessionId = 1;
+
+/**
+ * A peer connection that connects as soon as offer and answer were exchanged, without any
+ * networking. Tracks announced with the `msid` of a remote offer, e.g. by the [[MockSFU]], are
+ * received with `ontrack` and end when they're no longer part of an offer.
+ */
+export default class MockRTCPeerConnection {
+  readonly sessionId = nextSessionId++;
+
+  signalingState: RTCSignalingState = 'stable';
+
+  connectionState: RTCPeerConnectionState = 'new';
+
+  iceConnectionState: RTCIceConnectionState = 'new';
+
+  localDescription: RTCSessionDescriptionInit | null = null;
+
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+
+  onicecandidate: ((ev: RTCPeerConnectionIceEvent) => void) | null = null;
+
+  ondatachannel: ((ev: RTCDataChannelEvent) => void) | null = null;
+
+  ontrack: ((ev: RTCTrackEvent) => void) | null = null;
+
+  onconnectionstatechange: ((ev: Event) => void) | null = null;
+
+  oniceconnectionstatechange: ((ev: Event) => void) | null = null;
+
+  onnegotiationneeded: ((ev: Event) => void) | null = null;
+
+  dataChannels: MockRTCDataChannel[] = [];
+
+  /** candidates trickled by the other side */
+  remoteCandidates: RTCIceCandidateInit[] = [];
+
+  private senders: MockRTCRtpSender[] = [];
+
+  private receivedTracks = new Map<string, { track: MediaStreamTrack; stream: MockMediaStream }>();
+
+  constructor(readonly configuration?: RTCConfiguration) {}
+
+  createDataChannel(label: string, init?: RTCDataChannelInit) {
+    const channel = new MockRTCDataChannel(label, this.dataChannels.length, init);
+    this.dataChannels.push(channel);
+    if (this.connectionState === 'connected') {
+      Promise.resolve().then(() => channel.setReadyState('open'));
+    }
+    return channel;
+  }
+
+  addTrack(track: MediaStreamTrack) {
+    const sender = new MockRTCRtpSender(track);
+    this.senders.push(sender);
+    return sender;
+  }
+
+  addTransceiver(track: MediaStreamTrack, init?: RTCRtpTransceiverInit) {
+    const sender = this.addTrack(track);
+    return {
+      sender,
+      direction: init?.direction ?? 'sendrecv',
+      setCodecPreferences() {},
+    };
+  }
+
+  getSenders() {
+    return [...this.senders];
+  }
+
+  getTransceivers() {
+    return [];
+  }
+
+  removeTrack(sender: MockRTCRtpSender) {
+    this.senders = this.senders.filter((s) => s !== sender);
+  }
+
+  async createOffer(options?: RTCOfferOptions): Promise<RTCSessionDescriptionInit> {
+    const media: MockMediaDescription[] = [{ kind: 'application' }];
+    this.senders.forEach(({ track }) => {
+      if (track) {
+        media.push({
+          kind: track.kind as 'audio' | 'video',
+          direction: 'sendonly',
+          streamId: track.id,
+          trackId: track.id,
+        });
+      }
+    });
+    return { type: 'offer', sdp: mockSdp(this.sessionId, media) };
+  }
+
+  async createAnswer(): Promise<RTCSessionDescriptionInit> {
+    const media = parse(this.remoteDescription?.sdp ?? '').media.map(
+      (m): MockMediaDescription => ({
+        kind: m.type as MockMediaDescription['kind'],
+        direction: 'recvonly',
+      }),
+    );
+    return { type: 'answer', sdp: mockSdp(this.sessionId, media) };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit) {
+    this.assertOpen();
+    this.localDescription = description;
+    if (description.type === 'offer') {
+      this.signalingState = 'have-local-offer';
+    } else {
+      this.signalingState = 'stable';
+      this.negotiated();
+    }
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    this.assertOpen();
+    this.remoteDescription = description;
+    if (description.type === 'offer') {
+      this.signalingState = 'have-remote-offer';
+      this.updateReceivedTracks(description.sdp);
+    } else {
+      this.signalingState = 'stable';
+      this.negotiated();
+    }
+  }
+
+  async addIceCandidate(candidate?: RTCIceCandidateInit) {
+    if (candidate) {
+      this.remoteCandidates.push(candidate);
+    }
+  }
+
+  restartIce() {}
+
+  async getStats() {
+    return new Map() as RTCStatsReport;
+  }
+
+  getConfiguration() {
+    return this.configuration ?? {};
+  }
+
+  setConfiguration(configuration: RTCConfiguration) {}
+
+  close() {
+    if (this.signalingState === 'closed') {
+      return;
+    }
+    this.signalingState = 'closed';
+    this.connectionState = 'closed';
+    this.iceConnectionState = 'closed';
+    this.dataChannels.forEach((channel) => channel.close());
+    this.receivedTracks.forEach(({ track }) => {
+      track.stop();
+    });
+  }
+
+  /**
+   * changes the connection state as if the network changed, e.g. to `failed` to make the
+   * client reconnect
+   */
+  simulateConnectionState(state: RTCPeerConnectionState) {
+    this.connectionState = state;
+    this.iceConnectionState =
+      state === 'connecting' ? 'checking' : (state as RTCIceConnectionState);
+    this.oniceconnectionstatechange?.(new Event('iceconnectionstatechange'));
+    this.onconnectionstatechange?.(new Event('connectionstatechange'));
+  }
+
+  private negotiated() {
+    if (this.connectionState === 'connected') {
+      return;
+    }
+    // connect asynchronously, like ICE and DTLS would after the descriptions were applied
+    Promise.resolve().then(() => {
+      if (this.signalingState === 'closed' || this.connectionState === 'connected') {
+        return;
+      }
+      this.simulateConnectionState('connected');
+      this.dataChannels.forEach((channel) => channel.setReadyState('open'));
+    });
+  }
+
+  private updateReceivedTracks(sdp?: string) {
+    const described = describedTracks(sdp);
+    this.receivedTracks.forEach(({ track, stream }, trackId) => {
+      if (!described.has(trackId)) {
+        this.receivedTracks.delete(trackId);
+        stream.removeTrack(track);
+        stream.onremovetrack?.({ track });
+      }
+    });
+    described.forEach(({ kind, streamId }, trackId) => {
+      if (this.receivedTracks.has(trackId)) {
+        return;
+      }
+      const track = new MockRemoteMediaStreamTrack(trackId, kind);
+      const stream = new MockMediaStream([track], streamId);
+      this.receivedTracks.set(trackId, { track, stream });
+      const receiver = new MockRTCRtpReceiver(track);
+      this.ontrack?.({
+        track,
+        streams: [stream],
+        receiver,
+        transceiver: { receiver },
+      } as unknown as RTCTrackEvent);
+    });
+  }
+
+  private assertOpen() {
+    if (this.signalingState === 'closed') {
+      throw new Error('peer connection is closed');
+    }
+  }
+}
+
+/**
+ * installs the fake peer connection and the few other browser globals [[Room]] needs
+ * @returns a function that removes them again
+ */
+export function installMockWebRTC() {
+  const globals: Record<string, unknown> = {
+    RTCPeerConnection: MockRTCPeerConnection,
+    MediaStream: MockMediaStream,
+    MediaStreamTrack: MockMediaStreamTrack,
+    navigator: { userAgent: '' },
+    window: globalThis,
+  };
+  const installed = Object.keys(globals).filter((name) => !(name in globalThis));
+  installed.forEach((name) => {
+    Object.defineProperty(globalThis, name, {
+      value: globals[name],
+      configurable: true,
+      writable: true,
+    });
+  });
+  return () => {
+    installed.forEach((name) => {
+      delete (globalThis as Record<string, unknown>)[name];
+    });
+  };
+}
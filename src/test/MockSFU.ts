@@ -0,0 +1,531 @@
+import { parse } from 'sdp-transform';
+// the test bundle has its own copies of the protocol messages, they need the extensions as well
+import '../api/protocolExtensions';
+// classes the app checks for are imported through the public entry, the test bundle shares
+// them with the main bundle instead of bundling its own copies
+import { ConnectionError, DisconnectReason, SignalRequest, SignalResponse } from '../index';
+import type { SignalTransport, SignalTransportFactory } from '../index';
+import {
+  ParticipantInfo,
+  ParticipantInfo_State,
+  Room as RoomInfo,
+  TrackInfo,
+  TrackType,
+} from '../proto/livekit_models';
+import {
+  AddTrackRequest,
+  JoinResponse,
+  LeaveRequest,
+  UpdateSubscription,
+} from '../proto/livekit_rtc';
+import { MockMediaDescription, mockSdp } from './MockRTCPeerConnection';
+
+type SignalResponseMessage = NonNullable<SignalResponse['message']>;
+
+interface Session {
+  info: ParticipantInfo;
+  /** connection of a client, unset for participants scripted by the test */
+  transport?: MockSignalTransport;
+  autoSubscribe: boolean;
+  /** subscriptions changed by the client, by track sid */
+  subscriptions: Map<string, boolean>;
+  offerPending: boolean;
+  offerNeeded: boolean;
+  /** number of tracks in the last offer */
+  offeredTracks: number;
+}
+
+export interface MockSpeaker {
+  identity: string;
+  level: number;
+  active?: boolean;
+}
+
+/**
+ * The client end of a signal connection to a [[MockSFU]]. Messages are encoded and decoded
+ * like on the wire, and delivered asynchronously in order.
+ */
+class MockSignalTransport implements SignalTransport {
+  isOpen = false;
+
+  onmessage?: (response: SignalResponse) => void;
+
+  onclose?: (reason: string) => void;
+
+  /** when set, messages are lost in both directions without the connection being closed */
+  stalled = false;
+
+  private sfu: MockSFU;
+
+  /**
+   * messages on their way to the client, each one is only scheduled once the previous one
+   * arrived. The client handles a message before the next one arrives like with a real server,
+   * also when fake timers run all timers that are due at once
+   */
+  private delivery: Promise<void> = Promise.resolve();
+
+  constructor(sfu: MockSFU) {
+    this.sfu = sfu;
+  }
+
+  async open(url: string) {
+    this.sfu.accept(this, url);
+    this.isOpen = true;
+  }
+
+  send(request: SignalRequest) {
+    if (!this.isOpen) {
+      throw new ConnectionError('signal connection is not open');
+    }
+    const decoded = SignalRequest.decode(SignalRequest.encode(request).finish());
+    setTimeout(() => {
+      if (this.isOpen && !this.stalled) {
+        this.sfu.handleRequest(this, decoded);
+      }
+    }, 0);
+  }
+
+  async close() {
+    this.isOpen = false;
+  }
+
+  /** @internal */
+  deliver(message: SignalResponseMessage) {
+    const response = SignalResponse.decode(SignalResponse.encode({ message }).finish());
+    this.arrive(() => {
+      if (this.isOpen && !this.stalled) {
+        this.onmessage?.(response);
+      }
+    });
+  }
+
+  /** @internal */
+  drop(reason: string) {
+    if (!this.isOpen) {
+      return;
+    }
+    // after the messages that are still on their way
+    this.arrive(() => {
+      if (this.isOpen) {
+        this.isOpen = false;
+        this.onclose?.(reason);
+      }
+    });
+  }
+
+  private arrive(handler: () => void) {
+    this.delivery = this.delivery
+      .then(() => new Promise((resolve) => setTimeout(resolve, 0)))
+      .then(handler);
+  }
+}
+
+function identityFromToken(token: string) {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return token;
+  }
+  const claims = JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
+  return claims.sub as string;
+}
+
+/**
+ * An in-process server speaking the signal protocol, for testing [[Room]] without a LiveKit
+ * server. Rooms connect to it by passing [[signalTransport]] as room option, together with
+ * [[installMockWebRTC]] to replace the peer connections. Tokens are either the identity of the
+ * participant or a JWT with the identity as subject.
+ *
+ * Participants can be scripted by the test, or be other rooms connected to the same server;
+ * each sees the others join, publish and leave. Media and data packets are not forwarded.
+ */
+export default class MockSFU {
+  /** pass as `signalTransport` room option to connect to this server */
+  readonly signalTransport: SignalTransportFactory = () => new MockSignalTransport(this);
+
+  /** every request the clients sent, in order */
+  readonly requests: Array<{ identity: string; request: SignalRequest }> = [];
+
+  /** the room, sent to clients when they join */
+  room: RoomInfo;
+
+  /** fields added to every join response, e.g. ping settings */
+  joinResponse: Partial<JoinResponse> = {};
+
+  /** when set, clients can't connect, as if the server was unreachable */
+  refuseConnections = false;
+
+  private sessions = new Map<string, Session>();
+
+  private identities = new Map<string, string>();
+
+  private nextSid = 1;
+
+  constructor(room: Partial<RoomInfo> = {}) {
+    this.room = RoomInfo.fromPartial({ sid: 'RM_mock', name: 'mock-room', ...room });
+  }
+
+  /** the participant with `identity`, as the server sees it */
+  participant(identity: string): ParticipantInfo | undefined {
+    return this.sessions.get(identity)?.info;
+  }
+
+  /** whether the client of `identity` has an open signal connection */
+  isConnected(identity: string) {
+    return !!this.sessions.get(identity)?.transport?.isOpen;
+  }
+
+  /** adds a participant scripted by the test, announcing it to the connected clients */
+  addParticipant(identity: string, info: Partial<ParticipantInfo> = {}) {
+    const session = this.createSession(identity, info);
+    this.broadcastUpdate(session);
+    return session.info;
+  }
+
+  /** updates name, metadata or permissions of a participant */
+  updateParticipant(identity: string, info: Partial<Omit<ParticipantInfo, 'sid' | 'identity'>>) {
+    const session = this.getSession(identity);
+    Object.assign(session.info, info);
+    session.info.version += 1;
+    this.broadcastUpdate(session, true);
+  }
+
+  /**
+   * removes a participant from the room; a connected client is sent a leave request with
+   * `reason`, like when it's removed with the server API
+   */
+  removeParticipant(identity: string, reason = DisconnectReason.PARTICIPANT_REMOVED) {
+    const session = this.getSession(identity);
+    if (session.transport) {
+      session.transport.deliver({
+        $case: 'leave',
+        leave: { canReconnect: false, reason },
+      });
+    }
+    this.endSession(session);
+  }
+
+  /** publishes a track of a scripted participant, the clients are subscribed to it */
+  publishTrack(identity: string, track: Partial<TrackInfo> & Pick<TrackInfo, 'type'>) {
+    const session = this.getSession(identity);
+    const info = TrackInfo.fromPartial({ sid: this.createSid('TR'), ...track });
+    this.addTrack(session, info);
+    return info;
+  }
+
+  unpublishTrack(identity: string, trackSid: string) {
+    const session = this.getSession(identity);
+    session.info.tracks = session.info.tracks.filter((track) => track.sid !== trackSid);
+    session.info.version += 1;
+    session.transport?.deliver({ $case: 'trackUnpublished', trackUnpublished: { trackSid } });
+    this.broadcastUpdate(session);
+    this.offerToSubscribers(session);
+  }
+
+  muteTrack(identity: string, trackSid: string, muted: boolean) {
+    const session = this.getSession(identity);
+    const track = session.info.tracks.find((t) => t.sid === trackSid);
+    if (!track) {
+      throw new Error(`${identity} did not publish ${trackSid}`);
+    }
+    track.muted = muted;
+    session.info.version += 1;
+    session.transport?.deliver({ $case: 'mute', mute: { sid: trackSid, muted } });
+    this.broadcastUpdate(session);
+  }
+
+  /** sends the speakers whose state changed to every client */
+  updateSpeakers(speakers: MockSpeaker[]) {
+    const speakerInfos = speakers.map(({ identity, level, active }) => ({
+      sid: this.getSession(identity).info.sid,
+      level,
+      active: active ?? level > 0,
+    }));
+    this.broadcast({ $case: 'speakersChanged', speakersChanged: { speakers: speakerInfos } });
+  }
+
+  /** sends the client a new token, that it will use for connecting again */
+  refreshToken(identity: string, token: string) {
+    this.identities.set(token, identity);
+    this.send(identity, { $case: 'refreshToken', refreshToken: token });
+  }
+
+  /** asks the client to leave, with `canReconnect` the client starts a new session */
+  sendLeave(identity: string, leave: Partial<LeaveRequest> = {}) {
+    this.send(identity, { $case: 'leave', leave: LeaveRequest.fromPartial(leave) });
+  }
+
+  /** sends any message to the client */
+  send(identity: string, message: SignalResponseMessage) {
+    const { transport } = this.getSession(identity);
+    if (!transport) {
+      throw new Error(`${identity} is not connected`);
+    }
+    transport.deliver(message);
+  }
+
+  /**
+   * closes the signal connection of a client as if the network failed, the client keeps its
+   * session and resumes it by reconnecting
+   */
+  dropConnection(identity: string, reason = 'connection lost') {
+    this.getSession(identity).transport?.drop(reason);
+  }
+
+  /**
+   * stops delivering messages of the client's signal connection without closing it, like a
+   * half-open connection after a network change
+   */
+  stallConnection(identity: string) {
+    const { transport } = this.getSession(identity);
+    if (transport) {
+      transport.stalled = true;
+    }
+  }
+
+  /** @internal */
+  accept(transport: MockSignalTransport, url: string) {
+    if (this.refuseConnections) {
+      throw new ConnectionError('could not connect to the server');
+    }
+    const params = new URL(url).searchParams;
+    const token = params.get('access_token') ?? '';
+    const identity = this.identities.get(token) ?? identityFromToken(token);
+
+    if (params.get('reconnect') === '1') {
+      const session = this.sessions.get(identity);
+      if (!session || session.info.sid !== params.get('sid')) {
+        throw new ConnectionError('could not resume, participant is not in the room');
+      }
+      session.transport?.drop('replaced by a new connection');
+      session.transport = transport;
+      return;
+    }
+
+    const existing = this.sessions.get(identity);
+    if (existing) {
+      this.removeParticipant(identity, DisconnectReason.DUPLICATE_IDENTITY);
+    }
+    const session = this.createSession(identity, {}, transport);
+    session.autoSubscribe = params.get('auto_subscribe') !== '0';
+    transport.deliver({
+      $case: 'join',
+      join: JoinResponse.fromPartial({
+        room: { ...this.room, numParticipants: this.sessions.size },
+        participant: session.info,
+        otherParticipants: this.otherParticipants(session),
+        serverVersion: '1.4.0',
+        ...this.joinResponse,
+      }),
+    });
+    this.broadcastUpdate(session);
+    this.sendOffer(session);
+  }
+
+  /** @internal */
+  handleRequest(transport: MockSignalTransport, request: SignalRequest) {
+    const session = Array.from(this.sessions.values()).find((s) => s.transport === transport);
+    if (!session) {
+      return;
+    }
+    this.requests.push({ identity: session.info.identity, request });
+
+    const msg = request.message;
+    if (msg?.$case === 'offer') {
+      const media = parse(msg.offer.sdp).media.map(
+        (m): MockMediaDescription => ({
+          kind: m.type as MockMediaDescription['kind'],
+          direction: 'recvonly',
+        }),
+      );
+      transport.deliver({
+        $case: 'answer',
+        answer: { type: 'answer', sdp: mockSdp(0, media) },
+      });
+    } else if (msg?.$case === 'answer') {
+      session.offerPending = false;
+      if (session.offerNeeded) {
+        this.sendOffer(session);
+      }
+    } else if (msg?.$case === 'addTrack') {
+      this.handleAddTrack(session, msg.addTrack);
+    } else if (msg?.$case === 'mute') {
+      const track = session.info.tracks.find((t) => t.sid === msg.mute.sid);
+      if (track) {
+        track.muted = msg.mute.muted;
+        session.info.version += 1;
+        this.broadcastUpdate(session);
+      }
+    } else if (msg?.$case === 'subscription') {
+      this.handleSubscription(session, msg.subscription);
+    } else if (msg?.$case === 'leave') {
+      this.endSession(session);
+    } else if (msg?.$case === 'ping') {
+      transport.deliver({ $case: 'pong', pong: msg.ping });
+    }
+  }
+
+  private handleAddTrack(session: Session, request: AddTrackRequest) {
+    const track = TrackInfo.fromPartial({
+      sid: this.createSid('TR'),
+      type: request.type,
+      name: request.name,
+      source: request.source,
+      muted: request.muted,
+      width: request.width,
+      height: request.height,
+      simulcast: request.layers.length > 1,
+      layers: request.layers,
+      stereo: request.stereo,
+      encryption: request.encryption,
+    });
+    session.transport?.deliver({
+      $case: 'trackPublished',
+      trackPublished: { cid: request.cid, track },
+    });
+    this.addTrack(session, track);
+  }
+
+  private handleSubscription(session: Session, subscription: UpdateSubscription) {
+    const trackSids = [
+      ...subscription.trackSids,
+      ...subscription.participantTracks.flatMap((p) => p.trackSids),
+    ];
+    trackSids.forEach((sid) => session.subscriptions.set(sid, subscription.subscribe));
+    this.sendOffer(session);
+  }
+
+  private addTrack(session: Session, track: TrackInfo) {
+    session.info.tracks.push(track);
+    session.info.version += 1;
+    this.broadcastUpdate(session);
+    this.offerToSubscribers(session);
+  }
+
+  private createSession(
+    identity: string,
+    info: Partial<ParticipantInfo>,
+    transport?: MockSignalTransport,
+  ) {
+    if (this.sessions.has(identity)) {
+      throw new Error(`${identity} is already in the room`);
+    }
+    const session: Session = {
+      info: ParticipantInfo.fromPartial({
+        sid: this.createSid('PA'),
+        state: ParticipantInfo_State.ACTIVE,
+        joinedAt: Math.floor(Date.now() / 1000),
+        version: 1,
+        permission: {
+          canSubscribe: true,
+          canPublish: true,
+          canPublishData: true,
+        },
+        ...info,
+        identity,
+      }),
+      transport,
+      autoSubscribe: true,
+      subscriptions: new Map(),
+      offerPending: false,
+      offerNeeded: false,
+      offeredTracks: 0,
+    };
+    this.sessions.set(identity, session);
+    return session;
+  }
+
+  private endSession(session: Session) {
+    this.sessions.delete(session.info.identity);
+    session.transport?.drop('participant left');
+    session.info = {
+      ...session.info,
+      state: ParticipantInfo_State.DISCONNECTED,
+      version: session.info.version + 1,
+    };
+    this.broadcastUpdate(session);
+    this.offerToSubscribers(session);
+  }
+
+  private getSession(identity: string) {
+    const session = this.sessions.get(identity);
+    if (!session) {
+      throw new Error(`${identity} is not in the room`);
+    }
+    return session;
+  }
+
+  private createSid(prefix: string) {
+    const sid = `${prefix}_${this.nextSid}`;
+    this.nextSid += 1;
+    return sid;
+  }
+
+  private otherParticipants(session: Session) {
+    return Array.from(this.sessions.values())
+      .filter((s) => s !== session)
+      .map((s) => s.info);
+  }
+
+  private broadcast(message: SignalResponseMessage, except?: Session) {
+    this.sessions.forEach((session) => {
+      if (session !== except) {
+        session.transport?.deliver(message);
+      }
+    });
+  }
+
+  /** sends the participant's info to the other clients, or to everyone with `includeSelf` */
+  private broadcastUpdate(session: Session, includeSelf: boolean = false) {
+    this.broadcast(
+      { $case: 'update', update: { participants: [session.info] } },
+      includeSelf ? undefined : session,
+    );
+  }
+
+  private offerToSubscribers(publisher: Session) {
+    this.sessions.forEach((session) => {
+      if (session !== publisher) {
+        this.sendOffer(session);
+      }
+    });
+  }
+
+  /** offers the client the tracks it's subscribed to, one at a time */
+  private sendOffer(session: Session) {
+    const { transport } = session;
+    if (!transport) {
+      return;
+    }
+    if (session.offerPending) {
+      session.offerNeeded = true;
+      return;
+    }
+    const media: MockMediaDescription[] = [];
+    this.sessions.forEach(({ info }) => {
+      if (info === session.info) {
+        return;
+      }
+      info.tracks.forEach((track) => {
+        if (!(session.subscriptions.get(track.sid) ?? session.autoSubscribe)) {
+          return;
+        }
+        media.push({
+          kind: track.type === TrackType.VIDEO ? 'video' : 'audio',
+          direction: 'sendonly',
+          streamId: `${info.sid}|${track.sid}`,
+          trackId: track.sid,
+        });
+      });
+    });
+    if (media.length === 0 && session.offeredTracks === 0) {
+      return;
+    }
+    session.offerPending = true;
+    session.offerNeeded = false;
+    session.offeredTracks = media.length;
+    transport.deliver({
+      $case: 'offer',
+      offer: { type: 'offer', sdp: mockSdp(0, media) },
+    });
+  }
+}
@@ -0,0 +1,18 @@
+import MockMediaStreamTrack from './MockMediaStreamTrack';
+import MockRTCPeerConnection, {
+  installMockWebRTC,
+  MockCapturedMediaStreamTrack,
+  MockMediaStream,
+} from './MockRTCPeerConnection';
+import MockSFU from './MockSFU';
+import type { MockSpeaker } from './MockSFU';
+
+export {
+  installMockWebRTC,
+  MockCapturedMediaStreamTrack,
+  MockMediaStream,
+  MockMediaStreamTrack,
+  MockRTCPeerConnection,
+  MockSFU,
+  MockSpeaker,
+};
@@ -0,0 +1,6 @@
+import { webcrypto } from 'crypto';
+
+// WebCrypto is only exposed as a global starting with node 19
+if (!globalThis.crypto) {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto });
+}
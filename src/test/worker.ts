@@ -1,3 +1,5 @@
 export default class Worker {
   postMessage() {}
+
+  terminate() {}
 }
@@ -0,0 +1,29 @@
+import ReplayWindow from './ReplayWindow';
+
+describe('ReplayWindow', () => {
+  it('rejects counters that have been seen before', () => {
+    const window = new ReplayWindow(4);
+    expect(window.accepts(10)).toBeTruthy();
+    window.update(10);
+    expect(window.accepts(10)).toBeFalsy();
+    expect(window.accepts(11)).toBeTruthy();
+  });
+
+  it('accepts counters out of order within the window only', () => {
+    const window = new ReplayWindow(4);
+    window.update(10);
+    expect(window.accepts(8)).toBeTruthy();
+    window.update(8);
+    expect(window.accepts(8)).toBeFalsy();
+    window.update(13);
+    expect(window.accepts(9)).toBeFalsy();
+    expect(window.accepts(11)).toBeTruthy();
+  });
+
+  it('unwraps 32 bit counters across a rollover', () => {
+    const window = new ReplayWindow(4);
+    window.update(2 ** 32 - 1);
+    expect(window.unwrap(0)).toBe(2 ** 32);
+    expect(window.unwrap(2 ** 32 - 2)).toBe(2 ** 32 - 2);
+  });
+});
@@ -0,0 +1,68 @@
+import { REPLAY_WINDOW_SIZE } from '../e2ee/constants';
+
+/**
+ * Sliding window over the frame counters received from a single sender stream,
+ * similar to the replay protection of SRTP (https://tools.ietf.org/html/rfc3711#section-3.3.2).
+ *
+ * Frames older than the window or whose counter has been seen before are rejected.
+ */
+export default class ReplayWindow {
+  private highestCounter?: number;
+
+  private seenCounters: Set<number>;
+
+  private size: number;
+
+  constructor(size: number = REPLAY_WINDOW_SIZE) {
+    this.size = size;
+    this.seenCounters = new Set();
+  }
+
+  /**
+   * returns false if the frame is a replay or too old to tell
+   */
+  accepts(counter: number): boolean {
+    if (this.highestCounter === undefined || counter > this.highestCounter) {
+      return true;
+    }
+    return counter > this.highestCounter - this.size && !this.seenCounters.has(counter);
+  }
+
+  /**
+   * extends a counter that wraps around at 2^32 to the value closest to the highest
+   * counter received so far
+   */
+  unwrap(counter: number): number {
+    if (this.highestCounter === undefined) {
+      return counter;
+    }
+    const rollover = Math.floor(this.highestCounter / 2 ** 32);
+    let closest = counter;
+    [rollover - 1, rollover, rollover + 1].forEach((candidateRollover) => {
+      const candidate = candidateRollover * 2 ** 32 + counter;
+      if (
+        candidate >= 0 &&
+        Math.abs(candidate - this.highestCounter!) < Math.abs(closest - this.highestCounter!)
+      ) {
+        closest = candidate;
+      }
+    });
+    return closest;
+  }
+
+  /**
+   * records a counter, must only be called once the frame has been authenticated
+   */
+  update(counter: number) {
+    this.seenCounters.add(counter);
+    if (this.highestCounter === undefined || counter > this.highestCounter) {
+      this.highestCounter = counter;
+      const lowestCounter = counter - this.size;
+      this.seenCounters.forEach((seen) => {
+        if (seen <= lowestCounter) {
+          this.seenCounters.delete(seen);
+        }
+      });
+    }
+  }
+}
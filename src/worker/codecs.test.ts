@@ -0,0 +1,63 @@
+import {
+  findNaluIndices,
+  parseRbsp,
+  splitIncomingFrame,
+  splitOutgoingFrame,
+  writeRbsp,
+} from './codecs';
+
+// SPS, PPS and an IDR slice, the last one with a 3 byte start code
+const h264Frame = new Uint8Array([
+  0, 0, 0, 1, 0x67, 0x42, 0xc0, 0x1f, 0, 0, 0, 1, 0x68, 0xce, 0x3c, 0x80, 0, 0, 1, 0x65, 0x88, 0x84,
+  0x21, 0xa0,
+]);
+
+// temporal delimiter, sequence header and a frame OBU, all with size fields
+const av1Frame = new Uint8Array([
+  0x12, 0x00, 0x0a, 0x03, 0x01, 0x02, 0x03, 0x32, 0x04, 0x10, 0x20, 0x30, 0x40,
+]);
+
+describe('H.264', () => {
+  it('finds NAL units after 3 and 4 byte start codes', () => {
+    expect(findNaluIndices(h264Frame)).toEqual([4, 12, 19]);
+  });
+
+  it('leaves NAL unit headers up to the first slice unencrypted', () => {
+    const { header, body } = splitOutgoingFrame(h264Frame, 'key', 'h264');
+    expect(header.byteLength).toBe(21);
+    expect(Array.from(body)).toEqual([0x84, 0x21, 0xa0]);
+  });
+
+  it('escapes start codes and restores them', () => {
+    const data = new Uint8Array([0, 0, 1, 0, 0, 0, 0, 0, 3, 7, 0, 0]);
+    const escaped = writeRbsp(data);
+    expect(findNaluIndices(escaped)).toEqual([]);
+    expect(Array.from(parseRbsp(escaped))).toEqual(Array.from(data));
+  });
+});
+
+describe('AV1', () => {
+  it('leaves OBUs in front of the frame OBU unencrypted', () => {
+    const { header, additionalData, body } = splitOutgoingFrame(av1Frame, 'key', 'av1');
+    // the frame OBU loses its size field, which is encrypted along with the payload
+    expect(Array.from(header)).toEqual([0x12, 0x00, 0x0a, 0x03, 0x01, 0x02, 0x03, 0x30]);
+    expect(Array.from(additionalData)).toEqual([0x30]);
+    expect(Array.from(body)).toEqual([0x04, 0x10, 0x20, 0x30, 0x40]);
+  });
+
+  it('restores the frame OBU header of received frames', () => {
+    // a depacketizer adds a size field covering the encrypted data
+    const received = new Uint8Array([0x0a, 0x03, 0x01, 0x02, 0x03, 0x32, 0x02, 0xaa, 0xbb]);
+    const { header, additionalData, body } = splitIncomingFrame(received, 'key', 'av1');
+    expect(Array.from(header)).toEqual([0x0a, 0x03, 0x01, 0x02, 0x03, 0x32]);
+    expect(Array.from(additionalData)).toEqual([0x30]);
+    expect(Array.from(body)).toEqual([0xaa, 0xbb]);
+  });
+});
+
+describe('VP9', () => {
+  it('encrypts the whole frame', () => {
+    const { header } = splitOutgoingFrame(new Uint8Array([0x82, 0x49, 0x83]), 'key', 'vp9');
+    expect(header.byteLength).toBe(0);
+  });
+});
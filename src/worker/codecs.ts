@@ -0,0 +1,254 @@
+// Codec specific handling of the parts of an encoded frame that have to stay unencrypted.
+//
+// Packetizers, SFUs and depacketizers parse parts of the frame payload, e.g. H.264 NAL unit
+// headers or AV1 OBU headers. Those are left in the clear (but authenticated) while the
+// rest of the frame is encrypted.
+
+// We copy the first byte of the VP8 payload unencrypted.
+//   https://tools.ietf.org/html/rfc6386#section-9.1
+// This allows the bridge to continue detecting keyframes
+// For audio (where frame.type is not set) we do not encrypt the opus TOC byte:
+//   https://tools.ietf.org/html/rfc6716#section-3.1
+export const UNENCRYPTED_BYTES = {
+  key: 1,
+  delta: 1,
+  undefined: 1, // frame.type is not set on audio
+};
+
+export type FrameType = keyof typeof UNENCRYPTED_BYTES;
+
+export interface FrameParts {
+  /** bytes sent in the clear in front of the encrypted data */
+  header: Uint8Array;
+
+  /** bytes authenticated along with the encrypted data */
+  additionalData: Uint8Array;
+
+  /**
+   * on the sender the plaintext to encrypt, on the receiver the received ciphertext
+   * including the frame trailer
+   */
+  body: Uint8Array;
+}
+
+// H.264 NAL unit types carrying slice data, https://www.itu.int/rec/T-REC-H.264 table 7-1
+const NALU_SLICE_NON_IDR = 1;
+const NALU_SLICE_IDR = 5;
+
+// AV1 OBU types carrying frame data, https://aomediacodec.github.io/av1-spec/#obu-header-semantics
+const OBU_FRAME_HEADER = 3;
+const OBU_TILE_GROUP = 4;
+const OBU_FRAME = 6;
+
+const OBU_HAS_SIZE_FIELD = 0b0000_0010;
+
+/**
+ * splits a frame that is about to be encrypted into its unencrypted header and
+ * the plaintext to encrypt
+ */
+export function splitOutgoingFrame(data: Uint8Array, type: FrameType, codec?: string): FrameParts {
+  if (type !== undefined && codec === 'h264') {
+    return splitAt(data, h264HeaderLength(data));
+  }
+  if (type !== undefined && codec === 'av1') {
+    const obu = findAv1FrameObu(data);
+    const header = data.slice(0, obu.sizeOffset);
+    // the encrypted data extends to the end of the frame, which is only valid for an OBU
+    // without a size field. The original size is encrypted along with the payload instead
+    header[obu.offset] &= ~OBU_HAS_SIZE_FIELD;
+    const rest = data.subarray(obu.sizeOffset);
+    const body = obu.hasSizeField
+      ? rest
+      : concat(writeLeb128(data.byteLength - obu.sizeOffset), rest);
+    return { header, additionalData: header.subarray(obu.offset), body };
+  }
+  return splitAt(data, unencryptedBytes(type, codec));
+}
+
+/**
+ * assembles an encrypted frame from its unencrypted header and the ciphertext
+ * including the frame trailer
+ */
+export function joinOutgoingFrame(
+  header: Uint8Array,
+  encrypted: Uint8Array,
+  type: FrameType,
+  codec?: string,
+): ArrayBuffer {
+  if (type !== undefined && codec === 'h264') {
+    // the encrypted data must not be mistaken for a NAL unit start code
+    return concat(header, writeRbsp(encrypted)).buffer;
+  }
+  return concat(header, encrypted).buffer;
+}
+
+/**
+ * splits a received encrypted frame into its unencrypted header and the encrypted data.
+ * The returned header is the one of the decrypted frame
+ */
+export function splitIncomingFrame(data: Uint8Array, type: FrameType, codec?: string): FrameParts {
+  if (type !== undefined && codec === 'h264') {
+    const { header, additionalData, body } = splitAt(data, h264HeaderLength(data));
+    return { header, additionalData, body: parseRbsp(body) };
+  }
+  if (type !== undefined && codec === 'av1') {
+    // depacketizers add size fields to all OBUs, the one of the encrypted OBU
+    // covers the encrypted data, the original size is part of the decrypted payload
+    const obu = findAv1FrameObu(data);
+    const header = data.slice(0, obu.sizeOffset);
+    header[obu.offset] |= OBU_HAS_SIZE_FIELD;
+    const additionalData = data.slice(obu.offset, obu.sizeOffset);
+    additionalData[0] &= ~OBU_HAS_SIZE_FIELD;
+    return { header, additionalData, body: data.subarray(obu.payloadOffset) };
+  }
+  return splitAt(data, unencryptedBytes(type, codec));
+}
+
+function unencryptedBytes(type: FrameType, codec?: string) {
+  // the VP9 payload descriptor is part of the RTP packet, nothing in the frame needs to be
+  // readable for routing
+  if (type !== undefined && codec === 'vp9') {
+    return 0;
+  }
+  return UNENCRYPTED_BYTES[type];
+}
+
+function splitAt(data: Uint8Array, headerLength: number): FrameParts {
+  const header = data.subarray(0, headerLength);
+  return { header, additionalData: header, body: data.subarray(headerLength) };
+}
+
+/**
+ * Leaves everything up to and including the first byte of the first slice's header
+ * unencrypted: start codes, parameter sets and the NAL unit headers packetizers rely on.
+ */
+function h264HeaderLength(data: Uint8Array) {
+  for (const index of findNaluIndices(data)) {
+    const type = data[index] & 0x1f;
+    if (type === NALU_SLICE_NON_IDR || type === NALU_SLICE_IDR) {
+      return Math.min(index + 2, data.byteLength);
+    }
+  }
+  throw new TypeError('could not find a slice NAL unit in H.264 frame');
+}
+
+/**
+ * returns the index of the first byte of each NAL unit following an Annex B start code
+ */
+export function findNaluIndices(data: Uint8Array): Array<number> {
+  const indices: Array<number> = [];
+  for (let i = 0; i + 2 < data.byteLength; i++) {
+    if (data[i] === 0 && data[i + 1] === 0 && data[i + 2] === 1) {
+      indices.push(i + 3);
+      i += 2;
+    }
+  }
+  return indices;
+}
+
+/**
+ * inserts emulation prevention bytes so the data can't contain a start code,
+ * see section 7.4.1 of the H.264 spec
+ */
+export function writeRbsp(data: Uint8Array): Uint8Array {
+  const result: Array<number> = [];
+  let zeros = 0;
+  for (const byte of data) {
+    if (zeros >= 2 && byte <= 3) {
+      result.push(3);
+      zeros = 0;
+    }
+    result.push(byte);
+    zeros = byte === 0 ? zeros + 1 : 0;
+  }
+  return new Uint8Array(result);
+}
+
+/**
+ * removes the emulation prevention bytes inserted by [[writeRbsp]]
+ */
+export function parseRbsp(data: Uint8Array): Uint8Array {
+  const result: Array<number> = [];
+  let zeros = 0;
+  for (const byte of data) {
+    if (zeros >= 2 && byte === 3) {
+      zeros = 0;
+      continue;
+    }
+    result.push(byte);
+    zeros = byte === 0 ? zeros + 1 : 0;
+  }
+  return new Uint8Array(result);
+}
+
+interface Av1Obu {
+  /** offset of the OBU header */
+  offset: number;
+  /** offset of the size field, or of the payload if there is none */
+  sizeOffset: number;
+  /** offset of the OBU payload */
+  payloadOffset: number;
+  hasSizeField: boolean;
+}
+
+/**
+ * finds the first OBU carrying frame data, all OBUs in front of it are left unencrypted
+ */
+function findAv1FrameObu(data: Uint8Array): Av1Obu {
+  let offset = 0;
+  while (offset < data.byteLength) {
+    const obuHeader = data[offset];
+    const type = (obuHeader >> 3) & 0x0f;
+    const hasExtension = (obuHeader & 0b0000_0100) !== 0;
+    const hasSizeField = (obuHeader & OBU_HAS_SIZE_FIELD) !== 0;
+    const sizeOffset = offset + (hasExtension ? 2 : 1);
+    let payloadOffset = sizeOffset;
+    let payloadSize = data.byteLength - sizeOffset;
+    if (hasSizeField) {
+      const size = readLeb128(data, sizeOffset);
+      payloadOffset += size.length;
+      payloadSize = size.value;
+    }
+    if (type === OBU_FRAME_HEADER || type === OBU_TILE_GROUP || type === OBU_FRAME) {
+      return { offset, sizeOffset, payloadOffset, hasSizeField };
+    }
+    offset = payloadOffset + payloadSize;
+  }
+  throw new TypeError('could not find an OBU with frame data in AV1 frame');
+}
+
+/** reads an unsigned LEB128 encoded integer, https://aomediacodec.github.io/av1-spec/#leb128 */
+function readLeb128(data: Uint8Array, offset: number) {
+  let value = 0;
+  for (let i = 0; i < 8 && offset + i < data.byteLength; i++) {
+    const byte = data[offset + i];
+    value += (byte & 0x7f) * 2 ** (i * 7);
+    if ((byte & 0x80) === 0) {
+      return { value, length: i + 1 };
+    }
+  }
+  throw new TypeError('invalid leb128 value in AV1 frame');
+}
+
+function writeLeb128(value: number): Uint8Array {
+  const result: Array<number> = [];
+  do {
+    let byte = value & 0x7f;
+    value = Math.floor(value / 128);
+    if (value > 0) {
+      byte |= 0x80;
+    }
+    result.push(byte);
+  } while (value > 0);
+  return new Uint8Array(result);
+}
+
+export function concat(...arrays: Array<Uint8Array>): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((length, array) => length + array.byteLength, 0));
+  let offset = 0;
+  arrays.forEach((array) => {
+    result.set(array, offset);
+    offset += array.byteLength;
+  });
+  return result;
+}
@@ -0,0 +1,695 @@
+import { KEY_GRACE_PERIOD } from '../e2ee/constants';
+import { setLogLevel } from '../logger';
+import {
+  DecryptionFailurePolicy,
+  E2EEFrameFormat,
+  FrameResult,
+  SFrameCipherSuite,
+} from '../e2ee/types';
+import { EncryptionErrorReason } from '../room/errors';
+import E2EEManager from './e2ee';
+
+setLogLevel('silent');
+
+function createFrame(payload: Array<number>, type: 'key' | 'delta' | undefined = 'key') {
+  return {
+    synchronizationSource: 1234,
+    data: new Uint8Array(payload).buffer,
+    type: type as any,
+    timestamp: 5678,
+    getMetadata: () => ({ synchronizationSource: 1234, payloadType: '96' }),
+  };
+}
+
+function createController() {
+  return { enqueue: jest.fn() } as unknown as TransformStreamDefaultController & {
+    enqueue: jest.Mock;
+  };
+}
+
+const payload = [0x10, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+async function encryptFrame(manager: E2EEManager, participantId: string) {
+  const frame = createFrame(payload);
+  const controller = createController();
+  await manager.encodeFunction(participantId, 'TR_alice', frame, controller);
+  expect(controller.enqueue).toHaveBeenCalledTimes(1);
+  return frame;
+}
+
+describe('E2EEManager', () => {
+  it('passes frames through when no key is set for the participant', async () => {
+    const manager = new E2EEManager();
+    const frame = await encryptFrame(manager, 'alice');
+    expect(Array.from(new Uint8Array(frame.data))).toEqual(payload);
+  });
+
+  it('never sends frames of an encrypted track without a key', async () => {
+    const manager = new E2EEManager();
+    manager.setCodec('TR_alice', 'vp8');
+    const controller = createController();
+    await manager.encodeFunction('alice', 'TR_alice', createFrame(payload), controller);
+    expect(controller.enqueue).not.toHaveBeenCalled();
+
+    manager.removeTrack('TR_alice');
+    await manager.encodeFunction('alice', 'TR_alice', createFrame(payload), controller);
+    expect(controller.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not send frames of an encrypted track when there is only a key for SFrame', async () => {
+    const hkdfKey = await crypto.subtle.importKey('raw', new Uint8Array(16), 'HKDF', false, [
+      'deriveBits',
+      'deriveKey',
+    ]);
+    const manager = new E2EEManager();
+    manager.setCodec('TR_alice', 'vp8');
+    await manager.setKey('alice', 0, hkdfKey);
+    expect(manager.participantKeys.get('alice')?.currentCryptoKey).toBeUndefined();
+
+    const controller = createController();
+    await manager.encodeFunction('alice', 'TR_alice', createFrame(payload), controller);
+    expect(controller.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('holds back frames until the key of a new password is derived', async () => {
+    const manager = new E2EEManager();
+    manager.setCodec('TR_alice', 'vp8');
+    const passwordSet = manager.setPassword('alice', 'alice-password');
+    const frame = createFrame(payload);
+    const controller = createController();
+    const encoded = manager.encodeFunction('alice', 'TR_alice', frame, controller);
+    await Promise.all([passwordSet, encoded]);
+    expect(controller.enqueue).toHaveBeenCalledTimes(1);
+    expect(frame.data.byteLength).toBeGreaterThan(payload.length);
+  });
+
+  it('encrypts with the key ring of the sending participant', async () => {
+    const sender = new E2EEManager();
+    await sender.setPassword('alice', 'alice-password');
+    const frame = await encryptFrame(sender, 'alice');
+    expect(frame.data.byteLength).toBeGreaterThan(payload.length);
+
+    const receiver = new E2EEManager();
+    await receiver.setPassword('alice', 'alice-password');
+    await receiver.setPassword('bob', 'bob-password');
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', frame, controller);
+    expect(controller.enqueue).toHaveBeenCalledTimes(1);
+    expect(Array.from(new Uint8Array(frame.data))).toEqual(payload);
+  });
+
+  it('cannot decrypt frames with the keys of another participant', async () => {
+    const sender = new E2EEManager();
+    await sender.setPassword('alice', 'alice-password');
+    const frame = await encryptFrame(sender, 'alice');
+    const encrypted = Array.from(new Uint8Array(frame.data));
+
+    const receiver = new E2EEManager();
+    await receiver.setPassword('bob', 'bob-password');
+    await receiver.decodeFunction('bob', 'TR_alice', frame, createController());
+    expect(Array.from(new Uint8Array(frame.data))).toEqual(encrypted);
+  });
+
+  it('encrypts and decrypts with raw keys supplied by a key provider', async () => {
+    const rawKey = new Uint8Array(16).fill(7);
+    const sender = new E2EEManager();
+    await sender.setKey('alice', 3, rawKey);
+    const frame = await encryptFrame(sender, 'alice');
+    // the key index is sent as the last byte of the trailer
+    expect(new Uint8Array(frame.data)[frame.data.byteLength - 1]).toBe(3);
+
+    const receiver = new E2EEManager();
+    const cryptoKey = await crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, [
+      'encrypt',
+      'decrypt',
+    ]);
+    await receiver.setKey('alice', 3, cryptoKey);
+    await receiver.decodeFunction('alice', 'TR_alice', frame, createController());
+    expect(Array.from(new Uint8Array(frame.data))).toEqual(payload);
+  });
+
+  it.each([
+    ['h264', [0, 0, 0, 1, 0x65, 0x88, 0, 0, 0, 0, 1, 2, 3]],
+    ['av1', [0x12, 0x00, 0x32, 0x03, 0x00, 0x00, 0x01]],
+  ])('encrypts and decrypts %s frames', async (codec, data) => {
+    const sender = new E2EEManager();
+    sender.setCodec('TR_alice', codec);
+    await sender.setPassword('alice', 'alice-password');
+    const frame = createFrame(data);
+    await sender.encodeFunction('alice', 'TR_alice', frame, createController());
+    expect(frame.data.byteLength).toBeGreaterThan(data.length);
+
+    const receiver = new E2EEManager();
+    receiver.setCodec('TR_alice', codec);
+    await receiver.setPassword('alice', 'alice-password');
+    await receiver.decodeFunction('alice', 'TR_alice', frame, createController());
+    expect(Array.from(new Uint8Array(frame.data))).toEqual(data);
+  });
+
+  it('does not switch to empty key ring slots', async () => {
+    const manager = new E2EEManager();
+    await manager.setKey('alice', 0, new Uint8Array(16));
+    manager.setKeyIndex('alice', 1);
+    expect(manager.participantKeys.get('alice')?.currentKeyId).toBe(0);
+  });
+
+  it('follows the key index of the sender when it rotates', async () => {
+    const sender = new E2EEManager();
+    await sender.setPassword('alice', 'alice-password');
+    sender.setKeyIndex('alice', 2);
+    const frame = await encryptFrame(sender, 'alice');
+
+    const receiver = new E2EEManager();
+    await receiver.setPassword('alice', 'alice-password');
+    await receiver.decodeFunction('alice', 'TR_alice', frame, createController());
+    expect(Array.from(new Uint8Array(frame.data))).toEqual(payload);
+    expect(receiver.participantKeys.get('alice')?.currentKeyId).toBe(2);
+  });
+
+  it('keeps decrypting frames of the previous password during the grace period', async () => {
+    const sender = new E2EEManager();
+    await sender.setPassword('alice', 'old-password');
+    const oldFrames = [await encryptFrame(sender, 'alice'), await encryptFrame(sender, 'alice')];
+    await sender.setPassword('alice', 'new-password');
+    const newFrame = await encryptFrame(sender, 'alice');
+
+    const onMessage = jest.fn();
+    const receiver = new E2EEManager(onMessage);
+    await receiver.setPassword('alice', 'old-password');
+    await receiver.setPassword('alice', 'new-password');
+
+    await receiver.decodeFunction('alice', 'TR_alice', oldFrames[0], createController());
+    expect(Array.from(new Uint8Array(oldFrames[0].data))).toEqual(payload);
+    expect(onMessage).not.toHaveBeenCalled();
+
+    await receiver.decodeFunction('alice', 'TR_alice', newFrame, createController());
+    expect(Array.from(new Uint8Array(newFrame.data))).toEqual(payload);
+    expect(onMessage).toHaveBeenCalledWith({
+      kind: 'keyChanged',
+      participantId: 'alice',
+      trackId: 'TR_alice',
+    });
+
+    const now = Date.now();
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now + KEY_GRACE_PERIOD + 1);
+    try {
+      const encrypted = Array.from(new Uint8Array(oldFrames[1].data));
+      await receiver.decodeFunction('alice', 'TR_alice', oldFrames[1], createController());
+      expect(Array.from(new Uint8Array(oldFrames[1].data))).toEqual(encrypted);
+    } finally {
+      dateNow.mockRestore();
+    }
+  });
+
+  it('keeps the key ring when its password is set again', async () => {
+    const manager = new E2EEManager();
+    await manager.setPassword('alice', 'alice-password');
+    const keys = manager.participantKeys.get('alice');
+
+    await Promise.all([
+      manager.setPassword('alice', 'alice-password'),
+      manager.setPassword('alice', 'alice-password'),
+    ]);
+
+    expect(manager.participantKeys.get('alice')).toBe(keys);
+    expect(keys?.keyChangePending).toBe(false);
+  });
+
+  it('writes the IV length and key index in the trailer', async () => {
+    const sender = new E2EEManager();
+    await sender.setKey('alice', 3, new Uint8Array(16));
+    const data = new Uint8Array((await encryptFrame(sender, 'alice')).data);
+    expect(Array.from(data.subarray(data.byteLength - 2))).toEqual([12, 3]);
+  });
+
+  it('tags trailers with the key ring generation when the format has it', async () => {
+    const generationTrailer = {
+      frameFormat: E2EEFrameFormat.GenerationTrailer,
+      cipherSuite: SFrameCipherSuite.AES_128_GCM_SHA256_128,
+    };
+    const sender = new E2EEManager();
+    sender.setFrameFormat('TR_alice', generationTrailer);
+    await sender.setPassword('alice', 'old-password');
+    const oldFrame = await encryptFrame(sender, 'alice');
+    await sender.setPassword('alice', 'new-password');
+    const newFrame = await encryptFrame(sender, 'alice');
+    const generations = [oldFrame, newFrame].map(
+      (frame) => new Uint8Array(frame.data).at(-2)! >> 4,
+    );
+    expect(generations[0]).not.toBe(generations[1]);
+
+    const receiver = new E2EEManager();
+    receiver.setFrameFormat('TR_alice', generationTrailer);
+    await receiver.setPassword('alice', 'old-password');
+    await receiver.setPassword('alice', 'new-password');
+    await receiver.decodeFunction('alice', 'TR_alice', oldFrame, createController());
+    await receiver.decodeFunction('alice', 'TR_alice', newFrame, createController());
+    expect(Array.from(new Uint8Array(oldFrame.data))).toEqual(payload);
+    expect(Array.from(new Uint8Array(newFrame.data))).toEqual(payload);
+  });
+
+  it('reports decryption failures once until the track recovers', async () => {
+    const sender = new E2EEManager();
+    await sender.setPassword('alice', 'alice-password');
+    const onError = jest.fn();
+    const receiver = new E2EEManager(onError);
+    await receiver.setPassword('alice', 'wrong-password');
+
+    await receiver.decodeFunction(
+      'alice',
+      'TR_alice',
+      await encryptFrame(sender, 'alice'),
+      createController(),
+    );
+    await receiver.decodeFunction(
+      'alice',
+      'TR_alice',
+      await encryptFrame(sender, 'alice'),
+      createController(),
+    );
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      kind: 'error',
+      reason: EncryptionErrorReason.DecryptionFailed,
+      participantId: 'alice',
+      trackId: 'TR_alice',
+      keyIndex: 0,
+    });
+
+    await receiver.setPassword('alice', 'alice-password');
+    await receiver.decodeFunction(
+      'alice',
+      'TR_alice',
+      await encryptFrame(sender, 'alice'),
+      createController(),
+    );
+    await receiver.setPassword('alice', 'wrong-password');
+    await receiver.decodeFunction(
+      'alice',
+      'TR_alice',
+      await encryptFrame(sender, 'alice'),
+      createController(),
+    );
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports frames encrypted with an unknown key index', async () => {
+    const sender = new E2EEManager();
+    await sender.setKey('alice', 5, new Uint8Array(16));
+    const onError = jest.fn();
+    const receiver = new E2EEManager(onError);
+    await receiver.setKey('alice', 0, new Uint8Array(16));
+
+    await receiver.decodeFunction(
+      'alice',
+      'TR_alice',
+      await encryptFrame(sender, 'alice'),
+      createController(),
+    );
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: EncryptionErrorReason.MissingKey, keyIndex: 5 }),
+    );
+  });
+
+  it('drops and reports replayed frames', async () => {
+    const sender = new E2EEManager();
+    await sender.setPassword('alice', 'alice-password');
+    const frame = await encryptFrame(sender, 'alice');
+    const encrypted = frame.data.slice(0);
+
+    const onMessage = jest.fn();
+    const receiver = new E2EEManager(onMessage);
+    await receiver.setPassword('alice', 'alice-password');
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', frame, controller);
+    await receiver.decodeFunction('alice', 'TR_alice', { ...frame, data: encrypted }, controller);
+    expect(controller.enqueue).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: EncryptionErrorReason.ReplayedFrame, trackId: 'TR_alice' }),
+    );
+  });
+
+  it('accepts frames arriving out of order within the replay window', async () => {
+    const sender = new E2EEManager();
+    await sender.setPassword('alice', 'alice-password');
+    const first = await encryptFrame(sender, 'alice');
+    const second = await encryptFrame(sender, 'alice');
+
+    const receiver = new E2EEManager();
+    await receiver.setPassword('alice', 'alice-password');
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', second, controller);
+    await receiver.decodeFunction('alice', 'TR_alice', first, controller);
+    expect(controller.enqueue).toHaveBeenCalledTimes(2);
+    expect(Array.from(new Uint8Array(first.data))).toEqual(payload);
+  });
+
+  it('forgets the replay windows of removed tracks and participants', async () => {
+    const sender = new E2EEManager();
+    await sender.setPassword('alice', 'alice-password');
+
+    const receiver = new E2EEManager();
+    await receiver.setPassword('alice', 'alice-password');
+    const controller = createController();
+    const replayWindows = (receiver as any).replayWindows as Map<string, unknown>;
+    for (const trackId of ['TR_audio', 'TR_video']) {
+      await receiver.decodeFunction(
+        'alice',
+        trackId,
+        await encryptFrame(sender, 'alice'),
+        controller,
+      );
+    }
+    expect(replayWindows.size).toBe(2);
+
+    receiver.removeTrack('TR_audio');
+    expect(Array.from(replayWindows.keys())).toEqual(['TR_video']);
+    receiver.removeKeys('alice');
+    expect(replayWindows.size).toBe(0);
+  });
+
+  it('never reuses an IV for a synchronization source', () => {
+    const manager = new E2EEManager();
+    const ivs = new Set<string>();
+    for (let i = 0; i < 0x10010; i++) {
+      ivs.add(Array.from(new Uint8Array(manager.makeIV(1234))).join());
+    }
+    expect(ivs.size).toBe(0x10010);
+  });
+
+  it('reports frame counts of tracks that had frames since the last report', async () => {
+    const onMessage = jest.fn();
+    const sender = new E2EEManager(onMessage);
+    const statsMessages = () =>
+      onMessage.mock.calls.map(([message]) => message).filter((m) => m.kind === 'frameStats');
+
+    await encryptFrame(sender, 'alice');
+    sender.reportFrameStats();
+    expect(statsMessages()).toEqual([
+      {
+        kind: 'frameStats',
+        trackId: 'TR_alice',
+        processedFrames: 0,
+        failedFrames: 0,
+        unencryptedFrames: 1,
+        droppedFrames: 0,
+        lastFrameResult: FrameResult.Unencrypted,
+      },
+    ]);
+
+    await sender.setPassword('alice', 'alice-password');
+    await encryptFrame(sender, 'alice');
+    await encryptFrame(sender, 'alice');
+    sender.reportFrameStats();
+    sender.reportFrameStats();
+    expect(statsMessages()).toHaveLength(2);
+    expect(statsMessages()[1]).toMatchObject({
+      processedFrames: 2,
+      unencryptedFrames: 1,
+      lastFrameResult: FrameResult.Processed,
+    });
+  });
+
+  it('cannot decrypt frames of a room with a different key salt', async () => {
+    const sender = new E2EEManager();
+    sender.keyDerivationOptions = { ...sender.keyDerivationOptions, salt: 'RM_one' };
+    await sender.setPassword('alice', 'alice-password');
+    const frame = await encryptFrame(sender, 'alice');
+
+    const receiver = new E2EEManager();
+    receiver.keyDerivationOptions = { ...receiver.keyDerivationOptions, salt: 'RM_other' };
+    await receiver.setPassword('alice', 'alice-password');
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', frame, controller);
+    expect(controller.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('keeps other participants keys when removing one', async () => {
+    const manager = new E2EEManager();
+    await manager.setPassword('alice', 'alice-password');
+    await manager.setPassword('bob', 'bob-password');
+    manager.removeKeys('alice');
+
+    expect(manager.participantKeys.has('alice')).toBeFalsy();
+    expect(manager.participantKeys.get('bob')?.currentCryptoKey).toBeDefined();
+  });
+});
+
+describe('decryption failures', () => {
+  async function undecryptableFrame(audio = false) {
+    const sender = new E2EEManager();
+    await sender.setPassword('alice', 'alice-password');
+    const frame = createFrame(payload);
+    if (audio) {
+      // frame.type is not set on audio
+      frame.type = undefined;
+    }
+    await sender.encodeFunction('alice', 'TR_alice', frame, createController());
+    return frame;
+  }
+
+  async function createReceiver(
+    decryptionFailurePolicy: DecryptionFailurePolicy,
+    onMessage?: jest.Mock,
+  ) {
+    const receiver = new E2EEManager(onMessage);
+    receiver.configure({ decryptionFailurePolicy, undecryptableThreshold: 3 });
+    await receiver.setPassword('alice', 'wrong-password');
+    return receiver;
+  }
+
+  it('drops frames by default', async () => {
+    const receiver = new E2EEManager();
+    await receiver.setPassword('alice', 'wrong-password');
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', await undecryptableFrame(), controller);
+    expect(controller.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('forwards frames when passing through', async () => {
+    const receiver = await createReceiver(DecryptionFailurePolicy.PassThrough);
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', await undecryptableFrame(), controller);
+    expect(controller.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('replaces audio frames with silence', async () => {
+    const receiver = await createReceiver(DecryptionFailurePolicy.Replace);
+    const audioController = createController();
+    const audioFrame = await undecryptableFrame(true);
+    await receiver.decodeFunction('alice', 'TR_audio', audioFrame, audioController);
+    expect(audioController.enqueue).toHaveBeenCalledTimes(1);
+    expect(Array.from(new Uint8Array(audioFrame.data))).toEqual([0xf8, 0xff, 0xfe]);
+
+    const videoController = createController();
+    await receiver.decodeFunction('alice', 'TR_video', await undecryptableFrame(), videoController);
+    expect(videoController.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('treats frames of participants without keys as undecryptable', async () => {
+    const onMessage = jest.fn();
+    const receiver = new E2EEManager(onMessage);
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', await undecryptableFrame(), controller);
+    expect(controller.enqueue).not.toHaveBeenCalled();
+    expect(onMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'error', reason: EncryptionErrorReason.MissingKey }),
+    );
+
+    const passThrough = new E2EEManager();
+    passThrough.configure({
+      decryptionFailurePolicy: DecryptionFailurePolicy.PassThrough,
+      undecryptableThreshold: 3,
+    });
+    const passThroughController = createController();
+    await passThrough.decodeFunction(
+      'alice',
+      'TR_alice',
+      await undecryptableFrame(),
+      passThroughController,
+    );
+    expect(passThroughController.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats frames as undecryptable once the keys are removed', async () => {
+    const receiver = new E2EEManager();
+    await receiver.setPassword('alice', 'alice-password');
+    receiver.removeKeys('alice');
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', await undecryptableFrame(), controller);
+    expect(controller.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('treats frames as undecryptable when there is only a key for SFrame', async () => {
+    const hkdfKey = await crypto.subtle.importKey('raw', new Uint8Array(16), 'HKDF', false, [
+      'deriveBits',
+      'deriveKey',
+    ]);
+    const onMessage = jest.fn();
+    const receiver = new E2EEManager(onMessage);
+    await receiver.setKey('alice', 0, hkdfKey);
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', await undecryptableFrame(), controller);
+    expect(controller.enqueue).not.toHaveBeenCalled();
+    expect(onMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: EncryptionErrorReason.MissingKey }),
+    );
+  });
+
+  it('decrypts frames arriving while the key of the password is derived', async () => {
+    const sender = new E2EEManager();
+    await sender.setPassword('alice', 'alice-password');
+    const frame = await encryptFrame(sender, 'alice');
+
+    const receiver = new E2EEManager();
+    const passwordSet = receiver.setPassword('alice', 'alice-password');
+    const controller = createController();
+    await Promise.all([
+      passwordSet,
+      receiver.decodeFunction('alice', 'TR_alice', frame, controller),
+    ]);
+    expect(controller.enqueue).toHaveBeenCalledTimes(1);
+    expect(Array.from(new Uint8Array(frame.data))).toEqual(payload);
+  });
+
+  it('marks a track undecryptable after consecutive failures', async () => {
+    const onMessage = jest.fn();
+    const receiver = await createReceiver(DecryptionFailurePolicy.Drop, onMessage);
+    for (let i = 0; i < 4; i++) {
+      await receiver.decodeFunction(
+        'alice',
+        'TR_alice',
+        await undecryptableFrame(),
+        createController(),
+      );
+    }
+    const stateMessages = () =>
+      onMessage.mock.calls.map(([message]) => message).filter((m) => m.kind === 'decryptionState');
+    expect(stateMessages()).toEqual([
+      { kind: 'decryptionState', trackId: 'TR_alice', undecryptable: true },
+    ]);
+
+    await receiver.setPassword('alice', 'alice-password');
+    await receiver.decodeFunction(
+      'alice',
+      'TR_alice',
+      await undecryptableFrame(),
+      createController(),
+    );
+    expect(stateMessages()).toEqual([
+      { kind: 'decryptionState', trackId: 'TR_alice', undecryptable: true },
+      { kind: 'decryptionState', trackId: 'TR_alice', undecryptable: false },
+    ]);
+  });
+});
+
+describe('SFrame format', () => {
+  const sframe = {
+    frameFormat: E2EEFrameFormat.SFrame,
+    cipherSuite: SFrameCipherSuite.AES_128_GCM_SHA256_128,
+  };
+
+  function createManager(codec?: string, onMessage?: jest.Mock) {
+    const manager = new E2EEManager(onMessage);
+    manager.setCodec('TR_alice', codec);
+    manager.setFrameFormat('TR_alice', sframe);
+    return manager;
+  }
+
+  it.each([
+    ['vp8', payload],
+    ['h264', [0, 0, 0, 1, 0x65, 0x88, 0, 0, 0, 0, 1, 2, 3]],
+  ])('encrypts and decrypts %s frames', async (codec, data) => {
+    const sender = createManager(codec);
+    await sender.setPassword('alice', 'alice-password');
+    const frame = createFrame(data);
+    await sender.encodeFunction('alice', 'TR_alice', frame, createController());
+    expect(frame.data.byteLength).toBeGreaterThan(data.length);
+
+    const receiver = createManager(codec);
+    await receiver.setPassword('alice', 'alice-password');
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', frame, controller);
+    expect(controller.enqueue).toHaveBeenCalledTimes(1);
+    expect(Array.from(new Uint8Array(frame.data))).toEqual(data);
+  });
+
+  it('puts the SFrame header behind the unencrypted bytes', async () => {
+    const sender = createManager('vp8');
+    await sender.setKey('alice', 3, new Uint8Array(16));
+    const frame = await encryptFrame(sender, 'alice');
+    const data = new Uint8Array(frame.data);
+    expect(data[0]).toBe(payload[0]);
+    // key id 3 in the config byte, followed by the counter with the SSRC in its upper half,
+    // 1234 only takes 2 bytes so the counter is 6 bytes long
+    expect(data[1]).toBe(0x3d);
+    expect(new DataView(frame.data).getUint16(2)).toBe(1234);
+  });
+
+  it('tells the key rings of consecutive passwords apart', async () => {
+    const sender = createManager('vp8');
+    await sender.setPassword('alice', 'old-password');
+    const oldFrame = await encryptFrame(sender, 'alice');
+    await sender.setPassword('alice', 'new-password');
+    const newFrame = await encryptFrame(sender, 'alice');
+
+    const receiver = createManager('vp8');
+    await receiver.setPassword('alice', 'old-password');
+    await receiver.setPassword('alice', 'new-password');
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', oldFrame, controller);
+    await receiver.decodeFunction('alice', 'TR_alice', newFrame, controller);
+    expect(controller.enqueue).toHaveBeenCalledTimes(2);
+    expect(Array.from(new Uint8Array(oldFrame.data))).toEqual(payload);
+    expect(Array.from(new Uint8Array(newFrame.data))).toEqual(payload);
+  });
+
+  it('drops replayed frames', async () => {
+    const sender = createManager('vp8');
+    await sender.setPassword('alice', 'alice-password');
+    const frame = await encryptFrame(sender, 'alice');
+    const encrypted = frame.data.slice(0);
+
+    const onMessage = jest.fn();
+    const receiver = createManager('vp8', onMessage);
+    await receiver.setPassword('alice', 'alice-password');
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', frame, controller);
+    await receiver.decodeFunction('alice', 'TR_alice', { ...frame, data: encrypted }, controller);
+    expect(controller.enqueue).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: EncryptionErrorReason.ReplayedFrame }),
+    );
+  });
+
+  it('does not pass on frames of participants without keys', async () => {
+    const sender = createManager('vp8');
+    await sender.setPassword('alice', 'alice-password');
+    const frame = await encryptFrame(sender, 'alice');
+
+    const onMessage = jest.fn();
+    const receiver = createManager('vp8', onMessage);
+    const controller = createController();
+    await receiver.decodeFunction('alice', 'TR_alice', frame, controller);
+    expect(controller.enqueue).not.toHaveBeenCalled();
+    expect(onMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: EncryptionErrorReason.MissingKey }),
+    );
+  });
+
+  it('does not send frames it cannot derive SFrame keys for', async () => {
+    const aesKey = await crypto.subtle.importKey('raw', new Uint8Array(16), 'AES-GCM', false, [
+      'encrypt',
+      'decrypt',
+    ]);
+    const onMessage = jest.fn();
+    const sender = createManager('vp8', onMessage);
+    await sender.setKey('alice', 0, aesKey);
+    const controller = createController();
+    await sender.encodeFunction('alice', 'TR_alice', createFrame(payload), controller);
+    expect(controller.enqueue).not.toHaveBeenCalled();
+    expect(onMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: EncryptionErrorReason.EncryptionFailed }),
+    );
+  });
+});
@@ -1,7 +1,49 @@
-import log, { setLogLevel } from '../logger';
-
-// TODO: not sure if there's a way to properly share this with the parent/non-worker library 😬
-setLogLevel('debug');
+import {
+  KEY_GENERATIONS,
+  KEY_GRACE_PERIOD,
+  KEY_RING_LOOKAHEAD,
+  KEY_RING_SIZE,
+  OPUS_SILENCE_FRAME,
+  PBKDF2_ITERATIONS,
+  UNDECRYPTABLE_THRESHOLD,
+} from '../e2ee/constants';
+import {
+  deriveKeyGeneration,
+  deriveRingKeyBits,
+  ratchetSecret,
+  stretchPassword,
+} from '../e2ee/keyDerivation';
+import {
+  DecryptionFailurePolicy,
+  E2EEFrameFormat,
+  FrameResult,
+  SFrameCipherSuite,
+} from '../e2ee/types';
+import type {
+  DecryptionFailureOptions,
+  E2EEWorkerMessage,
+  FrameFormatOptions,
+  FrameStatsMessage,
+  KeyDerivationOptions,
+} from '../e2ee/types';
+import log from '../logger';
+import { EncryptionErrorReason } from '../room/errors';
+import {
+  concat,
+  FrameType,
+  joinOutgoingFrame,
+  splitIncomingFrame,
+  splitOutgoingFrame,
+} from './codecs';
+import ReplayWindow from './ReplayWindow';
+import {
+  decodeSFrameHeader,
+  deriveSFrameKey,
+  encodeSFrameHeader,
+  SFrameKey,
+  sframeDecrypt,
+  sframeEncrypt,
+} from './sframe';
 
 // Large parts of this e2ee code is borrowed from jitsi's implementation:
 // https://github.com/jitsi/lib-jitsi-meet/blob/84277e1ff3fa925b60d70fe76aea57e8bf182843/modules/e2ee/Context.js#L11-L20
@@ -16,33 +58,22 @@ const IV_LENGTH = 12;
 
 // Our encoded frame with frame trailer:
 //
-// ---------+-------------------------+-+---------+----
-// payload  |IV...(length = IV_LENGTH)|R|IV_LENGTH|KID |
-// ---------+-------------------------+-+---------+----
+// ---------+-------------------------+---------+----
+// payload  |IV...(length = IV_LENGTH)|IV_LENGTH|KID |
+// ---------+-------------------------+---------+----
+//
+// The IV consists of the 32 bit SSRC of the sender followed by a 64 bit frame counter, see makeIV.
+// With E2EEFrameFormat.GenerationTrailer the upper 4 bits of the IV_LENGTH byte hold the
+// generation of the key ring, it changes with the password, see ParticipantKeys.generation.
 //
 // The trailer is similar to the frame header described in
 // https://tools.ietf.org/html/draft-omara-sframe-00#section-4.2
 // but we put it at the end.
 
-// We copy the first byte of the VP8 payload unencrypted.
-//   https://tools.ietf.org/html/rfc6386#section-9.1
-// This allows the bridge to continue detecting keyframes
-// For audio (where frame.type is not set) we do not encrypt the opus TOC byte:
-//   https://tools.ietf.org/html/rfc6716#section-3.1
-const UNENCRYPTED_BYTES = {
-  key: 1,
-  delta: 1,
-  undefined: 1, // frame.type is not set on audio
-};
-
-// We use a single byte for the key identifier in the frame trailer so we can have a
-// circular array of one byte's worth of keys
-const KEY_RING_SIZE = 256;
-
 type Chunk = {
   synchronizationSource: number;
   data: ArrayBuffer;
-  type: keyof typeof UNENCRYPTED_BYTES;
+  type: FrameType;
   timestamp: number;
   getMetadata: () => {
     synchronizationSource: number;
@@ -68,100 +99,600 @@ export function dump(encodedFrame: Chunk, direction: string, max = 16) {
   });
 }
 
-async function generatePresharedKey(password: string) {
-  const passwordBytes = new TextEncoder().encode(password);
-  const presharedKey = await crypto.subtle.importKey('raw', passwordBytes, 'PBKDF2', false, [
-    'deriveBits',
-    'deriveKey',
-  ]);
+interface KeyMaterial {
+  /** AES-GCM key used with the trailer frame format */
+  key?: CryptoKey;
+  /** HKDF key SFrame keys are derived from */
+  baseKey?: CryptoKey;
+}
 
-  log.debug('generated preshared key', { presharedKey });
-  return presharedKey;
+async function importKeyMaterial(bytes: ArrayBuffer | Uint8Array): Promise<KeyMaterial> {
+  const key = await crypto.subtle.importKey('raw', bytes, ENCRYPTION_ALGORITHM, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+  const baseKey = await crypto.subtle.importKey('raw', bytes, 'HKDF', false, ['deriveBits']);
+  return { key, baseKey };
 }
 
-export default class E2EEManager {
-  keyRing: Array<CryptoKey>;
+/**
+ * Key ring of a single participant. Every participant encrypts its own tracks with keys
+ * derived from its own password, receivers keep one of these for each sender.
+ */
+export class ParticipantKeys {
+  /** AES-GCM keys by key id, slots of keys that aren't set or derived yet are empty */
+  keyRing: Array<CryptoKey | undefined>;
 
   currentKeyId: number;
 
-  sendCounts: Map<number, number>;
-
+  /** secret stretched from the password, the key ring is ratcheted from it */
   presharedKey: CryptoKey | undefined;
 
+  /** password the key ring is derived from, set as soon as its derivation starts */
+  password: string | undefined;
+
+  /**
+   * generation frames encrypted with this key ring are tagged with, derived from the password.
+   * SFrame key ids are offset by `generation * KEY_RING_SIZE`, [[E2EEFrameFormat.Trailer]]
+   * frames aren't tagged
+   */
+  generation: number;
+
+  /** set for the key ring of a new password until a frame has been decrypted with it */
+  keyChangePending: boolean;
+
+  /** HKDF base keys the SFrame keys are derived from, by key id */
+  baseKeys: Array<CryptoKey | undefined>;
+
+  /** ratchet secrets of the password's key ring by key id, derived on demand */
+  private secrets: Array<Promise<CryptoKey> | undefined>;
+
+  /** derivations of the password's keys by key id, a resolved promise for keys that were set */
+  private derivations: Array<Promise<void> | undefined>;
+
+  /** set while a password is stretched and its first key derived */
+  private passwordSet?: Promise<void>;
+
+  private sframeKeys: Array<
+    { cipherSuite: SFrameCipherSuite; key: Promise<SFrameKey> } | undefined
+  >;
+
   constructor() {
     this.keyRing = new Array(KEY_RING_SIZE);
+    this.baseKeys = new Array(KEY_RING_SIZE);
+    this.sframeKeys = new Array(KEY_RING_SIZE);
+    this.secrets = new Array(KEY_RING_SIZE);
+    this.derivations = new Array(KEY_RING_SIZE);
     this.currentKeyId = 0;
-    this.sendCounts = new Map();
+    this.generation = 0;
+    this.keyChangePending = false;
   }
 
-  async setPassword(password: string) {
-    if (password !== '') {
-      this.presharedKey = await generatePresharedKey(password);
-      this.currentKeyId = 0;
+  /**
+   * replaces the key ring with keys derived from `password`. Only the first key is derived
+   * right away, the keys of the previous password stay in use until it's ready
+   */
+  async setPassword(password: string, keyDerivationOptions: KeyDerivationOptions) {
+    if (password === '') {
+      return;
+    }
+    if (password === this.password) {
+      await this.passwordSet;
+      return;
+    }
+    const passwordSet = this.applyPassword(password, keyDerivationOptions);
+    this.password = password;
+    this.passwordSet = passwordSet;
+    try {
+      await passwordSet;
+    } catch (error) {
+      if (this.passwordSet === passwordSet) {
+        this.password = undefined;
+      }
+      throw error;
+    } finally {
+      if (this.passwordSet === passwordSet) {
+        this.passwordSet = undefined;
+      }
+    }
+  }
 
-      await this.prefillKeyRing();
+  private async applyPassword(password: string, keyDerivationOptions: KeyDerivationOptions) {
+    const presharedKey = await stretchPassword(password, keyDerivationOptions);
+    const firstKey = await importKeyMaterial(await deriveRingKeyBits(presharedKey));
+    const generation = await deriveKeyGeneration(presharedKey);
 
-      log.debug('prefilled key ring', { keyRing: this.keyRing });
-    }
+    this.presharedKey = presharedKey;
+    this.generation = generation;
+    this.keyRing = new Array(KEY_RING_SIZE);
+    this.baseKeys = new Array(KEY_RING_SIZE);
+    this.sframeKeys = new Array(KEY_RING_SIZE);
+    this.secrets = new Array(KEY_RING_SIZE);
+    this.derivations = new Array(KEY_RING_SIZE);
+    this.secrets[0] = Promise.resolve(presharedKey);
+    this.derivations[0] = Promise.resolve();
+    this.setKeyMaterial(0, firstKey);
+    this.currentKeyId = 0;
+    this.deriveLookahead();
+    log.debug('derived first key of key ring');
   }
 
-  async generateNextKeyForId(id: number): Promise<CryptoKey> {
+  /**
+   * derives the key at `keyId` from the password if it hasn't been yet, the keys are ratcheted
+   * forward with HKDF, so a key that leaks doesn't reveal the keys at lower indexes.
+   * @returns undefined if there's no password to derive the key from
+   */
+  deriveKey(keyId: number): Promise<void> | undefined {
     if (!this.presharedKey) {
-      throw new Error('presharedKey must be set');
-    }
-    const alg = { name: ENCRYPTION_ALGORITHM, length: 256 };
-    const nextKeyId = (id + 1) % this.keyRing.length;
-    const keyIdSalt = new Int8Array(1);
-    keyIdSalt[0] = nextKeyId;
-    const key = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt: keyIdSalt,
-        iterations: 1,
-        hash: 'SHA-256',
-      },
-      this.presharedKey,
-      alg,
-      false,
-      ['encrypt', 'decrypt'],
-    );
-    return key;
+      return undefined;
+    }
+    let derivation = this.derivations[keyId];
+    if (!derivation) {
+      const derivations = this.derivations;
+      derivation = this.getSecret(keyId)
+        .then((secret) => deriveRingKeyBits(secret))
+        .then((bits) => importKeyMaterial(bits))
+        .then((keyMaterial) => {
+          // skip keys of a previous password and slots that have been set in the meantime
+          if (this.derivations === derivations && derivations[keyId] === derivation) {
+            this.setKeyMaterial(keyId, keyMaterial);
+          }
+        });
+      derivations[keyId] = derivation;
+    }
+    return derivation;
+  }
+
+  private getSecret(keyId: number): Promise<CryptoKey> {
+    let secret = this.secrets[keyId];
+    if (!secret) {
+      secret = this.getSecret(keyId - 1).then(ratchetSecret);
+      this.secrets[keyId] = secret;
+    }
+    return secret;
   }
 
-  async prefillKeyRing() {
-    for (let i = 0; i < this.keyRing.length; i++) {
-      const key = await this.generateNextKeyForId(i);
-      const nextKeyId = (i + 1) % this.keyRing.length;
-      this.keyRing[nextKeyId] = key;
+  /**
+   * derives the keys following the current one in the background, so switching to them
+   * when the sender rotates its key doesn't stall
+   */
+  private deriveLookahead() {
+    for (let i = 1; i <= KEY_RING_LOOKAHEAD; i++) {
+      this.deriveKey((this.currentKeyId + i) % this.keyRing.length)?.catch((error) => {
+        log.error('failed to derive key', { error });
+      });
     }
   }
 
-  get currentCryptoKey() {
+  /**
+   * installs a key supplied by a KeyProvider and makes it the current key.
+   * SFrame keys are derived from raw keys or HKDF CryptoKeys, AES-GCM CryptoKeys can only
+   * be used with the trailer frame format
+   */
+  async setKey(keyIndex: number, key: CryptoKey | ArrayBuffer | Uint8Array) {
+    let keyMaterial: KeyMaterial;
+    if (key instanceof ArrayBuffer || ArrayBuffer.isView(key)) {
+      keyMaterial = await importKeyMaterial(key);
+    } else if (key.algorithm.name === 'HKDF') {
+      keyMaterial = { baseKey: key };
+    } else {
+      keyMaterial = { key };
+    }
+    const keyId = keyIndex % this.keyRing.length;
+    this.setKeyMaterial(keyId, keyMaterial);
+    // keys that are set take precedence over ones derived from the password
+    this.derivations[keyId] = Promise.resolve();
+    this.currentKeyId = keyId;
+    log.debug('set key', { keyId });
+  }
+
+  private setKeyMaterial(keyId: number, { key, baseKey }: KeyMaterial) {
+    // a slot without a key for one of the formats is emptied rather than keeping a stale one
+    this.keyRing[keyId] = key;
+    this.baseKeys[keyId] = baseKey;
+    this.sframeKeys[keyId] = undefined;
+  }
+
+  /** AES-GCM key at the current index, undefined when there's none */
+  get currentCryptoKey(): CryptoKey | undefined {
     return this.keyRing[this.currentKeyId];
   }
 
-  async rotateKey() {
-    log.debug('rotating key', { currentCryptoKey: this.currentCryptoKey });
+  /**
+   * true if there's a key at the current index, for either frame format
+   */
+  get hasCurrentKey() {
+    return !!this.keyRing[this.currentKeyId] || !!this.baseKeys[this.currentKeyId];
+  }
+
+  /**
+   * returns the SFrame key and salt derived from the base key at `keyId`, derivations are
+   * cached until the slot is replaced
+   */
+  getSFrameKey(keyId: number, cipherSuite: SFrameCipherSuite): Promise<SFrameKey> | undefined {
+    const baseKey = this.baseKeys[keyId];
+    if (!baseKey) {
+      return undefined;
+    }
+    let sframeKey = this.sframeKeys[keyId];
+    if (!sframeKey || sframeKey.cipherSuite !== cipherSuite) {
+      sframeKey = {
+        cipherSuite,
+        key: deriveSFrameKey(baseKey, this.getSFrameKeyId(keyId), cipherSuite),
+      };
+      this.sframeKeys[keyId] = sframeKey;
+    }
+    return sframeKey.key;
+  }
+
+  /**
+   * the KID of SFrame headers for the key at `keyId`
+   */
+  getSFrameKeyId(keyId: number) {
+    return this.generation * KEY_RING_SIZE + keyId;
+  }
+
+  /**
+   * makes the key at `keyId` the current key, returns false if there's no key at that index.
+   * Keys supplied by a KeyProvider don't necessarily fill the whole ring, keys of a password
+   * are derived when switching to them
+   */
+  setCurrentKeyId(keyId: number) {
+    if (!this.keyRing[keyId] && !this.baseKeys[keyId] && !this.deriveKey(keyId)) {
+      log.warn('cannot switch to missing key', { keyId });
+      return false;
+    }
+    if (keyId !== this.currentKeyId) {
+      this.currentKeyId = keyId;
+      this.deriveLookahead();
+      log.debug('switched key', { currentKeyId: this.currentKeyId });
+    }
+    return true;
+  }
+
+  /**
+   * waits for the key at `keyId` if it's still being derived from the password
+   */
+  async waitForKey(keyId: number) {
+    if (this.keyRing[keyId] || this.baseKeys[keyId]) {
+      return;
+    }
     try {
-      if (this.currentCryptoKey) {
-        const nextKeyId = (this.currentKeyId + 1) % this.keyRing.length;
-        this.currentKeyId = nextKeyId;
-        log.debug('rotated key', {
-          currentCryptoKey: this.currentCryptoKey,
-          currentKeyId: this.currentKeyId,
-        });
-      }
+      // keys are only derived once the password has been stretched
+      await this.passwordSet;
+      await this.deriveKey(keyId);
     } catch (error) {
-      log.error('failed to rotate key', { error });
+      log.error('failed to derive key', { error, keyId });
+    }
+  }
+
+  getKeyForId(id: number): CryptoKey | undefined {
+    return this.keyRing[id];
+  }
+}
+
+export default class E2EEManager {
+  /** key rings by participant identity */
+  participantKeys: Map<string, ParticipantKeys>;
+
+  /** key rings of the previous passwords, kept for KEY_GRACE_PERIOD after a password change */
+  private previousKeys: Map<string, { keys: ParticipantKeys; expiresAt: number }>;
+
+  /** next frame counter by SSRC */
+  sendCounts: Map<number, number>;
+
+  /** lower 32 bits of the next SFrame counter by SSRC */
+  private sframeCounts: Map<number, number>;
+
+  /** replay windows by sender SSRC and the participant sending them, by track id */
+  private replayWindows: Map<string, { participantId: string; windows: Map<number, ReplayWindow> }>;
+
+  decryptionFailurePolicy: DecryptionFailurePolicy;
+
+  /** consecutive decryption failures after which a track is reported as undecryptable */
+  undecryptableThreshold: number;
+
+  keyDerivationOptions: KeyDerivationOptions;
+
+  /** codecs of the tracks added through a transform */
+  private trackCodecs: Map<string, { codec?: string; payloadTypes?: Record<number, string> }>;
+
+  private trackFrameFormats: Map<string, FrameFormatOptions>;
+
+  /** number of consecutive failed frames by track id */
+  private failureCounts: Map<string, number>;
+
+  /** frame counts by track id, `changed` is set until they're reported */
+  private frameStats: Map<string, FrameStatsMessage & { changed: boolean }>;
+
+  private onMessage?: (message: E2EEWorkerMessage) => void;
+
+  constructor(onMessage?: (message: E2EEWorkerMessage) => void) {
+    this.participantKeys = new Map();
+    this.previousKeys = new Map();
+    this.sendCounts = new Map();
+    this.sframeCounts = new Map();
+    this.replayWindows = new Map();
+    this.failureCounts = new Map();
+    this.frameStats = new Map();
+    this.trackCodecs = new Map();
+    this.trackFrameFormats = new Map();
+    this.decryptionFailurePolicy = DecryptionFailurePolicy.Drop;
+    this.undecryptableThreshold = UNDECRYPTABLE_THRESHOLD;
+    this.keyDerivationOptions = { salt: '', iterations: PBKDF2_ITERATIONS };
+    this.onMessage = onMessage;
+  }
+
+  configure({
+    decryptionFailurePolicy,
+    undecryptableThreshold,
+    keyDerivationOptions,
+  }: DecryptionFailureOptions & { keyDerivationOptions?: KeyDerivationOptions }) {
+    this.decryptionFailurePolicy = decryptionFailurePolicy;
+    this.undecryptableThreshold = undecryptableThreshold;
+    if (keyDerivationOptions) {
+      this.keyDerivationOptions = keyDerivationOptions;
     }
   }
 
-  getKeyForId(id: number) {
-    const key = this.keyRing[id];
-    if (!key) {
-      throw new Error(`key for id: ${id} not found`);
+  /**
+   * Sets the password of a participant. When it replaces a previous password, the key ring of
+   * the new password is only swapped in once its first key is derived, and the previous ring
+   * keeps decrypting frames encrypted with it for KEY_GRACE_PERIOD
+   */
+  async setPassword(participantId: string, password: string) {
+    const keys = this.participantKeys.get(participantId);
+    // a key ring already derived from the password is kept as it is
+    if (!keys?.presharedKey || password === '' || keys.password === password) {
+      await this.getOrCreateParticipantKeys(participantId).setPassword(
+        password,
+        this.keyDerivationOptions,
+      );
+      return;
     }
-    return key;
+    const nextKeys = new ParticipantKeys();
+    await nextKeys.setPassword(password, this.keyDerivationOptions);
+    if (this.participantKeys.get(participantId) !== keys) {
+      // the keys were removed or replaced in the meantime
+      return;
+    }
+    nextKeys.keyChangePending = true;
+    this.participantKeys.set(participantId, nextKeys);
+    this.previousKeys.set(participantId, { keys, expiresAt: Date.now() + KEY_GRACE_PERIOD });
+    log.debug('switched to key ring of new password', {
+      participantId,
+      generation: nextKeys.generation,
+    });
+  }
+
+  async setKey(participantId: string, keyIndex: number, key: CryptoKey | ArrayBuffer | Uint8Array) {
+    await this.getOrCreateParticipantKeys(participantId).setKey(keyIndex, key);
+  }
+
+  /**
+   * drops the key ring and replay windows of a participant, its frames are sent unencrypted
+   * once its tracks are removed and frames received from it can't be decrypted afterwards
+   */
+  removeKeys(participantId: string) {
+    this.participantKeys.delete(participantId);
+    this.previousKeys.delete(participantId);
+    this.replayWindows.forEach((entry, trackId) => {
+      if (entry.participantId === participantId) {
+        this.replayWindows.delete(trackId);
+      }
+    });
+  }
+
+  setKeyIndex(participantId: string, keyIndex: number) {
+    this.participantKeys.get(participantId)?.setCurrentKeyId(keyIndex);
+  }
+
+  /**
+   * returns the key rings a frame tagged with `generation` may have been encrypted with, in
+   * the order they should be tried. Falls back to the current ring for generations that are
+   * unknown, e.g. frames of a sender that hasn't switched to a password yet. Frames without a
+   * generation may have been encrypted with any of the rings, the current one is tried first
+   */
+  private getKeyRings(participantId: string, generation: number | undefined) {
+    const keys = this.participantKeys.get(participantId);
+    const previous = this.previousKeys.get(participantId);
+    if (previous && previous.expiresAt <= Date.now()) {
+      this.previousKeys.delete(participantId);
+    }
+    const candidates = [keys, this.previousKeys.get(participantId)?.keys].filter(
+      (candidate): candidate is ParticipantKeys =>
+        !!candidate && (generation === undefined || candidate.generation === generation),
+    );
+    if (candidates.length === 0 && keys) {
+      candidates.push(keys);
+    }
+    return candidates;
+  }
+
+  /**
+   * Decrypts a frame with the key rings it may have been encrypted with, the first one that
+   * succeeds wins. `decrypt` returns undefined if the ring doesn't have the key.
+   * @returns undefined if none of the rings has the key, throws if all of them failed to decrypt
+   */
+  private async decryptWithKeyRings<T>(
+    participantId: string,
+    trackId: string,
+    generation: number | undefined,
+    keyId: number,
+    decrypt: (keys: ParticipantKeys) => Promise<T | undefined>,
+  ): Promise<T | undefined> {
+    let missingKey = true;
+    let lastError: unknown;
+    for (const keys of this.getKeyRings(participantId, generation)) {
+      let result: T | undefined;
+      try {
+        result = await decrypt(keys);
+      } catch (error) {
+        missingKey = false;
+        lastError = error;
+        continue;
+      }
+      if (result !== undefined) {
+        this.handleKeyRingUsed(participantId, trackId, keys, keyId);
+        return result;
+      }
+    }
+    if (!missingKey) {
+      throw lastError;
+    }
+    return undefined;
+  }
+
+  private handleKeyRingUsed(
+    participantId: string,
+    trackId: string,
+    keys: ParticipantKeys,
+    keyId: number,
+  ) {
+    // the sender rotated its key, follow along so the current key reflects the one in use
+    if (keyId !== keys.currentKeyId) {
+      keys.setCurrentKeyId(keyId);
+    }
+    if (keys.keyChangePending && this.participantKeys.get(participantId) === keys) {
+      keys.keyChangePending = false;
+      this.onMessage?.({ kind: 'keyChanged', participantId, trackId });
+    }
+  }
+
+  private getOrCreateParticipantKeys(participantId: string) {
+    let keys = this.participantKeys.get(participantId);
+    if (!keys) {
+      keys = new ParticipantKeys();
+      this.participantKeys.set(participantId, keys);
+    }
+    return keys;
+  }
+
+  /**
+   * remembers the codec of a track, frames are split into unencrypted and encrypted parts
+   * depending on it. `payloadTypes` maps RTP payload types to codecs for tracks whose codec
+   * can change, e.g. a subscriber receiving the backup codec of a simulcast track
+   */
+  setCodec(trackId: string, codec?: string, payloadTypes?: Record<number, string>) {
+    this.trackCodecs.set(trackId, { codec, payloadTypes });
+  }
+
+  private getCodec(trackId: string, encodedFrame: Chunk) {
+    const codecInfo = this.trackCodecs.get(trackId);
+    const payloadType = Number(encodedFrame.getMetadata().payloadType);
+    return codecInfo?.payloadTypes?.[payloadType] ?? codecInfo?.codec;
+  }
+
+  /**
+   * forgets the state kept for a track, called when its transform is removed
+   */
+  removeTrack(trackId: string) {
+    this.trackCodecs.delete(trackId);
+    this.trackFrameFormats.delete(trackId);
+    this.failureCounts.delete(trackId);
+    this.frameStats.delete(trackId);
+    this.replayWindows.delete(trackId);
+  }
+
+  /**
+   * posts the frame counts of all tracks that had frames go through the worker since
+   * the last call, lets the app tell whether the tracks are actually encrypted
+   */
+  reportFrameStats() {
+    this.frameStats.forEach((stats) => {
+      if (!stats.changed) {
+        return;
+      }
+      stats.changed = false;
+      const { changed, ...message } = stats;
+      this.onMessage?.(message);
+    });
+  }
+
+  private countFrame(trackId: string, result: FrameResult) {
+    let stats = this.frameStats.get(trackId);
+    if (!stats) {
+      stats = {
+        kind: 'frameStats',
+        trackId,
+        processedFrames: 0,
+        failedFrames: 0,
+        unencryptedFrames: 0,
+        droppedFrames: 0,
+        lastFrameResult: result,
+        changed: true,
+      };
+      this.frameStats.set(trackId, stats);
+    }
+    switch (result) {
+      case FrameResult.Processed:
+        stats.processedFrames += 1;
+        break;
+      case FrameResult.Failed:
+        stats.failedFrames += 1;
+        break;
+      case FrameResult.Dropped:
+        stats.droppedFrames += 1;
+        break;
+      case FrameResult.Unencrypted:
+      default:
+        stats.unencryptedFrames += 1;
+        break;
+    }
+    stats.lastFrameResult = result;
+    stats.changed = true;
+  }
+
+  /**
+   * passes on a frame there's no key for, empty frames don't carry media and aren't counted
+   */
+  private passUnencrypted(
+    trackId: string,
+    encodedFrame: Chunk,
+    controller: TransformStreamDefaultController,
+  ) {
+    if (encodedFrame.data.byteLength > 0) {
+      this.countFrame(trackId, FrameResult.Unencrypted);
+    }
+    controller.enqueue(encodedFrame);
+  }
+
+  /**
+   * Frames of a participant using e2ee or of a track added through a transform are never sent
+   * unencrypted, they're dropped until there's a key. Once the track has been removed and
+   * the participant's keys are gone, frames are passed on as they are
+   */
+  private sendWithoutKey(
+    participantId: string,
+    trackId: string,
+    encodedFrame: Chunk,
+    controller: TransformStreamDefaultController,
+  ) {
+    if (
+      encodedFrame.data.byteLength > 0 &&
+      (this.participantKeys.has(participantId) || this.trackCodecs.has(trackId))
+    ) {
+      this.countFrame(trackId, FrameResult.Dropped);
+      return;
+    }
+    this.passUnencrypted(trackId, encodedFrame, controller);
+  }
+
+  setFrameFormat(trackId: string, options?: FrameFormatOptions) {
+    if (options) {
+      this.trackFrameFormats.set(trackId, options);
+    } else {
+      this.trackFrameFormats.delete(trackId);
+    }
+  }
+
+  private getFrameFormat(trackId: string): FrameFormatOptions {
+    return (
+      this.trackFrameFormats.get(trackId) ?? {
+        frameFormat: E2EEFrameFormat.Trailer,
+        cipherSuite: SFrameCipherSuite.AES_128_GCM_SHA256_128,
+      }
+    );
   }
 
   /**
@@ -171,7 +702,7 @@ export default class E2EEManager {
    * This is fine as the SFU keeps having access to it for routing.
    *
    * The encrypted frame is formed as follows:
-   * 1) Leave the first (10, 3, 1) bytes unencrypted, depending on the frame type and kind.
+   * 1) Split off the bytes that stay unencrypted, depending on the codec, frame type and kind.
    * 2) Form the GCM IV for the frame as described above.
    * 3) Encrypt the rest of the frame using AES-GCM.
    * 4) Allocate space for the encrypted frame.
@@ -179,167 +710,505 @@ export default class E2EEManager {
    * 6) Append the ciphertext to the encrypted frame.
    * 7) Append the IV.
    * 8) Append a single byte for the key identifier.
-   * 9) Enqueue the encrypted frame for sending.
+   * 9) Escape start codes for H.264 and enqueue the encrypted frame for sending.
    */
-  encodeFunction(encodedFrame: Chunk, controller: TransformStreamDefaultController) {
+  async encodeFunction(
+    participantId: string,
+    trackId: string,
+    encodedFrame: Chunk,
+    controller: TransformStreamDefaultController,
+  ) {
     // if (scount++ < 30) {
     //   dump(encodedFrame, 'send');
     // }
-    if (this.currentCryptoKey && encodedFrame.data.byteLength > 0) {
+    const keys = this.participantKeys.get(participantId);
+    // hold back frames while the current key is being derived rather than dropping them
+    await keys?.waitForKey(keys.currentKeyId);
+    const { frameFormat, cipherSuite } = this.getFrameFormat(trackId);
+    if (frameFormat === E2EEFrameFormat.SFrame) {
+      return this.encodeSFrame(participantId, trackId, cipherSuite, encodedFrame, controller);
+    }
+    const key = keys?.currentCryptoKey;
+    if (keys && key && encodedFrame.data.byteLength > 0) {
       try {
-        const iv = this.makeIV(
-          encodedFrame.getMetadata().synchronizationSource,
-          encodedFrame.timestamp,
-        );
+        const iv = this.makeIV(encodedFrame.getMetadata().synchronizationSource);
 
-        // Thіs is not encrypted and contains the VP8 payload descriptor or the Opus TOC byte.
-        const frameHeader = new Uint8Array(
-          encodedFrame.data,
-          0,
-          UNENCRYPTED_BYTES[encodedFrame.type],
+        // The header is not encrypted and contains e.g. the first byte of the VP8 payload,
+        // the Opus TOC byte or H.264 NAL unit headers.
+        const codec = this.getCodec(trackId, encodedFrame);
+        const { header, additionalData, body } = splitOutgoingFrame(
+          new Uint8Array(encodedFrame.data),
+          encodedFrame.type,
+          codec,
         );
 
-        // Frame trailer contains the R|IV_LENGTH and key index
+        // Frame trailer contains the IV_LENGTH, with the GEN if the format has it, and key index
         const frameTrailer = new Uint8Array(2);
 
-        frameTrailer[0] = IV_LENGTH;
-        frameTrailer[1] = this.currentKeyId;
+        frameTrailer[0] =
+          frameFormat === E2EEFrameFormat.GenerationTrailer
+            ? (keys.generation << 4) | IV_LENGTH
+            : IV_LENGTH;
+        frameTrailer[1] = keys.currentKeyId;
 
-        return crypto.subtle
+        return await crypto.subtle
           .encrypt(
             {
               name: ENCRYPTION_ALGORITHM,
               iv,
-              additionalData: new Uint8Array(encodedFrame.data, 0, frameHeader.byteLength),
+              additionalData,
             },
-            this.currentCryptoKey,
-            new Uint8Array(encodedFrame.data, UNENCRYPTED_BYTES[encodedFrame.type]),
+            key,
+            body,
           )
           .then(
             (cipherText) => {
-              const newData = new ArrayBuffer(
-                frameHeader.byteLength +
-                  cipherText.byteLength +
-                  iv.byteLength +
-                  frameTrailer.byteLength,
+              const encrypted = new Uint8Array(
+                cipherText.byteLength + iv.byteLength + frameTrailer.byteLength,
               );
-              const newUint8 = new Uint8Array(newData);
 
-              newUint8.set(frameHeader); // copy first bytes.
-              newUint8.set(new Uint8Array(cipherText), frameHeader.byteLength); // add ciphertext.
-              newUint8.set(new Uint8Array(iv), frameHeader.byteLength + cipherText.byteLength); // append IV.
-              newUint8.set(
-                frameTrailer,
-                frameHeader.byteLength + cipherText.byteLength + iv.byteLength,
-              ); // append frame trailer.
+              encrypted.set(new Uint8Array(cipherText)); // add ciphertext.
+              encrypted.set(new Uint8Array(iv), cipherText.byteLength); // append IV.
+              encrypted.set(frameTrailer, cipherText.byteLength + iv.byteLength); // append frame trailer.
 
-              encodedFrame.data = newData;
+              encodedFrame.data = joinOutgoingFrame(header, encrypted, encodedFrame.type, codec);
 
+              this.clearError(trackId);
               return controller.enqueue(encodedFrame);
             },
             (error) => {
-              // TODO: surface this to the app.
               log.error('error encrypting', { error });
+              this.reportError(
+                EncryptionErrorReason.EncryptionFailed,
+                participantId,
+                trackId,
+                keys.currentKeyId,
+                error,
+              );
 
               // We are not enqueuing the frame here on purpose.
             },
           );
       } catch (error) {
-        // TODO: surface this to the app?
         log.error('error encoding/encrypting', { error });
+        this.reportError(
+          EncryptionErrorReason.EncryptionFailed,
+          participantId,
+          trackId,
+          keys.currentKeyId,
+          error,
+        );
+        // don't send the frame unencrypted
+        return;
       }
     }
-    controller.enqueue(encodedFrame);
+    this.sendWithoutKey(participantId, trackId, encodedFrame, controller);
   }
 
-  async decodeFunction(encodedFrame: Chunk, controller: TransformStreamDefaultController) {
+  async decodeFunction(
+    participantId: string,
+    trackId: string,
+    encodedFrame: Chunk,
+    controller: TransformStreamDefaultController,
+  ) {
     // if (rcount++ < 30) {
     //   dump(encodedFrame, 'recv');
     // }
-    if (this.currentCryptoKey && encodedFrame.data.byteLength > 0) {
-      try {
-        const frameHeader = new Uint8Array(
-          encodedFrame.data,
-          0,
-          UNENCRYPTED_BYTES[encodedFrame.type],
-        );
-        const frameTrailer = new Uint8Array(encodedFrame.data, encodedFrame.data.byteLength - 2, 2);
+    const { frameFormat, cipherSuite } = this.getFrameFormat(trackId);
+    if (frameFormat === E2EEFrameFormat.SFrame) {
+      return this.decodeSFrame(participantId, trackId, cipherSuite, encodedFrame, controller);
+    }
+    if (encodedFrame.data.byteLength === 0) {
+      return this.passUnencrypted(trackId, encodedFrame, controller);
+    }
+    // decode transforms are only attached to tracks advertised as encrypted, frames there's
+    // no key for are undecryptable rather than unencrypted
+    try {
+      const { header, additionalData, body } = splitIncomingFrame(
+        new Uint8Array(encodedFrame.data),
+        encodedFrame.type,
+        this.getCodec(trackId, encodedFrame),
+      );
+      const frameTrailer = body.subarray(body.byteLength - 2);
 
-        const ivLength = frameTrailer[0];
-        const iv = new Uint8Array(
-          encodedFrame.data,
-          encodedFrame.data.byteLength - ivLength - frameTrailer.byteLength,
-          ivLength,
-        );
+      // without a generation all key rings of the participant are tried
+      let generation: number | undefined;
+      let ivLength = frameTrailer[0];
+      if (frameFormat === E2EEFrameFormat.GenerationTrailer) {
+        generation = frameTrailer[0] >> 4;
+        ivLength = frameTrailer[0] & 0x0f;
+      }
+      const cipherTextLength = body.byteLength - ivLength - frameTrailer.byteLength;
+      if (ivLength !== IV_LENGTH || cipherTextLength < 0) {
+        throw new TypeError(`unexpected frame trailer, IV length: ${ivLength}`);
+      }
+      const iv = body.subarray(cipherTextLength, cipherTextLength + ivLength);
+
+      const ivView = new DataView(iv.buffer, iv.byteOffset, iv.byteLength);
+      const replayWindow = this.getReplayWindow(participantId, trackId, ivView.getUint32(0));
+      const frameCounter = ivView.getUint32(4) * 2 ** 32 + ivView.getUint32(8);
+      if (!replayWindow.accepts(frameCounter)) {
+        return this.reportReplayedFrame(participantId, trackId, frameTrailer[1], frameCounter);
+      }
 
-        const keyId = frameTrailer[1];
-        const key = this.getKeyForId(keyId);
-
-        const cipherTextStart = frameHeader.byteLength;
-        const cipherTextLength =
-          encodedFrame.data.byteLength -
-          (frameHeader.byteLength + ivLength + frameTrailer.byteLength);
-
-        const plainText = await crypto.subtle.decrypt(
-          {
-            name: 'AES-GCM',
-            iv,
-            additionalData: new Uint8Array(encodedFrame.data, 0, frameHeader.byteLength),
-          },
-          key,
-          new Uint8Array(encodedFrame.data, cipherTextStart, cipherTextLength),
+      const keyId = frameTrailer[1];
+      const plainText = await this.decryptWithKeyRings(
+        participantId,
+        trackId,
+        generation,
+        keyId,
+        async (ringKeys) => {
+          await ringKeys.waitForKey(keyId);
+          const key = ringKeys.getKeyForId(keyId);
+          if (!key) {
+            return undefined;
+          }
+          return crypto.subtle.decrypt(
+            {
+              name: ENCRYPTION_ALGORITHM,
+              iv,
+              additionalData,
+            },
+            key,
+            body.subarray(0, cipherTextLength),
+          );
+        },
+      );
+      if (!plainText) {
+        this.reportError(
+          EncryptionErrorReason.MissingKey,
+          participantId,
+          trackId,
+          keyId,
+          `key for id: ${keyId} not found`,
         );
+        return this.handleDecryptionFailure(trackId, encodedFrame, controller);
+      }
 
-        const newData = new ArrayBuffer(frameHeader.byteLength + plainText.byteLength);
-        const newUint8 = new Uint8Array(newData);
+      const newUint8 = new Uint8Array(header.byteLength + plainText.byteLength);
 
-        newUint8.set(new Uint8Array(encodedFrame.data, 0, frameHeader.byteLength));
-        newUint8.set(new Uint8Array(plainText), frameHeader.byteLength);
+      newUint8.set(header);
+      newUint8.set(new Uint8Array(plainText), header.byteLength);
 
-        encodedFrame.data = newData;
-      } catch (error) {
-        log.error('error decoding/decrypting', { error });
+      encodedFrame.data = newUint8.buffer;
+      // only authenticated frames move the window, forged counters can't push out genuine frames
+      replayWindow.update(frameCounter);
+      this.clearError(trackId);
+    } catch (error) {
+      log.error('error decoding/decrypting', { error });
+      this.reportError(
+        EncryptionErrorReason.DecryptionFailed,
+        participantId,
+        trackId,
+        new Uint8Array(encodedFrame.data)[encodedFrame.data.byteLength - 1],
+        error,
+      );
+      return this.handleDecryptionFailure(trackId, encodedFrame, controller);
+    }
+    controller.enqueue(encodedFrame);
+  }
+
+  /**
+   * Encrypts a frame into the SFrame format of RFC 9605. Codec specific bytes that have to
+   * stay readable are sent in front of the SFrame header and authenticated as metadata.
+   *
+   * The 64 bit frame counter (CTR) consists of the SSRC in the upper and a per SSRC counter in
+   * the lower 32 bits, the SSRC keeps the counters of different tracks of a sender apart as they
+   * share the same key. The lower half starts at the current time in units of 8ms, so a sender
+   * that starts over with the same SSRC and key doesn't reuse counters as long as it sent fewer
+   * than 125 frames per second on average.
+   */
+  private async encodeSFrame(
+    participantId: string,
+    trackId: string,
+    cipherSuite: SFrameCipherSuite,
+    encodedFrame: Chunk,
+    controller: TransformStreamDefaultController,
+  ) {
+    const keys = this.participantKeys.get(participantId);
+    if (!keys?.hasCurrentKey || encodedFrame.data.byteLength === 0) {
+      return this.sendWithoutKey(participantId, trackId, encodedFrame, controller);
+    }
+    const keyId = keys.currentKeyId;
+    try {
+      const sframeKey = keys.getSFrameKey(keyId, cipherSuite);
+      if (!sframeKey) {
+        throw new TypeError('SFrame requires raw keys or HKDF CryptoKeys');
+      }
+      const synchronizationSource = encodedFrame.getMetadata().synchronizationSource;
+      const counterLow = this.nextSFrameCounter(synchronizationSource);
+      const codec = this.getCodec(trackId, encodedFrame);
+      const { header, additionalData, body } = splitOutgoingFrame(
+        new Uint8Array(encodedFrame.data),
+        encodedFrame.type,
+        codec,
+      );
+      const sframeHeader = encodeSFrameHeader(
+        keys.getSFrameKeyId(keyId),
+        synchronizationSource,
+        counterLow,
+      );
+      const cipherText = await sframeEncrypt(
+        await sframeKey,
+        synchronizationSource,
+        counterLow,
+        concat(sframeHeader, additionalData),
+        body,
+      );
+      encodedFrame.data = joinOutgoingFrame(
+        header,
+        concat(sframeHeader, cipherText),
+        encodedFrame.type,
+        codec,
+      );
+      this.clearError(trackId);
+      controller.enqueue(encodedFrame);
+    } catch (error) {
+      log.error('error encrypting sframe', { error });
+      // don't send the frame unencrypted
+      this.reportError(
+        EncryptionErrorReason.EncryptionFailed,
+        participantId,
+        trackId,
+        keyId,
+        error,
+      );
+    }
+  }
+
+  private async decodeSFrame(
+    participantId: string,
+    trackId: string,
+    cipherSuite: SFrameCipherSuite,
+    encodedFrame: Chunk,
+    controller: TransformStreamDefaultController,
+  ) {
+    if (encodedFrame.data.byteLength === 0) {
+      return this.passUnencrypted(trackId, encodedFrame, controller);
+    }
+    let keyId: number | undefined;
+    try {
+      const { header, additionalData, body } = splitIncomingFrame(
+        new Uint8Array(encodedFrame.data),
+        encodedFrame.type,
+        this.getCodec(trackId, encodedFrame),
+      );
+      const sframeHeader = decodeSFrameHeader(body);
+      // the KID holds the generation of the key ring along with the key index
+      const generation = Math.floor(sframeHeader.keyId / KEY_RING_SIZE);
+      const ringKeyId = sframeHeader.keyId % KEY_RING_SIZE;
+      keyId = sframeHeader.keyId;
+      const missingKey = () => {
+        this.reportError(
+          EncryptionErrorReason.MissingKey,
+          participantId,
+          trackId,
+          keyId,
+          `key for id: ${keyId} not found`,
+        );
+        return this.handleDecryptionFailure(trackId, encodedFrame, controller);
+      };
+      if (generation >= KEY_GENERATIONS) {
+        return missingKey();
+      }
+
+      const replayWindow = this.getReplayWindow(participantId, trackId, sframeHeader.counterHigh);
+      const frameCounter = replayWindow.unwrap(sframeHeader.counterLow);
+      if (!replayWindow.accepts(frameCounter)) {
+        return this.reportReplayedFrame(participantId, trackId, keyId, frameCounter);
+      }
+
+      const plainText = await this.decryptWithKeyRings(
+        participantId,
+        trackId,
+        generation,
+        ringKeyId,
+        async (ringKeys) => {
+          await ringKeys.waitForKey(ringKeyId);
+          // SFrame keys are derived for the KID, the fallback ring may be of another generation
+          if (ringKeys.getSFrameKeyId(ringKeyId) !== sframeHeader.keyId) {
+            return undefined;
+          }
+          const sframeKey = ringKeys.getSFrameKey(ringKeyId, cipherSuite);
+          if (!sframeKey) {
+            return undefined;
+          }
+          return sframeDecrypt(
+            await sframeKey,
+            sframeHeader.counterHigh,
+            sframeHeader.counterLow,
+            concat(body.subarray(0, sframeHeader.byteLength), additionalData),
+            body.subarray(sframeHeader.byteLength),
+          );
+        },
+      );
+      if (!plainText) {
+        return missingKey();
       }
+      encodedFrame.data = concat(header, new Uint8Array(plainText)).buffer;
+      replayWindow.update(frameCounter);
+      this.clearError(trackId);
+    } catch (error) {
+      log.error('error decrypting sframe', { error });
+      this.reportError(
+        EncryptionErrorReason.DecryptionFailed,
+        participantId,
+        trackId,
+        keyId,
+        error,
+      );
+      return this.handleDecryptionFailure(trackId, encodedFrame, controller);
     }
     controller.enqueue(encodedFrame);
   }
 
+  private nextSFrameCounter(synchronizationSource: number) {
+    const counter =
+      this.sframeCounts.get(synchronizationSource) ?? Math.floor(Date.now() / 8) % 2 ** 32;
+    this.sframeCounts.set(synchronizationSource, (counter + 1) % 2 ** 32);
+    return counter;
+  }
+
+  private getReplayWindow(participantId: string, trackId: string, synchronizationSource: number) {
+    let entry = this.replayWindows.get(trackId);
+    if (entry?.participantId !== participantId) {
+      entry = { participantId, windows: new Map() };
+      this.replayWindows.set(trackId, entry);
+    }
+    let replayWindow = entry.windows.get(synchronizationSource);
+    if (!replayWindow) {
+      replayWindow = new ReplayWindow();
+      entry.windows.set(synchronizationSource, replayWindow);
+    }
+    return replayWindow;
+  }
+
+  /**
+   * replayed frames are not a decryption failure of the track, they are dropped regardless
+   * of the decryption failure policy
+   */
+  private reportReplayedFrame(
+    participantId: string,
+    trackId: string,
+    keyIndex: number,
+    frameCounter: number,
+  ) {
+    this.onMessage?.({
+      kind: 'error',
+      reason: EncryptionErrorReason.ReplayedFrame,
+      participantId,
+      trackId,
+      keyIndex,
+      message: `frame counter ${frameCounter} received before or outside the replay window`,
+    });
+  }
+
+  /**
+   * applies the decryption failure policy to a frame that couldn't be decrypted.
+   * Forwarding ciphertext makes decoders render corruption or play noise, so by default it's dropped
+   */
+  private handleDecryptionFailure(
+    trackId: string,
+    encodedFrame: Chunk,
+    controller: TransformStreamDefaultController,
+  ) {
+    if (this.failureCounts.get(trackId) === this.undecryptableThreshold) {
+      this.onMessage?.({ kind: 'decryptionState', trackId, undecryptable: true });
+    }
+    switch (this.decryptionFailurePolicy) {
+      case DecryptionFailurePolicy.PassThrough:
+        controller.enqueue(encodedFrame);
+        break;
+      case DecryptionFailurePolicy.Replace:
+        // there's no way to produce a black video frame without an encoder, video frames
+        // are dropped and the decoder keeps showing the last decrypted frame
+        if (encodedFrame.type === undefined) {
+          encodedFrame.data = OPUS_SILENCE_FRAME.slice().buffer;
+          controller.enqueue(encodedFrame);
+        }
+        break;
+      case DecryptionFailurePolicy.Drop:
+      default:
+        break;
+    }
+  }
+
+  /**
+   * reports a failed frame to the app, once per track until the track recovers.
+   * Failures tend to affect every frame of a track so reporting each would flood the main thread
+   */
+  private reportError(
+    reason: EncryptionErrorReason,
+    participantId: string,
+    trackId: string,
+    keyIndex: number | undefined,
+    error: unknown,
+  ) {
+    this.countFrame(trackId, FrameResult.Failed);
+    const failures = (this.failureCounts.get(trackId) ?? 0) + 1;
+    this.failureCounts.set(trackId, failures);
+    if (failures > 1) {
+      return;
+    }
+    this.onMessage?.({
+      kind: 'error',
+      reason,
+      participantId,
+      trackId,
+      keyIndex,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  /**
+   * called for every frame that was encrypted or decrypted
+   */
+  private clearError(trackId: string) {
+    this.countFrame(trackId, FrameResult.Processed);
+    const failures = this.failureCounts.get(trackId);
+    if (failures === undefined) {
+      return;
+    }
+    this.failureCounts.delete(trackId);
+    if (failures >= this.undecryptableThreshold) {
+      this.onMessage?.({ kind: 'decryptionState', trackId, undecryptable: false });
+    }
+  }
+
   /**
    * Construct the IV used for AES-GCM and sent (in plain) with the packet similar to
    * https://tools.ietf.org/html/rfc7714#section-8.1
    * It concatenates
    * - the 32 bit synchronization source (SSRC) given on the encoded frame,
-   * - the 32 bit rtp timestamp given on the encoded frame,
-   * - a send counter that is specific to the SSRC. Starts at a random number.
-   * The send counter is essentially the pictureId but we currently have to implement this ourselves.
+   * - a 64 bit frame counter that is specific to the SSRC.
    * There is no XOR with a salt. Note that this IV leaks the SSRC to the receiver but since this is
    * randomly generated and SFUs may not rewrite this is considered acceptable.
    * The SSRC is used to allow demultiplexing multiple streams with the same key, as described in
    *   https://tools.ietf.org/html/rfc3711#section-4.1.1
-   * The RTP timestamp is 32 bits and advances by the codec clock rate (90khz for video, 48khz for
-   * opus audio) every second. For video it rolls over roughly every 13 hours.
-   * The send counter will advance at the frame rate (30fps for video, 50fps for 20ms opus audio)
-   * every second. It will take a long time to roll over.
+   *
+   * AES-GCM must never encrypt two frames with the same key and IV. The frame counter never wraps,
+   * at the frame rate of video it takes longer than the age of the universe to get to 2^53. It
+   * starts at the current time in milliseconds times 1024, so a sender that starts over, e.g. after
+   * republishing a track, doesn't reuse the counters it used before as long as it sends fewer
+   * than 1024 frames per millisecond. Receivers use the counter to detect replayed frames.
    *
    * See also https://developer.mozilla.org/en-US/docs/Web/API/AesGcmParams
    */
-  makeIV(synchronizationSource: number, timestamp: number) {
+  makeIV(synchronizationSource: number) {
     const iv = new ArrayBuffer(IV_LENGTH);
     const ivView = new DataView(iv);
 
-    // having to keep our own send count (similar to a picture id) is not ideal.
     if (!this.sendCounts.has(synchronizationSource)) {
-      // Initialize with a random offset, similar to the RTP sequence number.
-      this.sendCounts.set(synchronizationSource, Math.floor(Math.random() * 0xffff));
+      this.sendCounts.set(synchronizationSource, Date.now() * 1024);
     }
 
-    const sendCount = this.sendCounts.get(synchronizationSource) || 0;
+    const frameCounter = this.sendCounts.get(synchronizationSource) ?? 0;
 
     ivView.setUint32(0, synchronizationSource);
-    ivView.setUint32(4, timestamp);
-    ivView.setUint32(8, sendCount % 0xffff);
+    ivView.setUint32(4, Math.floor(frameCounter / 2 ** 32));
+    ivView.setUint32(8, frameCounter >>> 0);
 
-    this.sendCounts.set(synchronizationSource, sendCount + 1);
+    this.sendCounts.set(synchronizationSource, frameCounter + 1);
 
     return iv;
   }
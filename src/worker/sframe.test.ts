@@ -0,0 +1,68 @@
+import { SFrameCipherSuite } from '../e2ee/types';
+import {
+  decodeSFrameHeader,
+  deriveSFrameKey,
+  encodeSFrameHeader,
+  sframeDecrypt,
+  sframeEncrypt,
+} from './sframe';
+
+describe('SFrame header', () => {
+  it.each([
+    [0, 0, 0, [0x00]],
+    [7, 0, 7, [0x77]],
+    [0, 0, 8, [0x08, 0x08]],
+    [8, 0, 0, [0x80, 0x08]],
+    [0x100, 0, 0x1234, [0x99, 0x01, 0x00, 0x12, 0x34]],
+    [1, 0xdeadbeef, 1, [0x1f, 0xde, 0xad, 0xbe, 0xef, 0x00, 0x00, 0x00, 0x01]],
+  ])('encodes key id %i and counter %i:%i', (keyId, counterHigh, counterLow, expected) => {
+    const header = encodeSFrameHeader(keyId, counterHigh, counterLow);
+    expect(Array.from(header)).toEqual(expected);
+    expect(decodeSFrameHeader(header)).toEqual({
+      keyId,
+      counterHigh,
+      counterLow,
+      byteLength: expected.length,
+    });
+  });
+
+  it('rejects truncated headers', () => {
+    expect(() => decodeSFrameHeader(new Uint8Array([0x0a, 0x01]))).toThrow();
+  });
+});
+
+describe('SFrame encryption', () => {
+  const plainText = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]);
+  const additionalData = new Uint8Array([0x08, 0x2a]);
+
+  async function createKey(cipherSuite: SFrameCipherSuite) {
+    const baseKey = await crypto.subtle.importKey(
+      'raw',
+      new Uint8Array(16).fill(1),
+      'HKDF',
+      false,
+      ['deriveBits'],
+    );
+    return deriveSFrameKey(baseKey, 0, cipherSuite);
+  }
+
+  it.each([
+    [SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_80, 10],
+    [SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_64, 8],
+    [SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_32, 4],
+    [SFrameCipherSuite.AES_128_GCM_SHA256_128, 16],
+    [SFrameCipherSuite.AES_256_GCM_SHA512_128, 16],
+  ])('encrypts and authenticates with cipher suite %i', async (cipherSuite, tagLength) => {
+    const key = await createKey(cipherSuite);
+    const cipherText = await sframeEncrypt(key, 0, 42, additionalData, plainText);
+    expect(cipherText.byteLength).toBe(plainText.byteLength + tagLength);
+
+    const decrypted = await sframeDecrypt(key, 0, 42, additionalData, cipherText);
+    expect(Array.from(new Uint8Array(decrypted))).toEqual(Array.from(plainText));
+
+    await expect(
+      sframeDecrypt(key, 0, 42, new Uint8Array([0x08, 0x2b]), cipherText),
+    ).rejects.toThrow();
+    await expect(sframeDecrypt(key, 0, 43, additionalData, cipherText)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,319 @@
+// SFrame as specified in https://www.rfc-editor.org/rfc/rfc9605.html
+//
+// An SFrame encrypted frame consists of a header carrying the key id (KID) and frame
+// counter (CTR), followed by the ciphertext and authentication tag:
+//
+// -------------+--------+-----+-----+---------------------+
+// unencrypted  | config | KID | CTR | ciphertext and tag  |
+// -------------+--------+-----+-----+---------------------+
+//
+// The codec specific bytes that have to stay readable (see codecs.ts) are kept in front of the
+// SFrame header and authenticated as metadata along with the header.
+import { SFrameCipherSuite } from '../e2ee/types';
+import { concat } from './codecs';
+
+/** all SFrame cipher suites use a 96 bit nonce */
+const NONCE_LENGTH = 12;
+
+interface CipherSuiteParameters {
+  hash: 'SHA-256' | 'SHA-512';
+  /** length of the derived key in bytes, AEAD.Nk */
+  keyLength: number;
+  /** length of the authentication tag in bytes, AEAD.Nt */
+  tagLength: number;
+  mode: 'gcm' | 'ctr';
+}
+
+const CIPHER_SUITES: Record<SFrameCipherSuite, CipherSuiteParameters> = {
+  [SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_80]: {
+    hash: 'SHA-256',
+    keyLength: 48,
+    tagLength: 10,
+    mode: 'ctr',
+  },
+  [SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_64]: {
+    hash: 'SHA-256',
+    keyLength: 48,
+    tagLength: 8,
+    mode: 'ctr',
+  },
+  [SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_32]: {
+    hash: 'SHA-256',
+    keyLength: 48,
+    tagLength: 4,
+    mode: 'ctr',
+  },
+  [SFrameCipherSuite.AES_128_GCM_SHA256_128]: {
+    hash: 'SHA-256',
+    keyLength: 16,
+    tagLength: 16,
+    mode: 'gcm',
+  },
+  [SFrameCipherSuite.AES_256_GCM_SHA512_128]: {
+    hash: 'SHA-512',
+    keyLength: 32,
+    tagLength: 16,
+    mode: 'gcm',
+  },
+};
+
+// the AES-CTR suites split the derived key into the encryption and the authentication key
+const CTR_ENCRYPTION_KEY_LENGTH = 16;
+
+export interface SFrameHeader {
+  keyId: number;
+  /** upper 32 bits of the 64 bit frame counter */
+  counterHigh: number;
+  /** lower 32 bits of the 64 bit frame counter */
+  counterLow: number;
+  /** encoded length of the header in bytes */
+  byteLength: number;
+}
+
+export interface SFrameKey {
+  cipherSuite: SFrameCipherSuite;
+  key: CryptoKey;
+  /** HMAC key of the AES-CTR suites */
+  authKey?: CryptoKey;
+  salt: Uint8Array;
+}
+
+/**
+ * encodes the SFrame header, https://www.rfc-editor.org/rfc/rfc9605.html#section-4.3
+ */
+export function encodeSFrameHeader(
+  keyId: number,
+  counterHigh: number,
+  counterLow: number,
+): Uint8Array {
+  const kid = encodeValue(Math.floor(keyId / 2 ** 32), keyId >>> 0);
+  const ctr = encodeValue(counterHigh, counterLow);
+  const header = new Uint8Array(1 + kid.extendedLength + ctr.extendedLength);
+  header[0] = (kid.config << 4) | ctr.config;
+  header.set(kid.bytes, 1);
+  header.set(ctr.bytes, 1 + kid.extendedLength);
+  return header;
+}
+
+/**
+ * parses the SFrame header at the start of `data`
+ */
+export function decodeSFrameHeader(data: Uint8Array): SFrameHeader {
+  if (data.byteLength < 1) {
+    throw new TypeError('missing SFrame header');
+  }
+  const config = data[0];
+  const kid = decodeValue(data, 1, config >> 4);
+  const ctr = decodeValue(data, 1 + kid.extendedLength, config & 0x0f);
+  return {
+    keyId: kid.high * 2 ** 32 + kid.low,
+    counterHigh: ctr.high,
+    counterLow: ctr.low,
+    byteLength: 1 + kid.extendedLength + ctr.extendedLength,
+  };
+}
+
+/**
+ * derives the SFrame key and salt for a key id from a base key,
+ * https://www.rfc-editor.org/rfc/rfc9605.html#section-4.4.2
+ */
+export async function deriveSFrameKey(
+  baseKey: CryptoKey,
+  keyId: number,
+  cipherSuite: SFrameCipherSuite,
+): Promise<SFrameKey> {
+  const { hash, keyLength, mode } = CIPHER_SUITES[cipherSuite];
+  const suffix = new Uint8Array(10);
+  const suffixView = new DataView(suffix.buffer);
+  suffixView.setUint32(0, Math.floor(keyId / 2 ** 32));
+  suffixView.setUint32(4, keyId >>> 0);
+  suffixView.setUint16(8, cipherSuite);
+
+  const expand = async (label: string, length: number) =>
+    new Uint8Array(
+      await crypto.subtle.deriveBits(
+        {
+          name: 'HKDF',
+          hash,
+          salt: new Uint8Array(0),
+          info: concat(new TextEncoder().encode(label), suffix),
+        },
+        baseKey,
+        length * 8,
+      ),
+    );
+
+  const keyBytes = await expand('SFrame 1.0 Secret key ', keyLength);
+  const salt = await expand('SFrame 1.0 Secret salt ', NONCE_LENGTH);
+
+  if (mode === 'gcm') {
+    const key = await crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, [
+      'encrypt',
+      'decrypt',
+    ]);
+    return { cipherSuite, key, salt };
+  }
+  const key = await crypto.subtle.importKey(
+    'raw',
+    keyBytes.subarray(0, CTR_ENCRYPTION_KEY_LENGTH),
+    'AES-CTR',
+    false,
+    ['encrypt', 'decrypt'],
+  );
+  const authKey = await crypto.subtle.importKey(
+    'raw',
+    keyBytes.subarray(CTR_ENCRYPTION_KEY_LENGTH),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return { cipherSuite, key, authKey, salt };
+}
+
+/**
+ * encrypts a frame, the returned ciphertext includes the authentication tag.
+ * `additionalData` has to start with the SFrame header
+ */
+export async function sframeEncrypt(
+  { cipherSuite, key, authKey, salt }: SFrameKey,
+  counterHigh: number,
+  counterLow: number,
+  additionalData: Uint8Array,
+  plainText: Uint8Array,
+): Promise<Uint8Array> {
+  const nonce = makeNonce(salt, counterHigh, counterLow);
+  const { tagLength, mode } = CIPHER_SUITES[cipherSuite];
+  if (mode === 'gcm') {
+    return new Uint8Array(
+      await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: nonce, additionalData, tagLength: tagLength * 8 },
+        key,
+        plainText,
+      ),
+    );
+  }
+  const cipherText = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: 'AES-CTR', counter: concat(nonce, new Uint8Array(4)), length: 32 },
+      key,
+      plainText,
+    ),
+  );
+  const tag = await computeTag(authKey!, tagLength, nonce, additionalData, cipherText);
+  return concat(cipherText, tag);
+}
+
+/**
+ * authenticates and decrypts a frame encrypted by [[sframeEncrypt]], throws if the
+ * authentication fails
+ */
+export async function sframeDecrypt(
+  { cipherSuite, key, authKey, salt }: SFrameKey,
+  counterHigh: number,
+  counterLow: number,
+  additionalData: Uint8Array,
+  cipherText: Uint8Array,
+): Promise<ArrayBuffer> {
+  const nonce = makeNonce(salt, counterHigh, counterLow);
+  const { tagLength, mode } = CIPHER_SUITES[cipherSuite];
+  if (mode === 'gcm') {
+    return crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: nonce, additionalData, tagLength: tagLength * 8 },
+      key,
+      cipherText,
+    );
+  }
+  if (cipherText.byteLength < tagLength) {
+    throw new TypeError('SFrame ciphertext shorter than its tag');
+  }
+  const encrypted = cipherText.subarray(0, cipherText.byteLength - tagLength);
+  const tag = cipherText.subarray(cipherText.byteLength - tagLength);
+  const expectedTag = await computeTag(authKey!, tagLength, nonce, additionalData, encrypted);
+  // compare all bytes so the time taken doesn't depend on where the tags differ
+  let difference = 0;
+  expectedTag.forEach((byte, i) => {
+    difference |= byte ^ tag[i];
+  });
+  if (difference !== 0) {
+    throw new Error('SFrame authentication tag mismatch');
+  }
+  return crypto.subtle.decrypt(
+    { name: 'AES-CTR', counter: concat(nonce, new Uint8Array(4)), length: 32 },
+    key,
+    encrypted,
+  );
+}
+
+/**
+ * https://www.rfc-editor.org/rfc/rfc9605.html#section-4.5.1
+ */
+async function computeTag(
+  authKey: CryptoKey,
+  tagLength: number,
+  nonce: Uint8Array,
+  additionalData: Uint8Array,
+  cipherText: Uint8Array,
+) {
+  const lengths = new Uint8Array(24);
+  const lengthsView = new DataView(lengths.buffer);
+  lengthsView.setUint32(4, additionalData.byteLength);
+  lengthsView.setUint32(12, cipherText.byteLength);
+  lengthsView.setUint32(20, tagLength);
+  const tag = await crypto.subtle.sign(
+    'HMAC',
+    authKey,
+    concat(lengths, nonce, additionalData, cipherText),
+  );
+  return new Uint8Array(tag, 0, tagLength);
+}
+
+/** XORs the salt with the frame counter encoded as a 96 bit big endian integer */
+function makeNonce(salt: Uint8Array, counterHigh: number, counterLow: number) {
+  const nonce = new Uint8Array(NONCE_LENGTH);
+  const nonceView = new DataView(nonce.buffer);
+  nonceView.setUint32(4, counterHigh);
+  nonceView.setUint32(8, counterLow);
+  return nonce.map((byte, i) => byte ^ salt[i]);
+}
+
+/**
+ * encodes a 64 bit value, values below 8 fit into the config bits,
+ * larger ones are sent in as few bytes as possible
+ */
+function encodeValue(high: number, low: number) {
+  if (high === 0 && low < 8) {
+    return { config: low, bytes: new Uint8Array(0), extendedLength: 0 };
+  }
+  let length = 8;
+  while (length > 1 && byteAt(high, low, length - 1) === 0) {
+    length -= 1;
+  }
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[length - 1 - i] = byteAt(high, low, i);
+  }
+  return { config: 0b1000 | (length - 1), bytes, extendedLength: length };
+}
+
+function decodeValue(data: Uint8Array, offset: number, config: number) {
+  if ((config & 0b1000) === 0) {
+    return { high: 0, low: config, extendedLength: 0 };
+  }
+  const length = (config & 0b0111) + 1;
+  if (offset + length > data.byteLength) {
+    throw new TypeError('truncated SFrame header');
+  }
+  let high = 0;
+  let low = 0;
+  for (let i = 0; i < length; i++) {
+    // shift the upper byte of the lower half into the upper half
+    high = high * 256 + (low >>> 24);
+    low = ((low << 8) | data[offset + i]) >>> 0;
+  }
+  return { high, low, extendedLength: length };
+}
+
+/** returns byte `index` of a 64 bit value, counting from the least significant byte */
+function byteAt(high: number, low: number, index: number) {
+  return index < 4 ? (low >>> (8 * index)) & 0xff : (high >>> (8 * (index - 4))) & 0xff;
+}
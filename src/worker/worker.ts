@@ -1,56 +1,137 @@
+import { FRAME_STATS_INTERVAL } from '../e2ee/constants';
+import { E2EE_PROTOCOL_VERSION } from '../e2ee/protocol';
+import type { E2EEWorkerEnvelope, E2EEWorkerOutput, TransformRequest } from '../e2ee/protocol';
+import { stretchPassword } from '../e2ee/keyDerivation';
 import E2EEManager from './e2ee';
-import log from '../logger';
+import log, { setLogLevel, setLogOutput } from '../logger';
 
-const manager = new E2EEManager();
+const post = (message: E2EEWorkerOutput) => postMessage(message);
+
+// log records are logged by the main thread, so they go through the page's log extension
+setLogOutput((level, message, context) => {
+  try {
+    post({ kind: 'log', level, message, context });
+  } catch {
+    // the context can't always be cloned, e.g. when it holds a stream
+    post({ kind: 'log', level, message, context: { context: String(context) } });
+  }
+});
+
+const manager = new E2EEManager(post);
+
+setInterval(() => manager.reportFrameStats(), FRAME_STATS_INTERVAL);
 
 const handleTransform = ({
   operation,
+  participantId,
+  trackId,
+  codec,
+  payloadTypes,
+  frameFormat,
+  cipherSuite,
   readable,
   writable,
-}: {
-  operation: string;
-  readable: any;
-  writable: any;
-}) => {
-  if (operation === 'encode') {
-    const transformer = new TransformStream({
-      transform: manager.encodeFunction.bind(manager),
-    });
-    readable.pipeThrough(transformer).pipeTo(writable);
-  } else if (operation === 'decode') {
-    const transformer = new TransformStream({
-      transform: manager.decodeFunction.bind(manager),
-    });
-    readable.pipeThrough(transformer).pipeTo(writable);
+}: TransformRequest) => {
+  if (!readable || !writable) {
+    throw new TypeError('transform requires a readable and a writable stream');
   }
+  manager.setCodec(trackId, codec, payloadTypes);
+  manager.setFrameFormat(
+    trackId,
+    frameFormat && cipherSuite ? { frameFormat, cipherSuite } : undefined,
+  );
+  const transformer = new TransformStream({
+    transform:
+      operation === 'encode'
+        ? manager.encodeFunction.bind(manager, participantId, trackId)
+        : manager.decodeFunction.bind(manager, participantId, trackId),
+  });
+  readable.pipeThrough(transformer).pipeTo(writable);
 };
-onmessage = async (event) => {
-  const { operation, readable, writable } = event.data;
-  log.trace('message received', { event });
-
-  if (operation === 'setPassword') {
-    const { password } = event.data;
-    await manager.setPassword(password);
-  } else if (operation === 'rotateKey') {
-    await manager.rotateKey();
-  } else {
-    handleTransform({ operation, readable, writable });
+
+/**
+ * @returns the result the request is acknowledged with, if it has one
+ */
+const handleRequest = async (request: E2EEWorkerEnvelope): Promise<CryptoKey | undefined> => {
+  switch (request.operation) {
+    case 'setPassword':
+      await manager.setPassword(request.participantId, request.password);
+      break;
+    case 'stretchPassword':
+      return stretchPassword(request.password, request.keyDerivationOptions);
+    case 'setKey':
+      await manager.setKey(request.participantId, request.keyIndex, request.key);
+      break;
+    case 'removeKeys':
+      manager.removeKeys(request.participantId);
+      break;
+    case 'configure': {
+      const { decryptionFailurePolicy, undecryptableThreshold, keyDerivationOptions } = request;
+      manager.configure({ decryptionFailurePolicy, undecryptableThreshold, keyDerivationOptions });
+      break;
+    }
+    case 'setKeyIndex':
+      manager.setKeyIndex(request.participantId, request.keyIndex);
+      break;
+    case 'removeTrack':
+      manager.removeTrack(request.trackId);
+      break;
+    case 'setLogLevel':
+      setLogLevel(request.level);
+      break;
+    case 'encode':
+    case 'decode':
+      handleTransform(request);
+      break;
+    default:
+      throw new TypeError(`unknown operation ${(request as { operation: string }).operation}`);
   }
 };
 
+/**
+ * handles a request and acknowledges it, failures are replied to with an error so the
+ * main thread doesn't wait for the request forever
+ */
+const respond = async (request: E2EEWorkerEnvelope) => {
+  log.trace('request received', { operation: request.operation, requestId: request.requestId });
+  try {
+    if (request.version !== E2EE_PROTOCOL_VERSION) {
+      throw new TypeError(
+        `unsupported protocol version ${request.version}, expected ${E2EE_PROTOCOL_VERSION}`,
+      );
+    }
+    const result = await handleRequest(request);
+    post(
+      result
+        ? { kind: 'ack', requestId: request.requestId, result }
+        : { kind: 'ack', requestId: request.requestId },
+    );
+  } catch (error) {
+    log.error('failed to handle request', { error, operation: request.operation });
+    post({
+      kind: 'requestError',
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// handle messages one after the other, deriving keys is async and e.g. a key index
+// change must not be applied before the key ring it refers to has been filled
+let messageQueue = Promise.resolve();
+onmessage = (event: MessageEvent<E2EEWorkerEnvelope>) => {
+  messageQueue = messageQueue.then(() => respond(event.data));
+};
+
 // Operations using RTCRtpScriptTransform.
 // @ts-expect-error
 if (self.RTCTransformEvent) {
   // @ts-expect-error
   self.onrtctransform = (event: any) => {
     const { transformer } = event;
-    const {
-      readable,
-      writable,
-      options: { operation },
-    } = transformer;
+    const { readable, writable, options } = transformer;
 
-    handleTransform({ operation, readable, writable });
+    // queued like requests posted to the worker, so it's attached after earlier requests
+    messageQueue = messageQueue.then(() => respond({ ...options, readable, writable }));
   };
 }
-export {};